@@ -0,0 +1,45 @@
+/*
+  Checks that the parse worker in the Next build output loads and parses a file. Runs after `npm run build`:
+    node scripts/check-parse-worker.mjs
+*/
+
+import { readdirSync } from "fs";
+import { Worker } from "worker_threads";
+
+const assets = new URL("../.next/server/assets/", import.meta.url);
+const entries = readdirSync(assets).filter((name) => /^parse-worker\.[\w-]+\.mjs$/.test(name));
+if (entries.length === 0) {
+  console.error("No parse worker in .next/server/assets; the analyze route would parse on a single thread.");
+  process.exit(1);
+}
+for (const name of entries) {
+  await checkWorker(new URL(name, assets));
+  console.log(`Parse worker ${name} loads and parses.`);
+}
+
+function checkWorker(url) {
+  const job = {
+    file: { name: "ping.py", content: "def ping():\n    return 1\n" },
+    location: { moduleName: "ping", isPackage: false },
+    hash: "0",
+    includeDocstrings: true,
+    includeComments: false,
+  };
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(url);
+    const finish = (err) => {
+      clearTimeout(timer);
+      worker.removeAllListeners();
+      void worker.terminate();
+      if (err) reject(err);
+      else resolve();
+    };
+    const timer = setTimeout(() => finish(new Error(`${url.pathname} did not start within 10s`)), 10_000);
+    worker.on("message", (msg) => {
+      if (msg.ready) worker.postMessage({ id: 1, jobs: [job] });
+      else if (msg.id === 1) finish(msg.modules?.[0]?.functions?.[0]?.name === "ping" ? undefined : new Error(msg.error ?? "unexpected parse result"));
+    });
+    worker.on("error", finish);
+    worker.on("exit", (code) => finish(new Error(`${url.pathname} exited with code ${code}`)));
+  });
+}
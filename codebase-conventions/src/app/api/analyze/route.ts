@@ -1,16 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import type { UploadedFile, KnowledgeGraph } from "@/lib/types";
-import parsePythonFiles from "@/lib/python-parser";
+import { collectDiagnostics } from "@/lib/python-parser";
+import parsePythonFilesInWorkers, { workerParsingAvailable } from "@/lib/parse-workers";
 import buildKnowledgeGraphFromParsedModules from "@/lib/graph-builder";
+import { createLruCache, jsonSize } from "@/lib/lru-cache";
 
-// Edge runtime for fast cold starts
-export const runtime = "edge";
+// Node runtime: large uploads are parsed on a worker thread pool
+export const runtime = "nodejs";
 
 const MAX_FILES = 200;
 const MAX_TOTAL_CHARS = 2_000_000; // ~2MB total payload guardrail
+// Limits for uploads parsed on the worker pool, once it has started
+const MAX_FILES_PARALLEL = 1_000;
+const MAX_TOTAL_CHARS_PARALLEL = 10_000_000;
 const DEFAULT_TIMEOUT_MS = 15_000;
 
+// Last graph built for each client-supplied projectId, so re-analyzing an edited upload only relinks the
+// affected modules. Kept for a few recent projects, within a memory budget and for a limited time.
+// Parsed modules are cached by python-parser's default in-memory store.
+const previousGraphs = createLruCache<KnowledgeGraph>({
+  maxEntries: 8,
+  maxBytes: 64 * 1024 * 1024,
+  ttlMs: 30 * 60_000,
+  sizeOf: jsonSize,
+});
+
 // Accept either { name, content } or { filename, content }
 const fileSchemaPrimary = z.object({
   name: z.string().min(1),
@@ -36,21 +51,26 @@ const bodySchema = z.object({
   options: z
     .object({
       includeDocstrings: z.boolean().optional(),
+      includeComments: z.boolean().optional(),
     })
     .optional(),
   timeoutMs: z.number().int().positive().max(120_000).optional(),
+  // Identifies one client's project across requests; without it every request builds from scratch
+  projectId: z.string().min(1).max(200).optional(),
 }).refine((b) => (b.files && b.files.length > 0) || (b.codeSnippets && b.codeSnippets.length > 0), {
   message: "Provide either non-empty 'files' or 'codeSnippets'",
   path: ["files"],
 });
 
-function enforceLimits(files: UploadedFile[]) {
-  if (files.length > MAX_FILES) {
-    throw Object.assign(new Error(`Too many files. Max ${MAX_FILES}.`), { status: 413 });
+function enforceLimits(files: UploadedFile[], parallel: boolean) {
+  const maxFiles = parallel ? MAX_FILES_PARALLEL : MAX_FILES;
+  const maxTotalChars = parallel ? MAX_TOTAL_CHARS_PARALLEL : MAX_TOTAL_CHARS;
+  if (files.length > maxFiles) {
+    throw Object.assign(new Error(`Too many files. Max ${maxFiles}.`), { status: 413 });
   }
   const totalChars = files.reduce((acc, f) => acc + (f.content?.length ?? 0), 0);
-  if (totalChars > MAX_TOTAL_CHARS) {
-    throw Object.assign(new Error(`Payload too large. Total characters exceed ${MAX_TOTAL_CHARS}.`), { status: 413 });
+  if (totalChars > maxTotalChars) {
+    throw Object.assign(new Error(`Payload too large. Total characters exceed ${maxTotalChars}.`), { status: 413 });
   }
 }
 
@@ -78,7 +98,7 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const { files, codeSnippets, options, timeoutMs } = parsed.data;
+    const { files, codeSnippets, options, timeoutMs, projectId } = parsed.data;
 
     // Normalize inputs to UploadedFile[]
     const normalizedFiles: UploadedFile[] = [];
@@ -100,21 +120,27 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "No valid files or snippets provided" }, { status: 400 });
     }
 
-    enforceLimits(normalizedFiles);
+    // Large uploads start the pool in the background; its limits apply once the workers have loaded
+    enforceLimits(normalizedFiles, workerParsingAvailable(normalizedFiles.length));
 
     const ms = timeoutMs ?? DEFAULT_TIMEOUT_MS;
 
-    const graph: KnowledgeGraph = await withTimeout(
+    const { graph, diagnostics } = await withTimeout(
       (async () => {
-        const parsedModules = await parsePythonFiles(normalizedFiles, {
+        // Falls back to the calling thread for small uploads or a single CPU
+        const parsedModules = await parsePythonFilesInWorkers(normalizedFiles, {
           includeDocstrings: options?.includeDocstrings ?? true,
+          includeComments: options?.includeComments ?? false,
         });
-        return buildKnowledgeGraphFromParsedModules(parsedModules);
+        const previous = projectId === undefined ? undefined : previousGraphs.get(projectId);
+        const graph: KnowledgeGraph = buildKnowledgeGraphFromParsedModules(parsedModules, { previous });
+        if (projectId !== undefined) previousGraphs.set(projectId, graph);
+        return { graph, diagnostics: collectDiagnostics(parsedModules) };
       })(),
       ms
     );
 
-    return NextResponse.json({ graph }, { status: 200 });
+    return NextResponse.json({ graph, diagnostics }, { status: 200 });
   } catch (err) {
     const e = err as Error & { status?: number };
     const status = e.status ?? 500;
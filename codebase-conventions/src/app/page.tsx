@@ -20,13 +20,15 @@ import {
 import CodeUploader from "../components/CodeUploader";
 import KnowledgeGraph from "../components/KnowledgeGraph";
 import ConventionsViewer from "../components/ConventionsViewer";
-import type { UploadedFile, KnowledgeGraph as TKnowledgeGraph } from "../lib/types";
+import ParseDiagnostics from "../components/ParseDiagnostics";
+import type { UploadedFile, KnowledgeGraph as TKnowledgeGraph, ParseDiagnostic } from "../lib/types";
 
 type Stage = "idle" | "building" | "analyzing" | "done";
 
 export default function Home() {
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [graph, setGraph] = useState<TKnowledgeGraph | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
   const [markdown, setMarkdown] = useState<string>("");
   const [stage, setStage] = useState<Stage>("idle");
   const [activeTab, setActiveTab] = useState<"graph" | "conventions">("graph");
@@ -34,16 +36,11 @@ export default function Home() {
   const [selectedFileNames, setSelectedFileNames] = useState<string[]>([]);
 
   const graphRef = useRef<HTMLDivElement | null>(null);
+  // Lets the server reuse this page's previous graph when the upload is re-analyzed
+  const projectIdRef = useRef(`${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`);
   const convRef = useRef<HTMLDivElement | null>(null);
 
   const canAnalyze = useMemo(() => files.length > 0, [files.length]);
-  const availableModules = useMemo(() => {
-    // Approximate modules from filenames (without .py)
-    return Array.from(new Set(files.map((f) => {
-      const n = f.name;
-      return n.endsWith(".py") ? n.slice(0, -3) : n;
-    })));
-  }, [files]);
 
   const handleUploaderError = useCallback((m: string) => {
     setSnackbar({ open: true, message: m, severity: "error" });
@@ -51,19 +48,20 @@ export default function Home() {
 
   async function runAnalysis() {
     if (!canAnalyze) {
-      setSnackbar({ open: true, message: "Please add at least one .py file or snippet", severity: "warning" });
+      setSnackbar({ open: true, message: "Please add at least one Python file, notebook or snippet", severity: "warning" });
       return;
     }
     try {
       setStage("building");
       setGraph(null);
+      setDiagnostics([]);
       setMarkdown("");
       setActiveTab("graph");
 
       const res1 = await fetch("/api/analyze", {
         method: "POST",
         headers: { "content-type": "application/json" },
-        body: JSON.stringify({ files, options: { includeDocstrings: true }, timeoutMs: 20000 }),
+        body: JSON.stringify({ files, options: { includeDocstrings: true }, timeoutMs: 20000, projectId: projectIdRef.current }),
       });
       if (!res1.ok) {
         const err = await safeReadError(res1);
@@ -71,7 +69,9 @@ export default function Home() {
       }
       const j1 = await res1.json();
       const g: TKnowledgeGraph = j1.graph;
+      const parseDiagnostics: ParseDiagnostic[] = j1.diagnostics ?? [];
       setGraph(g);
+      setDiagnostics(parseDiagnostics);
       setStage("analyzing");
 
       const codeSnippets = files.slice(0, 3).map((f) => f.content);
@@ -88,7 +88,12 @@ export default function Home() {
       setMarkdown(String(j2.markdown || ""));
       setStage("done");
       setActiveTab("conventions");
-      setSnackbar({ open: true, message: "Analysis complete", severity: "success" });
+      const parseErrors = parseDiagnostics.filter((d) => d.severity === "error").length;
+      setSnackbar(
+        parseErrors > 0
+          ? { open: true, message: `Analysis complete with ${parseErrors} syntax error(s); see the graph view`, severity: "warning" }
+          : { open: true, message: "Analysis complete", severity: "success" }
+      );
       // best-effort focus
       setTimeout(() => convRef.current?.scrollIntoView({ behavior: "smooth", block: "start" }), 50);
     } catch (e) {
@@ -101,6 +106,7 @@ export default function Home() {
   function resetAll() {
     setFiles([]);
     setGraph(null);
+    setDiagnostics([]);
     setMarkdown("");
     setStage("idle");
     setActiveTab("graph");
@@ -214,6 +220,7 @@ export default function Home() {
                 <Stack spacing={1}>
                   <Typography variant="subtitle1">Knowledge Graph</Typography>
                   <Divider />
+                  <ParseDiagnostics diagnostics={diagnostics} />
                   <Box sx={{ position: "relative", minHeight: 360 }}>
                     {stage === "building" && (
                       <Stack alignItems="center" justifyContent="center" sx={{ position: "absolute", inset: 0 }} spacing={1}>
@@ -227,8 +234,7 @@ export default function Home() {
                       <KnowledgeGraph
                         graph={graph}
                         height={420}
-                        filterModules={selectedFileNames.length ? availableModules.filter((m) => selectedFileNames.some((n) => n.startsWith(m))) : undefined}
-                        filterFilePaths={selectedFileNames.length ? files.filter((f) => selectedFileNames.includes(f.name)).map((f) => f.name) : undefined}
+                        filterFilePaths={selectedFileNames.length ? files.filter((f) => selectedFileNames.includes(f.name)).map((f) => f.path ?? f.name) : undefined}
                       />
                     ) : (
                       <Stack alignItems="center" justifyContent="center" sx={{ height: 360 }}>
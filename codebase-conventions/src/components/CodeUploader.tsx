@@ -20,16 +20,17 @@ import CloudUploadIcon from "@mui/icons-material/CloudUpload";
 import AddIcon from "@mui/icons-material/Add";
 import DeleteIcon from "@mui/icons-material/Delete";
 import { UploadedFile } from "../lib/types";
+import { stripNotebookOutputs } from "../lib/notebook";
 
 export interface CodeUploaderProps {
   onChange?: (files: UploadedFile[]) => void;
   onError?: (message: string) => void;
   maxFileSizeBytes?: number; // default 5MB
-  acceptExtensions?: string[]; // default [".py"]
+  acceptExtensions?: string[]; // default [".py", ".pyi", ".ipynb"]
 }
 
 const DEFAULT_MAX_SIZE = 5 * 1024 * 1024;
-const DEFAULT_EXTS = [".py"];
+const DEFAULT_EXTS = [".py", ".pyi", ".ipynb"];
 
 const fileSchema = (maxSize: number, allowedExts: string[]) =>
   z.object({
@@ -70,6 +71,8 @@ export function CodeUploader({
     "text/x-python": acceptExtensions,
     "application/x-python-code": acceptExtensions,
     "text/plain": acceptExtensions,
+    "application/x-ipynb+json": acceptExtensions,
+    "application/json": acceptExtensions,
   }), [acceptExtensions]);
 
   const notifyError = useCallback((message: string) => {
@@ -115,7 +118,11 @@ export function CodeUploader({
           notifyError(`${file.name}: ${message}`);
           continue;
         }
-        parsed.push({ name: file.name, content: text });
+        // Folder drops carry the relative path (react-dropzone FileWithPath); keep it for package-aware module names
+        const path = (file as File & { path?: string }).path;
+        // Notebook outputs (images, tables) are not analyzed; drop them to keep the request small
+        const content = file.name.toLowerCase().endsWith(".ipynb") ? stripNotebookOutputs(text) : text;
+        parsed.push({ name: file.name, content, path: path && path !== file.name ? path : undefined });
       } catch {
         notifyError(`${file.name}: Failed to read file`);
       }
@@ -137,7 +144,7 @@ export function CodeUploader({
           counter += 1;
         }
         existingNames.add(candidate);
-        merged.push({ name: candidate, content: p.content });
+        merged.push({ name: candidate, content: p.content, path: p.path });
       }
       emitChange(merged);
       notifyInfo(`${parsed.length} file(s) added`);
@@ -221,7 +228,7 @@ export function CodeUploader({
             <input {...getInputProps()} />
             <Stack spacing={0.5}>
               <Typography variant="subtitle1">
-                {isDragActive ? "Drop .py files here" : "Drag and drop .py files here"}
+                {isDragActive ? "Drop Python files here" : "Drag and drop .py, .pyi or .ipynb files here"}
               </Typography>
               <Typography variant="body2" color="text.secondary">
                 Max size {Math.floor(maxFileSizeBytes / (1024 * 1024))}MB • Accepted: {acceptExtensions.join(", ")}
@@ -4,7 +4,7 @@ import React, { useCallback, useMemo, useState } from "react";
 import { Box, Stack, Typography, Divider, FormGroup, FormControlLabel, Checkbox, Drawer, Chip } from "@mui/material";
 import ReactFlow, { Background, BackgroundVariant, Controls, MarkerType, Node as RFNode, Edge as RFEdge } from "reactflow";
 import "reactflow/dist/style.css";
-import type { KnowledgeGraph as TKnowledgeGraph, CodeNode as TCodeNode } from "@/lib/types";
+import type { KnowledgeGraph as TKnowledgeGraph, CodeNode as TCodeNode, ParsedParameter, ParsedCommentMarker, ParsedExportList, ParsedCellLocation, ParsedNotebookCell, ParsedParametrize, ParsedTypeCoverage, ParsedAsyncDetails, ParsedGenerator } from "@/lib/types";
 
 export interface KnowledgeGraphProps {
   graph?: TKnowledgeGraph;
@@ -14,13 +14,35 @@ export interface KnowledgeGraphProps {
   filterFilePaths?: string[];
 }
 
-type EdgeFilterKey = "imports" | "calls" | "inherits" | "uses" | "defines";
+type EdgeFilterKey = "imports" | "calls" | "inherits" | "uses" | "defines" | "contains" | "raises" | "catches" | "exports" | "handles" | "tests";
+
+const EDGE_FILTER_KEYS: EdgeFilterKey[] = ["imports", "calls", "inherits", "uses", "defines", "contains", "raises", "catches", "exports", "handles", "tests"];
 
 const NODE_COLORS: Record<string, { bg: string; border: string }> = {
   function: { bg: "#E3F2FD", border: "#1976d2" }, // blue
   class: { bg: "#E8F5E9", border: "#2e7d32" }, // green
   module: { bg: "#F3E5F5", border: "#6a1b9a" }, // purple
   variable: { bg: "#FFF3E0", border: "#ed6c02" }, // orange
+  attribute: { bg: "#FFF8E1", border: "#f9a825" }, // amber
+  package: { bg: "#EDE7F6", border: "#4527a0" }, // deep purple
+  route: { bg: "#E0F7FA", border: "#00838f" }, // cyan
+  view: { bg: "#E0F2F1", border: "#00695c" }, // teal
+  task: { bg: "#FCE4EC", border: "#ad1457" }, // pink
+  "cli-command": { bg: "#F1F8E9", border: "#558b2f" }, // light green
+  fixture: { bg: "#EFEBE9", border: "#4e342e" }, // brown
+};
+
+// Classes are shaded by kind; plain classes keep the class colors
+const CLASS_KIND_COLORS: Record<string, { bg: string; border: string }> = {
+  dataclass: { bg: "#C8E6C9", border: "#1b5e20" },
+  attrs: { bg: "#DCEDC8", border: "#33691e" },
+  pydantic: { bg: "#B2DFDB", border: "#004d40" },
+  namedtuple: { bg: "#F0F4C3", border: "#827717" },
+  typeddict: { bg: "#FFF9C4", border: "#9e9d24" },
+  enum: { bg: "#D1C4E9", border: "#311b92" },
+  protocol: { bg: "#FFFFFF", border: "#2e7d32" },
+  abc: { bg: "#F1F8E9", border: "#2e7d32" },
+  exception: { bg: "#FFCDD2", border: "#b71c1c" },
 };
 
 const EDGE_COLORS: Record<EdgeFilterKey, string> = {
@@ -29,6 +51,12 @@ const EDGE_COLORS: Record<EdgeFilterKey, string> = {
   inherits: "#9c27b0",
   uses: "#00897b",
   defines: "#ffb300",
+  contains: "#8d6e63",
+  raises: "#d32f2f",
+  catches: "#f57c00",
+  exports: "#43a047",
+  handles: "#00838f",
+  tests: "#7cb342",
 };
 
 export function KnowledgeGraph({ graph, height = "60vh", filterModules, filterFilePaths }: KnowledgeGraphProps) {
@@ -38,6 +66,12 @@ export function KnowledgeGraph({ graph, height = "60vh", filterModules, filterFi
     inherits: true,
     uses: true,
     defines: true,
+    contains: true,
+    raises: true,
+    catches: true,
+    exports: true,
+    handles: true,
+    tests: true,
   });
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
 
@@ -95,6 +129,7 @@ export function KnowledgeGraph({ graph, height = "60vh", filterModules, filterFi
 
     function moduleKeyOf(node: TCodeNode): string {
       if (isExternal(node)) return "__external__";
+      if (node.type === "package") return "__packages__";
       if (node.type === "module") return String(node.label);
       const md = (node.metadata || {}) as Record<string, unknown>;
       const moduleName = (md.module as string) || (md.moduleName as string);
@@ -115,7 +150,7 @@ export function KnowledgeGraph({ graph, height = "60vh", filterModules, filterFi
     // Ensure we include nodes even if no explicit module node exists
     for (const n of displayNodes) {
       const key = moduleKeyOf(n);
-      if (key !== "__external__" && key !== "__unknown__" && !seen.has(key)) {
+      if (key !== "__external__" && key !== "__unknown__" && key !== "__packages__" && !seen.has(key)) {
         seen.add(key);
         modules.push(key);
       }
@@ -123,10 +158,11 @@ export function KnowledgeGraph({ graph, height = "60vh", filterModules, filterFi
 
     const groups: Record<string, { [layer: number]: TCodeNode[] }> = {};
     function layerOf(node: TCodeNode): number {
+      if (node.type === "package") return String(node.label).split(".").length - 1;
       if (node.type === "module") return 0;
       if (node.type === "class") return 1;
       if (node.type === "function") return 2;
-      if (node.type === "variable") return 3;
+      if (node.type === "variable" || node.type === "attribute") return 3;
       return 4;
     }
     for (const n of displayNodes) {
@@ -138,7 +174,8 @@ export function KnowledgeGraph({ graph, height = "60vh", filterModules, filterFi
       groups[groupKey][layer].push(n);
     }
 
-    const order: string[] = [...modules];
+    // Package hierarchy first (one row per nesting level), then modules, then externals
+    const order: string[] = groups["__packages__"] ? ["__packages__", ...modules] : [...modules];
     if (groups["__external__"]) order.push("__external__");
 
     // Compute positions
@@ -168,7 +205,8 @@ export function KnowledgeGraph({ graph, height = "60vh", filterModules, filterFi
     // Map nodes
     const rfNodesLocal: RFNode[] = displayNodes.map((n) => {
       const pos = positions.get(n.id) || { x: 0, y: 0 };
-      const palette = NODE_COLORS[n.type] || { bg: "#ECEFF1", border: "#546e7a" };
+      const classKind = n.type === "class" ? CLASS_KIND_COLORS[String(n.metadata?.classKind)] : undefined;
+      const palette = classKind || NODE_COLORS[n.type] || { bg: "#ECEFF1", border: "#546e7a" };
       const external = isExternal(n);
       return {
         id: n.id,
@@ -189,35 +227,33 @@ export function KnowledgeGraph({ graph, height = "60vh", filterModules, filterFi
     });
 
     // Map edges with filters and colors
-<<<<<<< HEAD
-    const rfEdgesLocal: RFEdge[] = displayEdges
-      .filter((e) => (filters as any)[e.relation as EdgeFilterKey] !== false)
-=======
     function isEdgeFilterKey(rel: string): rel is EdgeFilterKey {
-      return rel === "imports" || rel === "calls" || rel === "inherits" || rel === "uses" || rel === "defines";
+      return (EDGE_FILTER_KEYS as string[]).includes(rel);
     }
 
-    const rfEdgesLocal: RFEdge[] = graph.edges
+    const rfEdgesLocal: RFEdge[] = displayEdges
       .filter((e) => {
         const rel = e.relation;
         return isEdgeFilterKey(rel) ? filters[rel] !== false : true;
       })
->>>>>>> 15b7003 (fixed build errs)
       .map((e) => {
         const rel = isEdgeFilterKey(e.relation) ? e.relation : "uses";
         const color = EDGE_COLORS[rel] || "#78909c";
+        // Imports that never run at module import time (type-only, lazy, optional) are dashed
+        const deferredImport = rel === "imports" ? importEdgeUsage(e.metadata) : undefined;
         return {
           id: e.id,
           source: e.source,
           target: e.target,
           animated: rel === "calls",
-          style: { stroke: color, strokeWidth: 1.5 },
+          label: deferredImport,
+          style: { stroke: color, strokeWidth: 1.5, strokeDasharray: deferredImport ? "4 3" : undefined },
           markerEnd: { type: MarkerType.ArrowClosed, color },
         } satisfies RFEdge;
       });
 
     return { nodes: rfNodesLocal, edges: rfEdgesLocal };
-  }, [graph, filters]);
+  }, [graph, filters, filterModules, filterFilePaths]);
 
   const onNodeClick = useCallback((_: React.MouseEvent, node: RFNode) => {
     setSelectedNodeId(node.id);
@@ -228,7 +264,7 @@ export function KnowledgeGraph({ graph, height = "60vh", filterModules, filterFi
       <Stack direction="row" spacing={2} alignItems="center">
         <Typography variant="subtitle2">Edges:</Typography>
         <FormGroup row>
-          {(["imports", "calls", "inherits", "uses", "defines"] as EdgeFilterKey[]).map((k) => (
+          {EDGE_FILTER_KEYS.map((k) => (
             <FormControlLabel
               key={k}
               control={<Checkbox size="small" checked={filters[k]} onChange={() => handleToggleFilter(k)} />}
@@ -270,13 +306,70 @@ export function KnowledgeGraph({ graph, height = "60vh", filterModules, filterFi
                   else rows.push([label, String(val)]);
                 };
                 pushIf("Module", (md.module as string) || (md.moduleName as string));
+                pushIf("Package", md.packageName);
+                const cell = md.cellLocation as ParsedCellLocation | undefined;
+                if (cell) pushIf("Cell", `[${cell.cell}] line ${cell.line}`);
+                const cells = md.notebookCells as ParsedNotebookCell[] | undefined;
+                if (cells) pushIf("Code cells", cells.length);
+                if (md.stubPath || md.isStub || md.hasStub) {
+                  pushIf("Stub", md.stubPath ?? (md.isStub ? "stub only (no implementation uploaded)" : "declared in the .pyi stub"));
+                }
                 pushIf("Class", md.class);
+                pushIf("Defined in", md.parent);
                 pushIf("Return", md.returnHint);
-                pushIf("Parameters", md.parameters);
+                const coverage = md.typeCoverage as ParsedTypeCoverage | undefined;
+                if (coverage) {
+                  pushIf(
+                    "Annotated",
+                    `${coverage.annotatedParams}/${coverage.annotatableParams} parameters${coverage.returnAnnotated ? ", return" : ""}`
+                  );
+                }
+                pushIf("Type", md.annotation);
+                pushIf("Value", md.valueSnippet);
+                pushIf("Scope", md.kind);
+                pushIf("Set in", md.definedIn);
+                pushIf("Framework", md.framework);
+                pushIf("Methods", md.methods);
+                pushIf("Registered on", md.registrar);
+                pushIf("Handler", md.handler);
+                if (md.isGroup) pushIf("Group", md.isGroup);
+                pushIf("Test framework", md.testFramework);
+                pushIf("Test role", md.testRole ?? (md.isTestClass ? "test class" : undefined));
+                const parametrize = md.parametrize as ParsedParametrize[] | undefined;
+                if (parametrize) {
+                  pushIf("Parametrize", parametrize.map((p) => `${p.argnames.join(", ")}${p.cases !== undefined ? ` (${p.cases} cases)` : ""}`));
+                }
+                const epOptions = md.options as Record<string, string> | undefined;
+                if (epOptions) pushIf("Options", Object.entries(epOptions).map(([k, v]) => `${k}=${v}`));
+                pushIf("Parameters", (md.parameters as ParsedParameter[] | undefined)?.map(formatParameter));
                 pushIf("Decorators", md.decorators);
                 pushIf("Bases", md.baseClasses);
+                if (md.classKind) pushIf("Kind", md.inheritedKind ? `${md.classKind} (from a base class)` : md.classKind);
+                pushIf("Metaclass", md.metaclass);
                 pushIf("Private", md.isPrivate);
+                pushIf("Visibility", md.visibility);
+                pushIf("Exported by", md.exportedBy);
+                pushIf("__all__", (md.exportList as ParsedExportList | undefined)?.names);
+                pushIf("Leaks", md.leakedPrivates);
                 pushIf("Async", md.isAsync);
+                const asyncDetails = md.asyncDetails as ParsedAsyncDetails | undefined;
+                if (asyncDetails) {
+                  const usage = [
+                    `${asyncDetails.awaitLines.length} await`,
+                    asyncDetails.asyncWith > 0 ? `${asyncDetails.asyncWith} async with` : "",
+                    asyncDetails.asyncFor > 0 ? `${asyncDetails.asyncFor} async for` : "",
+                    asyncDetails.gathers > 0 ? `${asyncDetails.gathers} gather` : "",
+                    asyncDetails.taskGroups > 0 ? `${asyncDetails.taskGroups} task group` : "",
+                    asyncDetails.spawnedTasks > 0 ? `${asyncDetails.spawnedTasks} spawned task` : "",
+                  ];
+                  pushIf("Async usage", usage.filter(Boolean));
+                }
+                const generator = md.generator as ParsedGenerator | undefined;
+                if (generator) pushIf("Generator", `${generator.yields} yield, ${generator.yieldFroms} yield from`);
+                pushIf("Method kind", md.methodKind);
+                pushIf("Context manager", md.contextManager);
+                const markers = (md.markers as ParsedCommentMarker[] | undefined) ?? [];
+                if (markers.length > 0) pushIf("Markers", markers.map((m) => `${m.kind} (line ${m.line})`));
                 const doc = md.docstring as string | undefined;
                 const code = (md.code as string | undefined) || (md.codeExcerpt as string | undefined);
                 return (
@@ -328,3 +421,22 @@ export function KnowledgeGraph({ graph, height = "60vh", filterModules, filterFi
 
 export default KnowledgeGraph;
 
+// Render a parameter as written in a signature, e.g. "*args: int" or "limit: int = 10"
+function formatParameter(param: ParsedParameter): string {
+  const prefix = param.kind === "var-positional" ? "*" : param.kind === "var-keyword" ? "**" : "";
+  let text = prefix + param.name;
+  if (param.annotation) text += ": " + param.annotation;
+  if (param.default !== undefined) text += param.annotation ? " = " + param.default : "=" + param.default;
+  return text;
+}
+
+// Label for an imports edge without runtime imports ("type-only", "lazy", "optional"); undefined otherwise
+function importEdgeUsage(metadata: Record<string, unknown> | undefined): string | undefined {
+  if (!metadata || metadata["runtime"]) return undefined;
+  const usages = [
+    metadata["typeOnly"] ? "type-only" : "",
+    metadata["lazy"] ? "lazy" : "",
+    metadata["optional"] ? "optional" : "",
+  ].filter(Boolean);
+  return usages.length > 0 ? usages.join(", ") : undefined;
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import React, { useState } from "react";
+import { Alert, AlertTitle, Box, Button, Typography } from "@mui/material";
+import type { ParseDiagnostic } from "@/lib/types";
+
+export interface ParseDiagnosticsProps {
+  diagnostics: ParseDiagnostic[];
+  maxCollapsed?: number;
+}
+
+export function ParseDiagnostics({ diagnostics, maxCollapsed = 5 }: ParseDiagnosticsProps) {
+  const [expanded, setExpanded] = useState(false);
+  if (diagnostics.length === 0) return null;
+
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  const warnings = diagnostics.length - errors;
+  const shown = expanded ? diagnostics : diagnostics.slice(0, maxCollapsed);
+  const counts = [errors > 0 ? `${errors} syntax error(s)` : "", warnings > 0 ? `${warnings} warning(s)` : ""].filter(Boolean);
+
+  return (
+    <Alert severity={errors > 0 ? "error" : "warning"} variant="outlined">
+      <AlertTitle>{counts.join(", ")}: the graph may be incomplete</AlertTitle>
+      <Box component="ul" sx={{ m: 0, pl: 2 }}>
+        {shown.map((d, i) => (
+          <li key={`${d.file}:${d.line}:${d.column}:${i}`}>
+            <Typography variant="body2" component="span" sx={{ fontFamily: "monospace" }}>
+              {d.file}
+              {d.cell !== undefined ? ` cell ${d.cell}` : ""}:{d.line}:{d.column}
+            </Typography>{" "}
+            <Typography variant="body2" component="span">
+              {d.message}
+            </Typography>
+          </li>
+        ))}
+      </Box>
+      {diagnostics.length > maxCollapsed && (
+        <Button size="small" onClick={() => setExpanded((v) => !v)} sx={{ mt: 0.5 }}>
+          {expanded ? "Show fewer" : `Show all ${diagnostics.length}`}
+        </Button>
+      )}
+    </Alert>
+  );
+}
+
+export default ParseDiagnostics;
@@ -0,0 +1,216 @@
+import type { DocstringStyle, ParsedDocstring, ParsedDocstringEntry } from "@/lib/types";
+
+/**
+ * Docstring parser for the three common conventions:
+ * - Google: `Args:` / `Returns:` / `Raises:` headers with indented `name (type): description` entries.
+ * - NumPy: section titles underlined with dashes and `name : type` entries.
+ * - reST (Sphinx): `:param type name:`, `:type name:`, `:returns:`, `:rtype:` and `:raises Exc:` fields.
+ * Expects a cleaned docstring (common indentation removed); anything else is "plain".
+ */
+export function parseDocstring(docstring: string): ParsedDocstring {
+  const lines = docstring.replace(/\r\n?/g, "\n").split("\n");
+  const style = detectDocstringStyle(lines);
+  const parsed: ParsedDocstring = { style, summary: "", params: [], raises: [] };
+
+  const firstSection =
+    style === "numpy" ? lines.findIndex((l, i) => isNumpyHeader(lines, i)) :
+    style === "google" ? lines.findIndex((l) => GOOGLE_HEADER_RE.test(l)) :
+    style === "rest" ? lines.findIndex((l) => REST_FIELD_RE.test(l)) :
+    -1;
+  const prose = firstSection < 0 ? lines : lines.slice(0, firstSection);
+  const blank = prose.findIndex((l) => l.trim() === "");
+  const summaryLines = blank < 0 ? prose : prose.slice(0, blank);
+  parsed.summary = summaryLines.map((l) => l.trim()).join(" ").trim();
+  const description = blank < 0 ? "" : prose.slice(blank + 1).join("\n").trim();
+  if (description) parsed.description = description;
+  if (firstSection < 0) return parsed;
+
+  const rest = lines.slice(firstSection);
+  if (style === "google") parseGoogleSections(rest, parsed);
+  else if (style === "numpy") parseNumpySections(rest, parsed);
+  else parseRestFields(rest, parsed);
+  return parsed;
+}
+
+export default parseDocstring;
+
+const GOOGLE_SECTIONS: Record<string, "params" | "returns" | "raises" | "other"> = {
+  args: "params",
+  arguments: "params",
+  parameters: "params",
+  params: "params",
+  "keyword args": "params",
+  "keyword arguments": "params",
+  kwargs: "params",
+  returns: "returns",
+  return: "returns",
+  yields: "returns",
+  yield: "returns",
+  raises: "raises",
+  exceptions: "raises",
+};
+
+const GOOGLE_HEADER_RE =
+  /^\s*(Args|Arguments|Parameters|Params|Keyword Args|Keyword Arguments|Kwargs|Returns?|Yields?|Raises|Exceptions|Attributes|Examples?|Notes?|Warnings?|Todo|See Also|References):\s*$/;
+
+const NUMPY_SECTIONS: Record<string, "params" | "returns" | "raises" | "other"> = {
+  parameters: "params",
+  "other parameters": "params",
+  returns: "returns",
+  yields: "returns",
+  raises: "raises",
+};
+
+const REST_FIELD_RE = /^\s*:(param|parameter|arg|argument|key|keyword|type|returns?|rtype|raises?|except|exception)\b[^:]*:/;
+
+function detectDocstringStyle(lines: string[]): DocstringStyle {
+  if (lines.some((_, i) => isNumpyHeader(lines, i))) return "numpy";
+  if (lines.some((l) => REST_FIELD_RE.test(l))) return "rest";
+  if (lines.some((l) => GOOGLE_HEADER_RE.test(l))) return "google";
+  return "plain";
+}
+
+// A section title followed by a dashed underline of at least three characters
+function isNumpyHeader(lines: string[], i: number): boolean {
+  const title = lines[i]?.trim();
+  const underline = lines[i + 1]?.trim();
+  return Boolean(title && underline && /^[A-Za-z][A-Za-z ]*$/.test(title) && /^-{3,}$/.test(underline));
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// Group a section body into entries: a line at the entry indentation starts one, deeper lines continue it
+function splitEntries(body: string[]): { head: string; description: string[] }[] {
+  const nonBlank = body.filter((l) => l.trim() !== "");
+  if (nonBlank.length === 0) return [];
+  const entryIndent = Math.min(...nonBlank.map(indentOf));
+  const entries: { head: string; description: string[] }[] = [];
+  for (const line of body) {
+    if (line.trim() === "") continue;
+    if (indentOf(line) <= entryIndent || entries.length === 0) entries.push({ head: line.trim(), description: [] });
+    else entries[entries.length - 1].description.push(line.trim());
+  }
+  return entries;
+}
+
+function parseGoogleSections(lines: string[], parsed: ParsedDocstring) {
+  let i = 0;
+  while (i < lines.length) {
+    const header = GOOGLE_HEADER_RE.exec(lines[i]);
+    if (!header) {
+      i++;
+      continue;
+    }
+    const headerIndent = indentOf(lines[i]);
+    const body: string[] = [];
+    i++;
+    while (i < lines.length && (lines[i].trim() === "" || indentOf(lines[i]) > headerIndent)) body.push(lines[i++]);
+
+    const kind = GOOGLE_SECTIONS[header[1].toLowerCase()] ?? "other";
+    const entries = splitEntries(body);
+    if (kind === "params" || kind === "raises") {
+      for (const e of entries) {
+        // `name (type): description` or `name: description`
+        const m = /^(\*{0,2}[\w.]+)\s*(?:\(([^)]*)\))?\s*:\s*(.*)$/.exec(e.head);
+        const entry: ParsedDocstringEntry = m
+          ? { name: m[1], type: m[2]?.trim() || undefined, description: [m[3], ...e.description].join(" ").trim() }
+          : { name: e.head.replace(/:$/, ""), description: e.description.join(" ") };
+        (kind === "params" ? parsed.params : parsed.raises).push(entry);
+      }
+    } else if (kind === "returns" && entries.length > 0) {
+      const text = body.map((l) => l.trim()).filter(Boolean).join(" ");
+      const m = /^([^:]+?):\s+(.*)$/.exec(text);
+      parsed.returns = m ? { type: m[1].trim(), description: m[2].trim() } : { description: text };
+    }
+  }
+}
+
+function parseNumpySections(lines: string[], parsed: ParsedDocstring) {
+  let i = 0;
+  while (i < lines.length) {
+    if (!isNumpyHeader(lines, i)) {
+      i++;
+      continue;
+    }
+    const kind = NUMPY_SECTIONS[lines[i].trim().toLowerCase()] ?? "other";
+    const body: string[] = [];
+    i += 2;
+    while (i < lines.length && !isNumpyHeader(lines, i)) body.push(lines[i++]);
+
+    const entries = splitEntries(body);
+    if (kind === "params" || kind === "raises") {
+      for (const e of entries) {
+        // `name : type` (parameters may share a line: `x, y : int`)
+        const [names, type] = e.head.split(/\s+:\s*|\s*:\s+/, 2);
+        const description = e.description.join(" ");
+        if (kind === "raises") {
+          parsed.raises.push({ name: e.head, description });
+          continue;
+        }
+        for (const name of names.split(",").map((n) => n.trim()).filter(Boolean)) {
+          parsed.params.push({ name, type: type?.trim() || undefined, description });
+        }
+      }
+    } else if (kind === "returns" && entries.length > 0) {
+      const [first] = entries;
+      const named = /^(\w+)\s+:\s*(.+)$/.exec(first.head);
+      parsed.returns = { type: named ? named[2].trim() : first.head, description: first.description.join(" ") };
+    }
+  }
+}
+
+function parseRestFields(lines: string[], parsed: ParsedDocstring) {
+  const fields: { head: string; description: string[] }[] = [];
+  for (const line of lines) {
+    if (REST_FIELD_RE.test(line)) fields.push({ head: line.trim(), description: [] });
+    else if (fields.length > 0 && line.trim() !== "") fields[fields.length - 1].description.push(line.trim());
+  }
+
+  const types = new Map<string, string>();
+  let returnType: string | undefined;
+  let returnDescription: string | undefined;
+  for (const f of fields) {
+    const m = /^:(\w+)\s*([^:]*):\s*(.*)$/.exec(f.head);
+    if (!m) continue;
+    const [, field, arg, text] = m;
+    const description = [text, ...f.description].join(" ").trim();
+    const args = arg.trim().split(/\s+/).filter(Boolean);
+    switch (field) {
+      case "param":
+      case "parameter":
+      case "arg":
+      case "argument":
+      case "key":
+      case "keyword": {
+        // `:param name:` or `:param type name:`
+        const name = args[args.length - 1];
+        if (name) parsed.params.push({ name, type: args.length > 1 ? args.slice(0, -1).join(" ") : undefined, description });
+        break;
+      }
+      case "type":
+        if (args[0]) types.set(args[0], description);
+        break;
+      case "return":
+      case "returns":
+        returnDescription = description;
+        break;
+      case "rtype":
+        returnType = description;
+        break;
+      case "raise":
+      case "raises":
+      case "except":
+      case "exception":
+        parsed.raises.push({ name: args.join(" "), description });
+        break;
+    }
+  }
+  for (const p of parsed.params) {
+    if (!p.type && types.has(p.name)) p.type = types.get(p.name);
+  }
+  if (returnType !== undefined || returnDescription !== undefined) {
+    parsed.returns = { type: returnType, description: returnDescription ?? "" };
+  }
+}
@@ -0,0 +1,297 @@
+/*
+  Ad-hoc dev test for buildKnowledgeGraphFromParsedModules. Run with:
+    npm run devtest:graph
+*/
+
+import { parsePythonFiles } from "./python-parser";
+import { buildKnowledgeGraphFromParsedModules, toGraphJson } from "./graph-builder";
+import { analyzeGraphWithLLM } from "./llm-analyzer";
+
+async function main() {
+  const files = [
+    {
+      name: "__init__.py",
+      path: "app/__init__.py",
+      content: "from .core import helper\n",
+    },
+    {
+      name: "core.py",
+      path: "app/core.py",
+      content: `
+def helper():
+    return 1
+
+class Service:
+    def run(self):
+        return helper()
+`,
+    },
+    {
+      name: "main.py",
+      path: "app/main.py",
+      content: `
+import app.core as core
+from app import helper as h
+from .core import Service
+import requests
+from app.core import *
+
+def go():
+    h()
+    core.helper()
+    Service.run(None)
+    requests.get("https://example.com")
+    helper()
+`,
+    },
+  ];
+
+  const parsed = await parsePythonFiles(files);
+  const graph = buildKnowledgeGraphFromParsedModules(parsed);
+  const edgeIds = new Set(graph.edges.map((e) => e.id));
+
+  const go = "app.main:function:go:8";
+  const helper = "app.core:function:helper:2";
+  assert(edgeIds.has(`${go}|calls|${helper}`), "re-exported alias should resolve to the defining module");
+  assert(edgeIds.has(`${go}|calls|app.core:function:Service.run:6`), "relative class import should resolve methods");
+  assert(edgeIds.has(`${go}|uses|external:function:requests.get:0`), "third-party calls should stay external");
+  assert(!graph.nodes.some((n) => n.id === "external:function:app.core.helper:0"), "resolved calls should not create placeholders");
+  assert(edgeIds.has("app.main:module:app.main:1|imports|app.core:module:app.core:1"), "imports should link uploaded modules");
+  assert(edgeIds.has("app:package:app:0|contains|app.main:module:app.main:1"), "packages should contain their modules");
+
+  const helperCall = graph.edges.filter((e) => e.source === go && e.target === helper);
+  assert(helperCall.length === 1 && !graph.nodes.some((n) => n.id === "external:function:helper:0"), "wildcard imports should resolve");
+
+  // Nested definitions get their own nodes and `defines` edges from their parents
+  const nested = buildKnowledgeGraphFromParsedModules(
+    await parsePythonFiles([
+      {
+        name: "deco.py",
+        content: `
+def retry(fn):
+    def wrapper():
+        return fn()
+    return wrapper
+
+class Article:
+    class Meta:
+        def label(self):
+            return "a"
+
+    def title(self):
+        def fmt():
+            return Article.Meta.label(None)
+        return fmt()
+`,
+      },
+    ])
+  );
+  const nestedEdges = new Set(nested.edges.map((e) => e.id));
+  assert(nestedEdges.has("deco:function:retry:2|defines|deco:function:retry.wrapper:3"), "nested functions should be defined by their parent");
+  assert(nestedEdges.has("deco:class:Article:7|defines|deco:class:Article.Meta:8"), "inner classes should be defined by their class");
+  assert(nestedEdges.has("deco:class:Article.Meta:8|defines|deco:function:Article.Meta.label:9"), "inner class methods should be qualified");
+  assert(nestedEdges.has("deco:function:Article.title:12|calls|deco:function:Article.title.fmt:13"), "closures should resolve locally");
+  assert(
+    nestedEdges.has("deco:function:Article.title.fmt:13|calls|deco:function:Article.Meta.label:9"),
+    "dotted paths to inner classes should resolve"
+  );
+  // An empty API key keeps the analysis offline (heuristics only)
+  const nestedConventions = await analyzeGraphWithLLM(nested, { apiKey: "" });
+  assert(nestedConventions.markdown.includes("PascalCase (100% adoption)"), "inner classes are named by their own segment");
+
+  // Attributes hang off their owner class
+  const withAttrs = buildKnowledgeGraphFromParsedModules(
+    await parsePythonFiles([{ name: "cfg.py", content: "class Cfg:\n    debug: bool = False\n\n    def __init__(self):\n        self.path = ''\n" }])
+  );
+  const attrEdges = new Set(withAttrs.edges.map((e) => e.id));
+  assert(attrEdges.has("cfg:class:Cfg:1|defines|cfg:attribute:Cfg.debug:2"), "class attributes should be defined by their class");
+  const pathAttr = withAttrs.nodes.find((n) => n.id === "cfg:attribute:Cfg.path:5");
+  assert(pathAttr?.type === "attribute" && pathAttr.metadata?.kind === "instance", "instance attributes should become attribute nodes");
+
+  // Raised and caught exception types become edges to class nodes
+  const withErrors = buildKnowledgeGraphFromParsedModules(
+    await parsePythonFiles([
+      {
+        name: "svc.py",
+        content: "class NotFound(Exception):\n    pass\n\ndef get(key):\n    try:\n        return db[key]\n    except KeyError:\n        raise NotFound(key)\n",
+      },
+    ])
+  );
+  const errorEdges = new Set(withErrors.edges.map((e) => e.id));
+  assert(errorEdges.has("svc:function:get:4|raises|svc:class:NotFound:1"), "raised uploaded exceptions should resolve");
+  assert(errorEdges.has("svc:function:get:4|catches|external:class:KeyError:0"), "caught builtins should be external classes");
+
+  // Call edges count awaited call sites
+  const asyncGraph = buildKnowledgeGraphFromParsedModules(
+    await parsePythonFiles([{ name: "aio.py", content: "async def load():\n    await fetch()\n    fetch()\n\nasync def fetch():\n    pass\n" }])
+  );
+  const awaitEdge = asyncGraph.edges.find((e) => e.id === "aio:function:load:1|calls|aio:function:fetch:5");
+  assert(awaitEdge?.metadata?.weight === 2 && awaitEdge.metadata.awaited === 1, "awaited call sites are counted per edge");
+  assert(awaitEdge.metadata.chained === undefined, "zero call style counts are omitted");
+
+  const mainNode = graph.nodes.find((n) => n.id === "app.main:module:app.main:1");
+  const counts = mainNode?.metadata?.importCounts as { absolute: number; relative: number; wildcard: number } | undefined;
+  assert(counts?.absolute === 4 && counts.relative === 1 && counts.wildcard === 1, "import styles should be counted per module");
+
+  // Import edges count type-only, lazy and optional imports separately from runtime ones
+  const cycleGraph = buildKnowledgeGraphFromParsedModules(
+    await parsePythonFiles([
+      { name: "a.py", content: "from typing import TYPE_CHECKING\nimport b\nif TYPE_CHECKING:\n    import b\n" },
+      { name: "b.py", content: "def f():\n    import a\n" },
+    ])
+  );
+  const aToB = cycleGraph.edges.find((e) => e.id === "a:module:a:1|imports|b:module:b:1");
+  assert(aToB?.metadata?.runtime === 1 && aToB.metadata.typeOnly === 1 && aToB.metadata.weight === 1, "usage counts per import edge");
+  const bToA = cycleGraph.edges.find((e) => e.id === "b:module:b:1|imports|a:module:a:1");
+  assert(bToA?.metadata?.lazy === 1 && bToA.metadata.runtime === undefined, "function-level imports are lazy");
+
+  // Public API: __all__, package re-exports, visibility and leaked private helpers
+  const apiGraph = buildKnowledgeGraphFromParsedModules(
+    await parsePythonFiles([
+      { name: "__init__.py", path: "lib/__init__.py", content: "from ._impl import Client, _retry\nfrom .util import VERSION\n__all__ = ['Client', 'VERSION', '_retry', 'missing']\n" },
+      { name: "_impl.py", path: "lib/_impl.py", content: "class Client:\n    def get(self):\n        pass\n    def _send(self):\n        pass\n\ndef _retry():\n    pass\n\ndef helper():\n    pass\n" },
+      { name: "util.py", path: "lib/util.py", content: "VERSION = '1.0'\n\ndef _parse():\n    pass\n" },
+      { name: "cli.py", path: "tools/cli.py", content: "from lib.util import _parse\n" },
+    ])
+  );
+  const apiNode = (id: string) => apiGraph.nodes.find((n) => n.id === id);
+  const exportsEdges = apiGraph.edges.filter((e) => e.relation === "exports").map((e) => e.id);
+  assert(exportsEdges.includes("lib:module:lib:1|exports|lib._impl:class:Client:1"), "package re-exports resolve to the definition");
+  assert(exportsEdges.includes("lib:module:lib:1|exports|lib.util:variable:VERSION:1"), "re-exported variables");
+  assert(
+    apiGraph.edges.find((e) => e.id === "lib:module:lib:1|exports|lib._impl:class:Client:1")?.metadata?.reexport === true,
+    "re-export edges are flagged"
+  );
+  assert(apiNode("lib._impl:class:Client:1")?.metadata?.visibility === "re-exported", "re-exported class");
+  assert(apiNode("lib._impl:function:Client.get:2")?.metadata?.visibility === "public", "public methods of exported classes");
+  assert(apiNode("lib._impl:function:Client._send:4")?.metadata?.visibility === "internal", "private methods are internal");
+  assert(apiNode("lib._impl:function:helper:10")?.metadata?.visibility === "internal", "symbols of private modules are internal");
+  assert(apiNode("lib.util:function:_parse:3")?.metadata?.visibility === "internal", "private functions are internal");
+  const libModule = apiNode("lib:module:lib:1");
+  assert((libModule?.metadata?.missingExports as string[]).join(",") === "missing", "undefined __all__ entries");
+  assert((libModule?.metadata?.leakedPrivates as string[]).join(",") === "_retry", "private names in __all__ leak");
+  assert((apiNode("lib.util:module:lib.util:1")?.metadata?.leakedPrivates as string[]).join(",") === "_parse", "privates imported across packages leak");
+
+  // Module nodes carry the language features and minimum Python version
+  const aioModule = asyncGraph.nodes.find((n) => n.id === "aio:module:aio:1");
+  assert(aioModule?.metadata?.minPythonVersion === "3.5", "async def needs Python 3.5");
+
+  // Incremental rebuilds match a full build: body-only edits, shifted definitions and renamed classes
+  const project = {
+    "app/models.py": "class User:\n    def save(self):\n        validate(self)\n\ndef validate(obj):\n    raise ValueError()\n",
+    "app/views.py": "from models import User, validate\n\ndef create():\n    User().save()\n    validate(None)\n",
+    "app/cli.py": "import sys\n\ndef main():\n    sys.exit(run())\n\ndef run():\n    return 0\n",
+  };
+  const buildProject = async (files: Record<string, string>, previous?: ReturnType<typeof buildKnowledgeGraphFromParsedModules>) =>
+    buildKnowledgeGraphFromParsedModules(
+      await parsePythonFiles(Object.entries(files).map(([path, content]) => ({ name: path.split("/").pop()!, path, content }))),
+      { previous }
+    );
+  const baseGraph = await buildProject(project);
+  const edits: Record<string, string>[] = [
+    { ...project, "app/cli.py": project["app/cli.py"].replace("return 0", "return main()") },
+    { ...project, "app/models.py": "# models\n" + project["app/models.py"] },
+    { ...project, "app/models.py": project["app/models.py"].replace("class User", "class Account") },
+  ];
+  for (const edited of edits) {
+    const incremental = await buildProject(edited, baseGraph);
+    assert(toGraphJson(incremental) === toGraphJson(await buildProject(edited)), "incremental build should equal a full build");
+  }
+  assert(toGraphJson(await buildProject(project, baseGraph)) === toGraphJson(baseGraph), "unchanged uploads rebuild the same graph");
+  const cliEdit = await buildProject(edits[0], baseGraph);
+  assert(cliEdit.edges.some((e) => e.id === "cli:function:run:6|calls|cli:function:main:3"), "changed modules are relinked");
+
+  // Framework entry points become typed nodes handled by their function or class
+  const webGraph = buildKnowledgeGraphFromParsedModules(
+    await parsePythonFiles([
+      {
+        name: "api.py",
+        path: "web/api.py",
+        content: `from flask import Flask\n\napp = Flask(__name__)\n\n@app.route("/ping", methods=["GET"])\ndef ping():\n    return "ok"\n`,
+      },
+      { name: "cli.py", path: "web/cli.py", content: `import typer\n\napp = typer.Typer()\n\n@app.command()\ndef load_data():\n    ...\n` },
+      {
+        name: "views.py",
+        path: "web/views.py",
+        content: `from django.views import View\n\nclass ItemView(View):\n    def get(self, request): ...\n\ndef health(request): ...\n`,
+      },
+      {
+        name: "urls.py",
+        path: "web/urls.py",
+        content: `from django.urls import path, re_path\nfrom .views import ItemView\nfrom . import views\n\nurlpatterns = [\n    path("items/", ItemView.as_view()),\n    path("health/", views.health),\n    re_path(r"^(live|ready)/$", views.health),\n]\n`,
+      },
+    ])
+  );
+  const webNode = (id: string) => webGraph.nodes.find((n) => n.id === id);
+  const webEdges = webGraph.edges.map((e) => e.id);
+  assert(webNode("api:route:/ping:5")?.label === "GET /ping" && webNode("api:route:/ping:5")?.metadata?.framework === "flask", "route node");
+  assert(webEdges.includes("api:function:ping:6|handles|api:route:/ping:5"), "handler function handles its route");
+  assert(webEdges.includes("api:module:api:1|defines|api:route:/ping:5"), "modules define their entry points");
+  assert(webNode("cli:cli-command:load-data:5")?.metadata?.framework === "typer", "typer command node");
+  assert(webEdges.includes("views:class:ItemView:3|handles|views:view:ItemView:3"), "class-based view");
+  assert(webEdges.includes("views:class:ItemView:3|handles|urls:route:items/:6"), "urlpatterns resolve `.as_view()` handlers");
+  assert(webEdges.includes("views:function:health:6|handles|urls:route:health/:7"), "urlpatterns resolve module-qualified handlers");
+  const regexRoute = webGraph.edges.find((e) => e.source === "views:function:health:6" && e.target.includes("(live|ready)"));
+  assert(regexRoute?.relation === "handles" && webNode(regexRoute.target)?.type === "route", "route paths containing | keep their edges");
+  assert(webGraph.edges.every((e) => webNode(e.source) && webNode(e.target)), "every edge links existing nodes");
+
+  // Tests edges from test functions to the production code they call
+  const testGraph = buildKnowledgeGraphFromParsedModules(
+    await parsePythonFiles([
+      { name: "calc.py", content: "def add(a, b):\n    return a + b\n\nclass Calculator:\n    def total(self):\n        return add(1, 2)\n" },
+      {
+        name: "test_calc.py",
+        path: "tests/test_calc.py",
+        content: "from calc import add, Calculator\nfrom tests.helpers import build\n\ndef test_add():\n    assert add(1, 2) == 3\n    assert add(2, 2) == 4\n\ndef test_total():\n    assert build().total() == 3\n    Calculator()  # TODO: check the total\n",
+      },
+      { name: "helpers.py", path: "tests/helpers.py", content: "from calc import Calculator\n\ndef build():\n    return Calculator()\n" },
+    ])
+  );
+  const testsEdges = testGraph.edges.filter((e) => e.relation === "tests");
+  assert(
+    testsEdges.map((e) => e.id).join(" ") === "tests.test_calc:function:test_add:4|tests|calc:function:add:1 tests.test_calc:function:test_total:8|tests|calc:class:Calculator:4",
+    "tests edges skip test helpers: " + testsEdges.map((e) => e.id).join(" ")
+  );
+  assert(testsEdges[0].metadata?.weight === 2, "tests edges count call sites");
+  assert(testGraph.nodes.find((n) => n.id === "tests.test_calc:module:tests.test_calc:1")?.metadata?.testFramework === "pytest", "test module metadata");
+  // Test modules are reported under Testing only
+  const testConventions = (await analyzeGraphWithLLM(testGraph, { apiKey: "" })).markdown;
+  assert(
+    testConventions.includes("- 0 import relations observed") && testConventions.includes("**Absolute imports**: 0 statements"),
+    "imports from test modules are not production imports"
+  );
+  assert(testConventions.includes("**TODO/FIXME markers**: 0"), "markers in test modules are not production markers");
+
+  // Plain subclasses of uploaded Enum, model and exception classes take their base's kind
+  const kindGraph = buildKnowledgeGraphFromParsedModules(
+    await parsePythonFiles([
+      {
+        name: "errors.py",
+        content: "class Failure(Exception):\n    pass\n\nclass Base:\n    pass\n\nclass NotFound(Failure, Base):\n    pass\n",
+      },
+      {
+        name: "models.py",
+        content:
+          "from dataclasses import dataclass\nfrom errors import NotFound\n\n@dataclass\nclass Point:\n    x: int\n\nclass Point3(Point):\n    z: int\n\nclass Missing(NotFound):\n    pass\n",
+      },
+    ])
+  );
+  const kindOf = (id: string) => kindGraph.nodes.find((n) => n.id === id)?.metadata;
+  assert(kindOf("errors:class:Failure:1")?.classKind === "exception" && !kindOf("errors:class:Failure:1")?.inheritedKind, "direct kind");
+  assert(kindOf("errors:class:NotFound:7")?.classKind === "exception" && kindOf("errors:class:NotFound:7")?.inheritedKind, "inherited exception kind");
+  assert(kindOf("models:class:Missing:11")?.classKind === "exception", "kinds are inherited across modules and levels");
+  assert(kindOf("models:class:Point3:8")?.classKind === "plain" && kindOf("errors:class:Base:4")?.classKind === "plain", "dataclass subclasses stay plain");
+
+  console.log("All dev assertions passed.");
+}
+
+function assert(cond: unknown, message: string): asserts cond {
+  if (!cond) {
+    throw new Error("Assertion failed: " + message);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
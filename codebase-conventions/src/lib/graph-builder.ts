@@ -4,27 +4,61 @@ import type {
   CodeEdge,
   ParsedModule,
   ParsedFunction,
+  ParsedClass,
+  ParsedCall,
+  ParsedImport,
   ParseResult,
+  GraphBuildOptions,
+  ImportUsage,
+  SymbolVisibility,
+  ParsedEntryPoint,
+  ClassKind,
 } from "@/lib/types";
+import { INHERITED_CLASS_KINDS } from "@/lib/python-class-kinds";
 
 type EdgeKey = string;
 
 /**
  * Build a deterministic KnowledgeGraph from ParsedModule[]
- * - Node IDs are globally unique using `${module}:${type}:${name}:${line}` (methods use `${class}.${method}`)
- * - Relations: imports, calls, inherits, uses, defines
- * - Deduplicates nodes/edges and tracks edge weights (metadata.weight)
+ * - Node IDs are globally unique using `${module}:${type}:${name}:${line}`; names of methods and nested
+ *   definitions are qualified by their parents (`Class.method`, `outer.inner`, `Model.Meta`)
+ * - Packages use `${package}:package:${package}:0` and contain their modules and subpackages
+ * - Relations: imports, calls, inherits, uses, defines, contains, raises, catches, exports, handles, tests
+ * - Framework entry points (routes, views, tasks, CLI commands, fixtures) are nodes typed by their kind,
+ *   defined by their module and linked from the handling function or class by a `handles` edge
+ * - Class nodes carry their kind (dataclass, Enum, pydantic model, ...); plain subclasses of uploaded Enum,
+ *   model and exception classes take the kind of their base (metadata.inheritedKind)
+ * - Test functions get `tests` edges to the production functions, methods and classes they call directly
+ * - Deduplicates nodes/edges and tracks edge weights (metadata.weight); calls/uses edges also count
+ *   awaited, chained and argument-position call sites; imports edges count runtime, type-only, lazy
+ *   and optional import statements
+ * - Incremental: with options.previous, calls/uses/raises/catches edges of modules unaffected by content changes
+ *   are copied from the previous graph instead of being resolved again
  */
-export function buildKnowledgeGraphFromParsedModules(parsed: ParseResult | ParsedModule[]): KnowledgeGraph {
+export function buildKnowledgeGraphFromParsedModules(
+  parsed: ParseResult | ParsedModule[],
+  options?: GraphBuildOptions
+): KnowledgeGraph {
   const modules = parsed as ParsedModule[];
 
   const nodeById = new Map<string, CodeNode>();
   const edgeWeightByKey = new Map<EdgeKey, number>();
+  // Endpoints per key: node ids can contain "|" (e.g. regex route paths), so keys are never split back
+  const edgeEndpointsByKey = new Map<EdgeKey, { source: string; relation: string; target: string }>();
+  const callStyleByKey = new Map<EdgeKey, { awaited: number; chained: number; asArgument: number }>();
+  const importUsageByKey = new Map<EdgeKey, { runtime: number; typeOnly: number; lazy: number; optional: number }>();
+  const reexportKeys = new Set<EdgeKey>(); // exports edges to symbols defined in another module
 
   // Indexes for resolution
   const topLevelFuncByModuleAndName = new Map<string, string>(); // key: `${module}::${name}` -> nodeId
   const classByModuleAndName = new Map<string, string>(); // key: `${module}::${class}` -> nodeId
   const methodByModuleClassAndName = new Map<string, string>(); // key: `${module}::${class}::${method}` -> nodeId
+  const variableByModuleAndName = new Map<string, string>(); // key: `${module}::${name}` -> nodeId
+  const localDefsByFunction = new Map<string, Map<string, string>>(); // function nodeId -> nested def name -> nodeId
+  const enclosingFunctionById = new Map<string, string>(); // nodeId -> nearest enclosing function nodeId
+  const functionsToLink: { mod: ParsedModule; fn: ParsedFunction; id: string; withinClass?: string }[] = [];
+  const classesToLink: { mod: ParsedModule; cls: ParsedClass; id: string }[] = [];
+  const moduleNames = new Set(modules.map((m) => m.moduleName));
 
   // Helper: ensure node exists
   function upsertNode(node: CodeNode): CodeNode {
@@ -47,16 +81,34 @@ export function buildKnowledgeGraphFromParsedModules(parsed: ParseResult | Parse
     return merged;
   }
 
-  function addEdge(source: string, relation: string, target: string) {
+  function edgeKey(source: string, relation: string, target: string): EdgeKey {
     const key = `${source}|${relation}|${target}`;
+    if (!edgeEndpointsByKey.has(key)) edgeEndpointsByKey.set(key, { source, relation, target });
+    return key;
+  }
+
+  function addEdge(source: string, relation: string, target: string, call?: ParsedCall) {
+    const key = edgeKey(source, relation, target);
     const prev = edgeWeightByKey.get(key) ?? 0;
     edgeWeightByKey.set(key, prev + 1);
+    if (call) {
+      // How the call sites behind a calls/uses edge are written
+      const style = callStyleByKey.get(key) ?? { awaited: 0, chained: 0, asArgument: 0 };
+      if (call.isAwaited) style.awaited++;
+      if (call.isChained) style.chained++;
+      if (call.isArgument) style.asArgument++;
+      callStyleByKey.set(key, style);
+    }
   }
 
   function moduleNodeId(moduleName: string): string {
     return `${moduleName}:module:${moduleName}:1`;
   }
 
+  function packageNodeId(packageName: string): string {
+    return `${packageName}:package:${packageName}:0`;
+  }
+
   function classNodeId(moduleName: string, className: string, line: number): string {
     return `${moduleName}:class:${className}:${line}`;
   }
@@ -65,10 +117,18 @@ export function buildKnowledgeGraphFromParsedModules(parsed: ParseResult | Parse
     return `${moduleName}:function:${name}:${line}`;
   }
 
+  function attributeNodeId(moduleName: string, className: string, name: string, line: number): string {
+    return `${moduleName}:attribute:${className}.${name}:${line}`;
+  }
+
   function variableNodeId(moduleName: string, name: string, line: number): string {
     return `${moduleName}:variable:${name}:${line}`;
   }
 
+  function entryPointNodeId(moduleName: string, ep: ParsedEntryPoint): string {
+    return `${moduleName}:${ep.kind}:${ep.name}:${ep.line}`;
+  }
+
   function externalModuleNodeId(moduleName: string): string {
     return `external:module:${moduleName}:0`;
   }
@@ -85,84 +145,210 @@ export function buildKnowledgeGraphFromParsedModules(parsed: ParseResult | Parse
       type: "module",
       filePath: mod.filePath,
       line: 1,
-      metadata: { moduleName: mod.moduleName },
+      metadata: {
+        moduleName: mod.moduleName,
+        contentHash: mod.contentHash,
+        packageName: mod.packageName,
+        isPackage: mod.isPackage,
+        isStub: mod.isStub,
+        stubPath: mod.stubPath,
+        notebookCells: mod.notebookCells,
+        testFramework: mod.testFramework,
+        languageFeatures: mod.languageFeatures,
+        futureImports: mod.futureImports,
+        minPythonVersion: mod.minPythonVersion,
+        diagnostics: mod.diagnostics,
+        exportList: mod.exportList,
+        tryBlocks: mod.tryBlocks,
+        raises: mod.raises,
+        comments: mod.comments,
+        markers: mod.markers,
+      },
     });
   }
 
-  // Pre-pass: create nodes for modules, classes, functions/methods, variables; build resolution indexes
-  for (const mod of modules) {
-    const modNode = ensureModuleNode(mod);
+  // Create the package node and its ancestors, linking each parent to its child package
+  function ensurePackageNode(packageName: string): string {
+    const id = packageNodeId(packageName);
+    if (nodeById.has(id)) return id;
+    upsertNode({ id, label: packageName, type: "package", metadata: { packageName } });
+    const lastDot = packageName.lastIndexOf(".");
+    if (lastDot > 0) {
+      addEdge(ensurePackageNode(packageName.slice(0, lastDot)), "contains", id);
+    }
+    return id;
+  }
+
+  /**
+   * Create the class node, its attributes and, recursively, its methods and inner classes. Qualified names follow
+   * the nesting (`Outer.Inner.method`); `enclosingFn` is the function whose body defines the class.
+   */
+  function registerClass(
+    mod: ParsedModule,
+    cls: ParsedClass,
+    parentId: string,
+    parentName: string | undefined,
+    enclosingFn: string | undefined
+  ): string {
+    const qualifiedName = parentName ? `${parentName}.${cls.name}` : cls.name;
+    const clsId = classNodeId(mod.moduleName, qualifiedName, cls.lineStart);
+    upsertNode({
+      id: clsId,
+      label: qualifiedName,
+      type: "class",
+      filePath: mod.filePath,
+      line: cls.lineStart,
+      metadata: {
+        module: mod.moduleName,
+        parent: parentName,
+        baseClasses: cls.baseClasses,
+        classKind: cls.kind,
+        metaclass: cls.metaclass,
+        decorators: cls.decorators,
+        decoratorInfo: cls.decoratorInfo,
+        entryPoints: cls.entryPoints,
+        isTestClass: cls.isTestClass,
+        docstring: cls.docstring,
+        docstringInfo: cls.docstringInfo,
+        comments: cls.comments,
+        markers: cls.markers,
+        code: cls.codeExcerpt,
+        cellLocation: cls.cellLocation,
+      },
+    });
+    classByModuleAndName.set(`${mod.moduleName}::${qualifiedName}`, clsId);
+    classesToLink.push({ mod, cls, id: clsId });
+    addEdge(parentId, "defines", clsId);
+    if (enclosingFn) enclosingFunctionById.set(clsId, enclosingFn);
+    for (const ep of cls.entryPoints) registerEntryPoint(mod, ep, clsId);
 
-    // Classes and methods
-    for (const cls of mod.classes) {
-      const clsId = classNodeId(mod.moduleName, cls.name, cls.lineStart);
+    for (const attr of cls.attributes) {
+      const attrId = attributeNodeId(mod.moduleName, qualifiedName, attr.name, attr.line);
       upsertNode({
-        id: clsId,
-        label: cls.name,
-        type: "class",
+        id: attrId,
+        label: `${qualifiedName}.${attr.name}`,
+        type: "attribute",
         filePath: mod.filePath,
-        line: cls.lineStart,
+        line: attr.line,
         metadata: {
           module: mod.moduleName,
-          baseClasses: cls.baseClasses,
-          decorators: cls.decorators,
-          docstring: cls.docstring,
-          code: cls.codeExcerpt,
+          class: qualifiedName,
+          kind: attr.kind,
+          annotation: attr.annotation,
+          valueSnippet: attr.valueSnippet,
+          definedIn: attr.definedIn,
         },
       });
-      classByModuleAndName.set(`${mod.moduleName}::${cls.name}`, clsId);
-      addEdge(modNode.id, "defines", clsId);
+      addEdge(clsId, "defines", attrId);
+    }
+    for (const m of cls.methods) registerFunction(mod, m, clsId, qualifiedName, qualifiedName, enclosingFn);
+    for (const inner of cls.classes) registerClass(mod, inner, clsId, qualifiedName, enclosingFn);
+    return clsId;
+  }
 
-      for (const m of cls.methods) {
-        const qualifiedName = `${cls.name}.${m.name}`;
-        const fnId = functionNodeId(mod.moduleName, qualifiedName, m.lineStart);
-        upsertNode({
-          id: fnId,
-          label: qualifiedName,
-          type: "function",
-          filePath: mod.filePath,
-          line: m.lineStart,
-          metadata: {
-            module: mod.moduleName,
-            class: cls.name,
-            parameters: m.parameters,
-            returnHint: m.returnHint,
-            isAsync: m.isAsync,
-            isPrivate: m.isPrivate,
-            decorators: m.decorators,
-            docstring: m.docstring,
-            code: m.codeExcerpt,
-          },
-        });
-        methodByModuleClassAndName.set(`${mod.moduleName}::${cls.name}::${m.name}`, fnId);
-        addEdge(clsId, "defines", fnId);
-      }
+  // Create the function node and, recursively, the functions and classes defined in its body
+  function registerFunction(
+    mod: ParsedModule,
+    fn: ParsedFunction,
+    parentId: string,
+    parentName: string | undefined,
+    withinClass: string | undefined,
+    enclosingFn: string | undefined
+  ): string {
+    const qualifiedName = parentName ? `${parentName}.${fn.name}` : fn.name;
+    const fnId = functionNodeId(mod.moduleName, qualifiedName, fn.lineStart);
+    upsertNode({
+      id: fnId,
+      label: qualifiedName,
+      type: "function",
+      filePath: mod.filePath,
+      line: fn.lineStart,
+      metadata: {
+        module: mod.moduleName,
+        class: withinClass,
+        parent: withinClass ? undefined : parentName,
+        parameters: fn.parameters,
+        returnHint: fn.returnHint,
+        returnType: fn.returnType,
+        typeCoverage: fn.typeCoverage,
+        isAsync: fn.isAsync,
+        asyncDetails: fn.asyncDetails,
+        generator: fn.generator,
+        methodKind: fn.methodKind,
+        contextManager: fn.contextManager,
+        isPrivate: fn.isPrivate,
+        decorators: fn.decorators,
+        decoratorInfo: fn.decoratorInfo,
+        entryPoints: fn.entryPoints,
+        docstring: fn.docstring,
+        docstringInfo: fn.docstringInfo,
+        undocumentedParams: fn.undocumentedParams,
+        staleParams: fn.staleParams,
+        tryBlocks: fn.tryBlocks,
+        raises: fn.raises,
+        metrics: fn.metrics,
+        comments: fn.comments,
+        markers: fn.markers,
+        code: fn.codeExcerpt,
+        hasStub: fn.hasStub,
+        testRole: fn.testRole,
+        parametrize: fn.parametrize,
+        cellLocation: fn.cellLocation,
+      },
+    });
+    if (withinClass) methodByModuleClassAndName.set(`${mod.moduleName}::${withinClass}::${fn.name}`, fnId);
+    else if (!parentName) topLevelFuncByModuleAndName.set(`${mod.moduleName}::${fn.name}`, fnId);
+    functionsToLink.push({ mod, fn, id: fnId, withinClass });
+    addEdge(parentId, "defines", fnId);
+    if (enclosingFn) enclosingFunctionById.set(fnId, enclosingFn);
+    for (const ep of fn.entryPoints) registerEntryPoint(mod, ep, fnId);
+
+    // Nested definitions are visible by their simple name inside this function (closures)
+    const localDefs = new Map<string, string>();
+    for (const inner of fn.functions) {
+      localDefs.set(inner.name, registerFunction(mod, inner, fnId, qualifiedName, undefined, fnId));
+    }
+    for (const inner of fn.classes) {
+      localDefs.set(inner.name, registerClass(mod, inner, fnId, qualifiedName, fnId));
     }
+    localDefsByFunction.set(fnId, localDefs);
+    return fnId;
+  }
 
-    // Top-level functions
-    for (const fn of mod.functions) {
-      const fnId = functionNodeId(mod.moduleName, fn.name, fn.lineStart);
-      upsertNode({
-        id: fnId,
-        label: fn.name,
-        type: "function",
-        filePath: mod.filePath,
-        line: fn.lineStart,
-        metadata: {
-          module: mod.moduleName,
-          parameters: fn.parameters,
-          returnHint: fn.returnHint,
-          isAsync: fn.isAsync,
-          isPrivate: fn.isPrivate,
-          decorators: fn.decorators,
-          docstring: fn.docstring,
-          code: fn.codeExcerpt,
-        },
-      });
-      topLevelFuncByModuleAndName.set(`${mod.moduleName}::${fn.name}`, fnId);
-      addEdge(modNode.id, "defines", fnId);
+  // Create the entry point node, defined by its module; `handlerId` is the decorated function or class
+  function registerEntryPoint(mod: ParsedModule, ep: ParsedEntryPoint, handlerId: string | undefined) {
+    const id = entryPointNodeId(mod.moduleName, ep);
+    upsertNode({
+      id,
+      label: ep.kind === "route" && ep.methods ? `${ep.methods.join(",")} ${ep.name}` : ep.name,
+      type: ep.kind,
+      filePath: mod.filePath,
+      line: ep.line,
+      metadata: {
+        module: mod.moduleName,
+        framework: ep.framework,
+        methods: ep.methods,
+        registrar: ep.registrar,
+        isGroup: ep.isGroup,
+        options: ep.options,
+        handler: ep.handler,
+      },
+    });
+    addEdge(moduleNodeId(mod.moduleName), "defines", id);
+    if (handlerId) addEdge(handlerId, "handles", id);
+  }
+
+  // Pre-pass: create nodes for modules, classes, functions/methods, attributes, variables; build resolution indexes
+  for (const mod of modules) {
+    const modNode = ensureModuleNode(mod);
+    if (mod.packageName) {
+      addEdge(ensurePackageNode(mod.packageName), "contains", modNode.id);
     }
 
+    // Classes, functions and methods, including nested definitions
+    for (const cls of mod.classes) registerClass(mod, cls, modNode.id, undefined, undefined);
+    for (const fn of mod.functions) registerFunction(mod, fn, modNode.id, undefined, undefined, undefined);
+
     // Variables
     for (const v of mod.variables) {
       const varId = variableNodeId(mod.moduleName, v.name, v.line);
@@ -174,82 +360,168 @@ export function buildKnowledgeGraphFromParsedModules(parsed: ParseResult | Parse
         line: v.line,
         metadata: {
           module: mod.moduleName,
+          annotation: v.annotation,
           valueSnippet: v.valueSnippet,
+          cellLocation: v.cellLocation,
         },
       });
       addEdge(modNode.id, "defines", varId);
+      if (!variableByModuleAndName.has(`${mod.moduleName}::${v.name}`)) variableByModuleAndName.set(`${mod.moduleName}::${v.name}`, varId);
     }
   }
 
-  // Build import alias maps per module and create import edges
+  // Build import alias maps per module and create import edges.
+  // Alias targets are absolute dotted names so they can be resolved against uploaded modules.
+  const aliasesByModule = new Map<string, Map<string, string>>();
+  const starImportsByModule = new Map<string, string[]>(); // module -> modules imported with `*`
   for (const mod of modules) {
     const modNodeIdVal = moduleNodeId(mod.moduleName);
     const aliasToQualified = new Map<string, string>();
-    const importedModules = new Set<string>();
+    const starModules: string[] = [];
+    // Target module -> how many import statements reach it per usage (runtime, type-only, lazy, optional)
+    const importedModules = new Map<string, Record<ImportUsage, number>>();
+    const importCounts = { absolute: 0, relative: 0, wildcard: 0, typeOnly: 0, lazy: 0, optional: 0 };
 
     for (const imp of mod.imports) {
+      if (imp.level > 0) importCounts.relative++;
+      else importCounts.absolute++;
+      if (imp.usage === "type-only") importCounts.typeOnly++;
+      else if (imp.usage === "lazy") importCounts.lazy++;
+      else if (imp.usage === "optional") importCounts.optional++;
+      const targets = new Set<string>();
       if (imp.importType === "import") {
         for (const n of imp.names) {
           const raw = n.name; // may contain dots
+          // `import a.b` binds `a`; `import a.b as c` binds `c` to `a.b`
           const asName = n.alias ?? raw.split(".")[0];
-          aliasToQualified.set(asName, raw);
-          importedModules.add(raw.split(".")[0]);
+          aliasToQualified.set(asName, n.alias ? raw : asName);
+          targets.add(importTargetId(raw));
         }
       } else if (imp.importType === "from") {
+        const fromModule = absoluteModuleName(mod, imp);
         for (const n of imp.names) {
+          if (n.name === "*") {
+            // Wildcard imports bind no alias; names are looked up in the source module at link time
+            importCounts.wildcard++;
+            if (fromModule) {
+              starModules.push(fromModule);
+              targets.add(importTargetId(fromModule));
+            }
+            continue;
+          }
           const sym = n.alias ?? n.name;
-          aliasToQualified.set(sym, `${imp.module}.${n.name}`);
+          const qualified = fromModule ? `${fromModule}.${n.name}` : n.name;
+          aliasToQualified.set(sym, qualified);
+          // `from pkg import submodule` imports the submodule itself when it was uploaded
+          if (moduleNames.has(qualified)) targets.add(moduleNodeId(qualified));
+          else if (fromModule) targets.add(importTargetId(fromModule));
         }
-        importedModules.add(imp.module.split(".")[0]);
+      }
+      for (const targetId of targets) {
+        const usage = importedModules.get(targetId) ?? { runtime: 0, "type-only": 0, lazy: 0, optional: 0 };
+        usage[imp.usage]++;
+        importedModules.set(targetId, usage);
       }
     }
+    aliasesByModule.set(mod.moduleName, aliasToQualified);
+    starImportsByModule.set(mod.moduleName, starModules);
 
-    // Create module-level import edges to external module nodes
-    for (const mName of importedModules) {
-      const extModId = externalModuleNodeId(mName);
-      upsertNode({ id: extModId, label: mName, type: "module", metadata: { external: true } });
-      addEdge(modNodeIdVal, "imports", extModId);
+    // Create module-level import edges to uploaded or external module nodes
+    for (const [targetId, usage] of importedModules) {
+      if (targetId === modNodeIdVal) continue;
+      addEdge(modNodeIdVal, "imports", targetId);
+      importUsageByKey.set(edgeKey(modNodeIdVal, "imports", targetId), {
+        runtime: usage.runtime,
+        typeOnly: usage["type-only"],
+        lazy: usage.lazy,
+        optional: usage.optional,
+      });
     }
 
     // Attach the alias map to the module's module node metadata for later reference (optional)
     const modNode = nodeById.get(modNodeIdVal);
     if (modNode) {
-      modNodeByIdSetMetadata(modNode, { importAliases: Object.fromEntries(aliasToQualified) });
+      modNodeByIdSetMetadata(modNode, { importAliases: Object.fromEntries(aliasToQualified), importCounts });
       nodeById.set(modNodeIdVal, modNode);
     }
+  }
 
-    // Calls and uses edges
-    for (const fn of mod.functions) {
-      linkCallsForFunction(mod, fn, /*withinClass*/ undefined, aliasToQualified);
-    }
-    for (const cls of mod.classes) {
-      for (const m of cls.methods) {
-        linkCallsForFunction(mod, m, cls.name, aliasToQualified);
-      }
-    }
+  // Routes registered outside the handler's module (Django urlpatterns, DRF routers)
+  for (const mod of modules) {
+    for (const ep of mod.entryPoints) registerEntryPoint(mod, ep, ep.handler ? resolveHandler(mod, ep.handler) : undefined);
+  }
 
-    // Inheritance edges (base -> derived)
-    for (const cls of mod.classes) {
-      const derivedId = classByModuleAndName.get(`${mod.moduleName}::${cls.name}`);
-      if (!derivedId) continue;
-      for (const base of cls.baseClasses) {
-        // Prefer same-module first, then any-module by class name, else external class
-        const sameModuleBaseId = classByModuleAndName.get(`${mod.moduleName}::${base}`);
-        const baseId = sameModuleBaseId ?? findClassByNameAnyModule(base) ?? externalClass(base);
-        addEdge(baseId, "inherits", derivedId);
-      }
+  // Calls and uses edges
+  const reused = options?.previous ? reusableBodyEdges(options.previous) : undefined;
+  for (const { mod, fn, id, withinClass } of functionsToLink) {
+    if (reused && !reused.relink.has(mod.moduleName)) continue;
+    const aliasToQualified = aliasesByModule.get(mod.moduleName) ?? new Map<string, string>();
+    const starModules = starImportsByModule.get(mod.moduleName) ?? [];
+    linkCallsForFunction(mod, fn, id, withinClass, aliasToQualified, starModules);
+    linkErrorHandling(mod, fn, id);
+  }
+  for (const mod of modules) {
+    if (reused && !reused.relink.has(mod.moduleName)) continue;
+    linkErrorHandling(mod, mod, moduleNodeId(mod.moduleName));
+  }
+  for (const { edge, target } of reused?.edges ?? []) {
+    if (target && !nodeById.has(target.id)) upsertNode({ ...target });
+    edgeWeightByKey.set(edgeKey(edge.source, edge.relation, edge.target), Number(edge.metadata?.weight ?? 1));
+    const md = (edge.metadata ?? {}) as Record<string, number | undefined>;
+    if (edge.relation === "calls" || edge.relation === "uses") {
+      callStyleByKey.set(edge.id, { awaited: md.awaited ?? 0, chained: md.chained ?? 0, asArgument: md.asArgument ?? 0 });
     }
   }
 
+  // Tests edges: test functions to the production code they call, weighted by call sites
+  const testModules = new Set(modules.filter((m) => m.testFramework).map((m) => m.moduleName));
+  for (const [key, weight] of Array.from(edgeWeightByKey.entries())) {
+    const { source, relation, target } = edgeEndpointsByKey.get(key)!;
+    if (relation !== "calls" || nodeById.get(source)?.metadata?.testRole !== "test") continue;
+    const targetModule = nodeById.get(target)?.metadata?.module as string | undefined;
+    if (targetModule && !testModules.has(targetModule)) edgeWeightByKey.set(edgeKey(source, "tests", target), weight);
+  }
+
+  // Inheritance edges (base -> derived)
+  const baseIdsByClass = new Map<string, string[]>();
+  for (const { mod, cls, id: derivedId } of classesToLink) {
+    const baseIds = cls.baseClasses.map((base) => resolveClassName(mod, base, enclosingFunctionById.get(derivedId)));
+    for (const baseId of baseIds) addEdge(baseId, "inherits", derivedId);
+    baseIdsByClass.set(derivedId, baseIds);
+  }
+  for (const { id } of classesToLink) {
+    const node = nodeById.get(id);
+    if (node?.metadata?.classKind !== "plain") continue;
+    const kind = inheritedClassKind(id, new Set());
+    if (kind) modNodeByIdSetMetadata(node, { classKind: kind, inheritedKind: true });
+  }
+
+  // Public API: `exports` edges from each module to the symbols it exposes, then per-symbol visibility
+  const exportersBySymbol = new Map<string, string[]>(); // symbol nodeId -> modules re-exporting it
+  const exportedByOwnModule = new Set<string>();
+  const leakedPrivatesByModule = new Map<string, Set<string>>();
+  for (const mod of modules) linkExports(mod);
+  for (const mod of modules) {
+    markVisibility(mod);
+    const modNode = nodeById.get(moduleNodeId(mod.moduleName));
+    const leaked = leakedPrivatesByModule.get(mod.moduleName);
+    if (modNode && leaked) modNodeByIdSetMetadata(modNode, { leakedPrivates: Array.from(leaked).sort() });
+  }
+
   // Materialize edges
   const edges: CodeEdge[] = Array.from(edgeWeightByKey.entries()).map(([key, weight]) => {
-    const [source, relation, target] = key.split("|");
+    const { source, relation, target } = edgeEndpointsByKey.get(key)!;
     return {
       id: key,
       source,
       target,
       relation,
-      metadata: { weight },
+      metadata: {
+        weight,
+        ...nonZeroCounts(callStyleByKey.get(key)),
+        ...nonZeroCounts(importUsageByKey.get(key)),
+        ...(reexportKeys.has(key) ? { reexport: true } : {}),
+      },
     };
   });
 
@@ -260,10 +532,342 @@ export function buildKnowledgeGraphFromParsedModules(parsed: ParseResult | Parse
   return { nodes, edges };
 
   // Helpers
+  function nonZeroCounts(counts: Record<string, number> | undefined): Record<string, number> {
+    return Object.fromEntries(Object.entries(counts ?? {}).filter(([, n]) => n > 0));
+  }
+
   function modNodeByIdSetMetadata(node: CodeNode, md: Record<string, unknown>) {
     node.metadata = { ...(node.metadata ?? {}), ...md };
   }
 
+  /**
+   * Function-body edges of the previous graph that are still valid, and the modules that must be relinked:
+   * - Changed modules, every module that imports one of them (transitively, as names resolve through
+   *   re-exports), and modules whose previous body edges point into a changed module.
+   * - Returns undefined (relink everything) when modules were added, removed or duplicated, or when a
+   *   changed module renamed its classes (classes also resolve by name across modules).
+   */
+  function reusableBodyEdges(previous: KnowledgeGraph): { relink: Set<string>; edges: { edge: CodeEdge; target?: CodeNode }[] } | undefined {
+    const previousNodes = new Map(previous.nodes.map((n) => [n.id, n]));
+    const moduleOf = (id: string) => {
+      const md = previousNodes.get(id)?.metadata ?? {};
+      return (md.module ?? md.moduleName) as string | undefined;
+    };
+    const previousHashes = new Map<string, unknown>();
+    for (const n of previous.nodes) {
+      if (n.type === "module" && !n.metadata?.external) previousHashes.set(n.metadata?.moduleName as string, n.metadata?.contentHash);
+    }
+    if (moduleNames.size !== modules.length || previousHashes.size !== modules.length) return undefined;
+    if (modules.some((m) => !previousHashes.has(m.moduleName))) return undefined;
+
+    const changed = new Set(modules.filter((m) => previousHashes.get(m.moduleName) !== m.contentHash).map((m) => m.moduleName));
+    const classLabels = (moduleName: string, labels: Iterable<string>) =>
+      Array.from(labels).filter((l) => l.startsWith(`${moduleName}::`)).sort().join(",");
+    for (const moduleName of changed) {
+      const before = previous.nodes.filter((n) => n.type === "class" && n.metadata?.module === moduleName).map((n) => `${moduleName}::${n.label}`);
+      if (classLabels(moduleName, before) !== classLabels(moduleName, classByModuleAndName.keys())) return undefined;
+    }
+
+    const relink = new Set(changed);
+    for (const edge of previous.edges) {
+      if (!BODY_RELATIONS.has(edge.relation)) continue;
+      const targetModule = moduleOf(edge.target);
+      const sourceModule = moduleOf(edge.source);
+      if (targetModule && sourceModule && changed.has(targetModule)) relink.add(sourceModule);
+    }
+    // Importers of relinked modules, until no more are added
+    const importersOf = new Map<string, Set<string>>();
+    for (const mod of modules) {
+      for (const dep of moduleDependencies(mod)) {
+        if (!importersOf.has(dep)) importersOf.set(dep, new Set());
+        importersOf.get(dep)!.add(mod.moduleName);
+      }
+    }
+    const queue = Array.from(relink);
+    while (queue.length > 0) {
+      for (const importer of importersOf.get(queue.pop()!) ?? []) {
+        if (relink.has(importer)) continue;
+        relink.add(importer);
+        queue.push(importer);
+      }
+    }
+
+    const edges: { edge: CodeEdge; target?: CodeNode }[] = [];
+    for (const edge of previous.edges) {
+      if (!BODY_RELATIONS.has(edge.relation)) continue;
+      const sourceModule = moduleOf(edge.source);
+      if (!sourceModule || relink.has(sourceModule) || !nodeById.has(edge.source)) continue;
+      const target = previousNodes.get(edge.target);
+      if (!nodeById.has(edge.target) && !target?.metadata?.external) continue;
+      edges.push({ edge, target });
+    }
+    return { relink, edges };
+  }
+
+  // Uploaded modules whose symbols a module's names can resolve to: prefixes of its import targets and star imports
+  function moduleDependencies(mod: ParsedModule): Set<string> {
+    const deps = new Set<string>();
+    const targets = [...(aliasesByModule.get(mod.moduleName)?.values() ?? []), ...(starImportsByModule.get(mod.moduleName) ?? [])];
+    for (const qualified of targets) {
+      const parts = qualified.split(".");
+      for (let i = 1; i <= parts.length; i++) {
+        const candidate = parts.slice(0, i).join(".");
+        if (moduleNames.has(candidate) && candidate !== mod.moduleName) deps.add(candidate);
+      }
+    }
+    return deps;
+  }
+
+  /**
+   * Names a module exports: `__all__` when defined; otherwise its public top-level definitions, plus public
+   * names a package `__init__` imports and `from x import Y as Y` re-exports. Names in `__all__` that are neither
+   * defined nor imported are recorded as `missingExports`. `leakedPrivates` lists private names a module puts in
+   * `__all__`, and private symbols of a module that code outside its package imports.
+   */
+  function linkExports(mod: ParsedModule) {
+    const modId = moduleNodeId(mod.moduleName);
+    const aliasToQualified = aliasesByModule.get(mod.moduleName) ?? new Map<string, string>();
+    const starModules = starImportsByModule.get(mod.moduleName) ?? [];
+    const ownSymbols = new Map<string, string>();
+    for (const cls of mod.classes) ownSymbols.set(cls.name, classNodeId(mod.moduleName, cls.name, cls.lineStart));
+    for (const fn of mod.functions) ownSymbols.set(fn.name, functionNodeId(mod.moduleName, fn.name, fn.lineStart));
+    for (const v of mod.variables) {
+      if (v.name !== "__all__" && !ownSymbols.has(v.name)) ownSymbols.set(v.name, variableNodeId(mod.moduleName, v.name, v.line));
+    }
+
+    const importedNames = new Set<string>();
+    const explicitReexports = new Set<string>();
+    for (const imp of mod.imports) {
+      if (imp.importType !== "from") continue;
+      const fromModule = absoluteModuleName(mod, imp);
+      for (const n of imp.names) {
+        if (n.name === "*") continue;
+        if (isPrivateName(n.name) && fromModule !== mod.moduleName) notePrivateImport(mod, `${fromModule}.${n.name}`);
+        if (imp.scope !== "module" || imp.usage === "type-only") continue;
+        importedNames.add(n.alias ?? n.name);
+        if (n.alias === n.name) explicitReexports.add(n.name);
+      }
+    }
+
+    const names = mod.exportList
+      ? mod.exportList.names
+      : [
+          ...Array.from(ownSymbols.keys()).filter((n) => !n.startsWith("_")),
+          ...Array.from(importedNames).filter((n) => !ownSymbols.has(n) && ((mod.isPackage && !n.startsWith("_")) || explicitReexports.has(n))),
+        ];
+    const missing: string[] = [];
+    for (const name of names) {
+      if (mod.exportList && isPrivateName(name)) noteLeak(mod.moduleName, name);
+      const ownId = ownSymbols.get(name);
+      if (ownId) {
+        addEdge(modId, "exports", ownId);
+        exportedByOwnModule.add(ownId);
+        continue;
+      }
+      const qualified = aliasToQualified.get(name);
+      let targetId = qualified ? resolveSymbol(qualified) : undefined;
+      for (const starModule of qualified ? [] : starModules) targetId ??= resolveSymbol(`${starModule}.${name}`);
+      if (!targetId) {
+        if (mod.exportList && !qualified && starModules.length === 0) missing.push(name);
+        continue;
+      }
+      addEdge(modId, "exports", targetId);
+      reexportKeys.add(edgeKey(modId, "exports", targetId));
+      exportersBySymbol.set(targetId, [...(exportersBySymbol.get(targetId) ?? []), mod.moduleName]);
+    }
+    const modNode = nodeById.get(modId);
+    if (modNode && missing.length > 0) modNodeByIdSetMetadata(modNode, { missingExports: missing });
+  }
+
+  // Uploaded function, class, variable or module for an absolute dotted name
+  function resolveSymbol(qualified: string): string | undefined {
+    const lastDot = qualified.lastIndexOf(".");
+    const variableId = lastDot > 0 ? variableByModuleAndName.get(`${qualified.slice(0, lastDot)}::${qualified.slice(lastDot + 1)}`) : undefined;
+    return resolveQualified(qualified) ?? variableId ?? (moduleNames.has(qualified) ? moduleNodeId(qualified) : undefined);
+  }
+
+  // A private symbol imported from outside its package leaks from the module that defines it
+  function notePrivateImport(importer: ParsedModule, qualified: string) {
+    const targetId = resolveSymbol(qualified);
+    const target = targetId ? nodeById.get(targetId) : undefined;
+    const definingModule = target?.metadata?.["module"] as string | undefined;
+    if (!target || !definingModule) return;
+    const definingPackage = modules.find((m) => m.moduleName === definingModule)?.packageName;
+    if (definingPackage !== importer.packageName) noteLeak(definingModule, target.label);
+  }
+
+  function noteLeak(moduleName: string, name: string) {
+    leakedPrivatesByModule.set(moduleName, (leakedPrivatesByModule.get(moduleName) ?? new Set()).add(name));
+  }
+
+  /**
+   * Top-level symbols are re-exported (exposed by another module), public (exported by their own non-private
+   * module) or internal. Methods and inner classes follow their class unless private; local definitions are internal.
+   */
+  function markVisibility(mod: ParsedModule) {
+    const modulePrivate = mod.moduleName.split(".").some(isPrivateName);
+    const topLevel = (id: string): SymbolVisibility =>
+      exportersBySymbol.has(id) ? "re-exported" : exportedByOwnModule.has(id) && !modulePrivate ? "public" : "internal";
+    const member = (owner: SymbolVisibility, name: string): SymbolVisibility =>
+      owner === "internal" || isPrivateName(name) ? "internal" : "public";
+    const setVisibility = (id: string, visibility: SymbolVisibility) => {
+      const node = nodeById.get(id);
+      if (node) modNodeByIdSetMetadata(node, { visibility, exportedBy: exportersBySymbol.get(id) });
+    };
+    const markLocal = (fn: ParsedFunction, qualified: string) => {
+      for (const inner of fn.functions) {
+        setVisibility(functionNodeId(mod.moduleName, `${qualified}.${inner.name}`, inner.lineStart), "internal");
+        markLocal(inner, `${qualified}.${inner.name}`);
+      }
+      for (const inner of fn.classes) markClass(inner, `${qualified}.${inner.name}`, "internal");
+    };
+    const markClass = (cls: ParsedClass, qualified: string, visibility: SymbolVisibility) => {
+      setVisibility(classNodeId(mod.moduleName, qualified, cls.lineStart), visibility);
+      for (const m of cls.methods) {
+        setVisibility(functionNodeId(mod.moduleName, `${qualified}.${m.name}`, m.lineStart), member(visibility, m.name));
+        markLocal(m, `${qualified}.${m.name}`);
+      }
+      for (const inner of cls.classes) markClass(inner, `${qualified}.${inner.name}`, member(visibility, inner.name));
+    };
+
+    for (const cls of mod.classes) markClass(cls, cls.name, topLevel(classNodeId(mod.moduleName, cls.name, cls.lineStart)));
+    for (const fn of mod.functions) {
+      const id = functionNodeId(mod.moduleName, fn.name, fn.lineStart);
+      setVisibility(id, topLevel(id));
+      markLocal(fn, fn.name);
+    }
+    for (const v of mod.variables) {
+      const id = variableNodeId(mod.moduleName, v.name, v.line);
+      setVisibility(id, topLevel(id));
+    }
+  }
+
+  // Absolute module name for a (possibly relative) `from` import, resolved against the importer's package
+  function absoluteModuleName(mod: ParsedModule, imp: ParsedImport): string {
+    if (imp.level === 0) return imp.module;
+    const packageParts = mod.packageName ? mod.packageName.split(".") : [];
+    const baseParts = packageParts.slice(0, Math.max(0, packageParts.length - (imp.level - 1)));
+    return [...baseParts, ...(imp.module ? [imp.module] : [])].join(".");
+  }
+
+  // Import edge target: the longest uploaded module prefix, else an external top-level module
+  function importTargetId(moduleName: string): string {
+    const parts = moduleName.split(".");
+    for (let i = parts.length; i >= 1; i--) {
+      const candidate = parts.slice(0, i).join(".");
+      if (moduleNames.has(candidate)) return moduleNodeId(candidate);
+    }
+    const extModId = externalModuleNodeId(parts[0]);
+    upsertNode({ id: extModId, label: parts[0], type: "module", metadata: { external: true } });
+    return extModId;
+  }
+
+  // Expand the first segment of a dotted name through the module's import aliases
+  function qualifyImportedName(name: string, aliasToQualified: Map<string, string>): string | undefined {
+    const [base, ...rest] = name.split(".");
+    const target = aliasToQualified.get(base);
+    if (!target) return undefined;
+    return [target, ...rest].join(".");
+  }
+
+  /**
+   * Resolve an absolute dotted name (e.g. `pkg.core.helper`, `pkg.models.User.save`) to an uploaded
+   * function, class or method node. Names re-exported by another module (typically a package
+   * `__init__`) are followed through that module's imports.
+   */
+  function resolveQualified(qualified: string, depth = 0): string | undefined {
+    if (depth > 8) return undefined;
+    const parts = qualified.split(".");
+    for (let i = parts.length - 1; i >= 1; i--) {
+      const modName = parts.slice(0, i).join(".");
+      if (!moduleNames.has(modName)) continue;
+      const symbolPath = parts.slice(i);
+      const symbol = symbolPath[0];
+      const targetId =
+        symbolPath.length === 1
+          ? topLevelFuncByModuleAndName.get(`${modName}::${symbol}`) ?? classByModuleAndName.get(`${modName}::${symbol}`)
+          : methodByModuleClassAndName.get(`${modName}::${symbolPath.slice(0, -1).join(".")}::${symbolPath[symbolPath.length - 1]}`) ??
+            classByModuleAndName.get(`${modName}::${symbolPath.join(".")}`);
+      if (targetId) return targetId;
+      const reexported = aliasesByModule.get(modName)?.get(symbol);
+      if (reexported && reexported !== `${modName}.${symbol}`) {
+        return resolveQualified([reexported, ...parts.slice(i + 1)].join("."), depth + 1);
+      }
+      return resolveViaStarImports(parts.slice(i).join("."), starImportsByModule.get(modName) ?? [], depth + 1);
+    }
+    return undefined;
+  }
+
+  // Function or class a route registration names: `views.item_detail`, `ItemView.as_view()`, `ItemViewSet`
+  function resolveHandler(mod: ParsedModule, handler: string): string | undefined {
+    const name = handler.replace(/\.as_view\([\s\S]*\)$/, "");
+    if (!/^[A-Za-z_][\w.]*$/.test(name)) return undefined;
+    const sameModuleId = topLevelFuncByModuleAndName.get(`${mod.moduleName}::${name}`) ?? classByModuleAndName.get(`${mod.moduleName}::${name}`);
+    if (sameModuleId) return sameModuleId;
+    const qualified = qualifyImportedName(name, aliasesByModule.get(mod.moduleName) ?? new Map<string, string>());
+    return qualified ? resolveQualified(qualified) : resolveViaStarImports(name, starImportsByModule.get(mod.moduleName) ?? []);
+  }
+
+  // Look up a name in the uploaded modules a module imported with `from m import *`
+  function resolveViaStarImports(name: string, starModules: string[], depth = 0): string | undefined {
+    for (const starModule of starModules) {
+      const resolvedId = resolveQualified(`${starModule}.${name}`, depth);
+      if (resolvedId) return resolvedId;
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve a class referenced by name (base class, raised or caught exception). Prefers enclosing
+   * function scopes and the same module, then imported classes, then any-module by class name, else external class.
+   */
+  function resolveClassName(mod: ParsedModule, name: string, scopeId: string | undefined): string {
+    const aliasToQualified = aliasesByModule.get(mod.moduleName) ?? new Map<string, string>();
+    const starModules = starImportsByModule.get(mod.moduleName) ?? [];
+    const sameModuleId = resolveLocalName(scopeId, name) ?? classByModuleAndName.get(`${mod.moduleName}::${name}`);
+    const qualified = qualifyImportedName(name, aliasToQualified);
+    const importedId = qualified ? resolveQualified(qualified) : resolveViaStarImports(name, starModules);
+    const importedClassId = importedId && nodeById.get(importedId)?.type === "class" ? importedId : undefined;
+    return sameModuleId ?? importedClassId ?? findClassByNameAnyModule(name) ?? externalClass(name);
+  }
+
+  // `raises` edges for explicitly raised exception types and `catches` edges for handled ones
+  function linkErrorHandling(mod: ParsedModule, owner: Pick<ParsedFunction, "tryBlocks" | "raises">, sourceId: string) {
+    const scopeId = nodeById.get(sourceId)?.type === "function" ? sourceId : undefined;
+    for (const r of owner.raises) {
+      // `raise err` re-raises a variable rather than naming a class
+      if (r.isReraise || !r.exception || !/^[A-Z]/.test(r.exception.split(".").pop() ?? "")) continue;
+      addEdge(sourceId, "raises", resolveClassName(mod, r.exception, scopeId));
+    }
+    for (const block of owner.tryBlocks) {
+      for (const handler of block.handlers) {
+        for (const type of handler.types) addEdge(sourceId, "catches", resolveClassName(mod, type, scopeId));
+      }
+    }
+  }
+
+  // Kind a plain class takes from the nearest uploaded base of an inheritable kind
+  function inheritedClassKind(id: string, seen: Set<string>): ClassKind | undefined {
+    for (const baseId of baseIdsByClass.get(id) ?? []) {
+      if (seen.has(baseId)) continue;
+      seen.add(baseId);
+      const kind = nodeById.get(baseId)?.metadata?.classKind as ClassKind | undefined;
+      if (kind && INHERITED_CLASS_KINDS.has(kind)) return kind;
+      const inherited = kind === "plain" ? inheritedClassKind(baseId, seen) : undefined;
+      if (inherited) return inherited;
+    }
+    return undefined;
+  }
+
+  // Look up a simple name among the nested definitions of a function and the functions enclosing it
+  function resolveLocalName(functionId: string | undefined, name: string): string | undefined {
+    for (let scope = functionId; scope; scope = enclosingFunctionById.get(scope)) {
+      const localId = localDefsByFunction.get(scope)?.get(name);
+      if (localId) return localId;
+    }
+    return undefined;
+  }
+
   function findClassByNameAnyModule(className: string): string | undefined {
     for (const [k, id] of classByModuleAndName.entries()) {
       if (k.endsWith(`::${className}`)) return id;
@@ -275,19 +879,16 @@ export function buildKnowledgeGraphFromParsedModules(parsed: ParseResult | Parse
     const id = `external:class:${className}:0`;
     upsertNode({ id, label: className, type: "class", metadata: { external: true } });
     return id;
-    }
+  }
 
   function linkCallsForFunction(
     mod: ParsedModule,
     fn: ParsedFunction,
+    sourceId: string,
     withinClass: string | undefined,
-    aliasToQualified: Map<string, string>
+    aliasToQualified: Map<string, string>,
+    starModules: string[]
   ) {
-    const sourceId = withinClass
-      ? methodByModuleClassAndName.get(`${mod.moduleName}::${withinClass}::${fn.name}`)
-      : topLevelFuncByModuleAndName.get(`${mod.moduleName}::${fn.name}`);
-    if (!sourceId) return;
-
     for (const c of fn.calls) {
       const name = c.name;
       if (name.includes(".")) {
@@ -299,63 +900,98 @@ export function buildKnowledgeGraphFromParsedModules(parsed: ParseResult | Parse
           if (withinClass) {
             const targetId = methodByModuleClassAndName.get(`${mod.moduleName}::${withinClass}::${methodName}`);
             if (targetId) {
-              addEdge(sourceId, "calls", targetId);
+              addEdge(sourceId, "calls", targetId, c);
               continue;
             }
           }
           // Fallback external if not resolved
           const extId = externalFunctionNodeId(methodName);
           upsertNode({ id: extId, label: methodName, type: "function", metadata: { external: true } });
-          addEdge(sourceId, "uses", extId);
+          addEdge(sourceId, "uses", extId, c);
           continue;
         }
 
-        // Base may be a class in same module
-        const classTargetId = classByModuleAndName.get(`${mod.moduleName}::${base}`);
+        // Base may be a (possibly nested) class in same module
+        const classPath = [base, ...rest.slice(0, -1)].join(".");
+        const classTargetId = classByModuleAndName.get(`${mod.moduleName}::${classPath}`);
         if (classTargetId) {
-          const methTargetId = methodByModuleClassAndName.get(`${mod.moduleName}::${base}::${methodName}`);
+          const methTargetId = methodByModuleClassAndName.get(`${mod.moduleName}::${classPath}::${methodName}`);
           if (methTargetId) {
-            addEdge(sourceId, "calls", methTargetId);
+            addEdge(sourceId, "calls", methTargetId, c);
             continue;
           }
         }
+        const innerClassId = classByModuleAndName.get(`${mod.moduleName}::${name}`);
+        if (innerClassId) {
+          addEdge(sourceId, "calls", innerClassId, c);
+          continue;
+        }
 
-        // Base may be an imported alias: treat as external use
-        const qualified = aliasToQualified.get(base) ?? name;
+        // Base may be an imported alias: resolve against uploaded modules, else treat as external use
+        const qualified = qualifyImportedName(name, aliasToQualified) ?? name;
+        const resolvedId = resolveQualified(qualified) ?? resolveViaStarImports(name, starModules);
+        if (resolvedId) {
+          addEdge(sourceId, "calls", resolvedId, c);
+          continue;
+        }
         const extId = externalFunctionNodeId(qualified);
         upsertNode({ id: extId, label: qualified, type: "function", metadata: { external: true } });
-        addEdge(sourceId, "uses", extId);
+        addEdge(sourceId, "uses", extId, c);
+        continue;
+      }
+
+      // Simple function name: nested definitions of this or an enclosing function shadow module-level names
+      const localId = resolveLocalName(sourceId, name);
+      if (localId) {
+        addEdge(sourceId, "calls", localId, c);
         continue;
       }
 
-      // Simple function name
       const sameModuleFn = topLevelFuncByModuleAndName.get(`${mod.moduleName}::${name}`);
       if (sameModuleFn) {
-        addEdge(sourceId, "calls", sameModuleFn);
+        addEdge(sourceId, "calls", sameModuleFn, c);
         continue;
       }
 
       if (withinClass) {
         const sameClassMethod = methodByModuleClassAndName.get(`${mod.moduleName}::${withinClass}::${name}`);
         if (sameClassMethod) {
-          addEdge(sourceId, "calls", sameClassMethod);
+          addEdge(sourceId, "calls", sameClassMethod, c);
           continue;
         }
       }
 
-      // If imported symbol exists with same alias, consider external use
+      // Class instantiation within the same module
+      const sameModuleClass = classByModuleAndName.get(`${mod.moduleName}::${name}`);
+      if (sameModuleClass) {
+        addEdge(sourceId, "calls", sameModuleClass, c);
+        continue;
+      }
+
+      // Imported symbol: link to the uploaded definition when it resolves, else consider external use
       const qualified = aliasToQualified.get(name);
       if (qualified) {
+        const resolvedId = resolveQualified(qualified);
+        if (resolvedId) {
+          addEdge(sourceId, "calls", resolvedId, c);
+          continue;
+        }
         const extId = externalFunctionNodeId(qualified);
         upsertNode({ id: extId, label: qualified, type: "function", metadata: { external: true } });
-        addEdge(sourceId, "uses", extId);
+        addEdge(sourceId, "uses", extId, c);
+        continue;
+      }
+
+      const starResolvedId = resolveViaStarImports(name, starModules);
+      if (starResolvedId) {
+        addEdge(sourceId, "calls", starResolvedId, c);
         continue;
       }
 
       // Otherwise, unknown - treat as external function symbol by simple name
       const extId = externalFunctionNodeId(name);
       upsertNode({ id: extId, label: name, type: "function", metadata: { external: true } });
-      addEdge(sourceId, "uses", extId);
+      addEdge(sourceId, "uses", extId, c);
     }
   }
 }
@@ -388,3 +1024,10 @@ export function toGraphJson(graph: KnowledgeGraph): string {
 
 export default buildKnowledgeGraphFromParsedModules;
 
+// Edges resolved from function bodies (and module-level raise/try statements)
+const BODY_RELATIONS = new Set(["calls", "uses", "raises", "catches"]);
+
+// `_helper` is private; dunder names such as `__version__` are not
+function isPrivateName(name: string): boolean {
+  return name.startsWith("_") && !(name.startsWith("__") && name.endsWith("__"));
+}
@@ -1,4 +1,5 @@
-import type { KnowledgeGraph, CodeNode, CodeEdge } from "@/lib/types";
+import type { KnowledgeGraph, CodeNode, CodeEdge, ParsedParameter, ParsedCommentMarker, ParsedTryBlock, ParsedRaise, ParsedFunctionMetrics, ParsedDocstring, ParsedLanguageFeature, ParseDiagnostic, ParsedDecorator, ParsedParametrize, ParsedTypeCoverage, ParsedAsyncDetails, ParsedGenerator } from "@/lib/types";
+import { compareVersions } from "@/lib/python-features";
 
 type LLMAnalyzeOptions = {
   codeSnippets?: string[];
@@ -98,10 +99,15 @@ function buildUserPrompt(graphPayload: string, codeSamples: string[]): string {
     "",
     "Please analyze and document these categories:",
     "1. Naming Conventions (functions, classes, private methods, constants)",
-    "2. Code Structure (modules, classes, inheritance)",
-    "3. Common Patterns (decorators, type hints %, async/await, error handling)",
-    "4. Import Conventions (organization, absolute vs relative if detectable)",
-    "5. Documentation (docstring coverage %, style if inferable)",
+    "2. Code Structure (modules, classes, inheritance, class/instance attributes, class kinds from classKind (dataclass, attrs, pydantic, NamedTuple, TypedDict, Enum, Protocol, ABC, exception) and the preferred way to model data, function size and complexity from metrics)",
+    "3. Common Patterns (decorators, type hints % per parameter and return, annotation style from typeCoverage: PEP 604 vs Optional/Union unions, builtin vs typing generics, forward references, Any, mutable defaults, async/await from asyncDetails (await sites, async with/for, gather vs task groups, async functions that never await), function kinds from methodKind, generator and contextManager, error handling from tryBlocks/raises and raises/catches edges)",
+    "4. Import Conventions (organization, absolute vs relative usage from module importCounts, circular import handling and optional dependencies from type-only/lazy/optional import edges) and the minimum Python version from module minPythonVersion, languageFeatures and futureImports",
+    "5. Public API (`__all__` usage from module exportList, symbol visibility, package re-exports from exports edges, leakedPrivates and missingExports)",
+    "6. Entry Points (route/view/task/cli-command/fixture nodes and the functions or classes that handle them: frameworks, registrars such as app/router/blueprint, HTTP methods, path and path-parameter style, sync vs async handlers, task and fixture options)",
+    "7. Testing (modules with testFramework, testRole test/fixture/setup functions, isTestClass classes, parametrize, tests edges to production code); leave test code out of the other categories' statistics",
+    "8. Documentation (docstring coverage %, style adoption % from docstringInfo.style, parameters missing from or stale in docstrings, TODO/FIXME density and type: ignore / noqa / pragma suppressions from node markers)",
+    "",
+    "If module diagnostics report syntax errors, say which files were only partially analyzed.",
     "",
     "Return markdown formatted for a conventions.md with:",
     "- Pattern name",
@@ -120,9 +126,21 @@ function buildUserPrompt(graphPayload: string, codeSamples: string[]): string {
 // ------------------------------
 
 function generateHeuristicMarkdown(graph: KnowledgeGraph, codeSamples: string[]): string {
-  const fnNodes = graph.nodes.filter((n) => n.type === "function");
-  const classNodes = graph.nodes.filter((n) => n.type === "class");
-  const moduleNodes = graph.nodes.filter((n) => n.type === "module");
+  // External placeholders (third-party calls, builtin exceptions) are not part of the analyzed code
+  const internalNodes = graph.nodes.filter((n) => !(n.metadata ?? {})["external"]);
+  const moduleNodes = internalNodes.filter((n) => n.type === "module");
+  // Test code gets its own section and is kept out of the production-code statistics
+  const testModuleNames = new Set(moduleNodes.filter((m) => (m.metadata ?? {})["testFramework"]).map((m) => m.label));
+  const isTestCode = (n: CodeNode) => testModuleNames.has(String((n.metadata ?? {})["module"] ?? (n.metadata ?? {})["moduleName"]));
+  const productionNodes = internalNodes.filter((n) => !isTestCode(n));
+  const fnNodes = productionNodes.filter((n) => n.type === "function");
+  const classNodes = productionNodes.filter((n) => n.type === "class");
+  const productionModules = productionNodes.filter((n) => n.type === "module");
+  const packageNodes = graph.nodes.filter((n) => n.type === "package");
+  const attributeNodes = productionNodes.filter((n) => n.type === "attribute");
+  // Edges are attributed to the code they start from (the calling function, the importing module)
+  const productionIds = new Set(productionNodes.map((n) => n.id));
+  const productionEdges = graph.edges.filter((e) => productionIds.has(e.source));
 
   // Naming: snake_case for functions/methods
   let snakeCount = 0;
@@ -144,48 +162,372 @@ function generateHeuristicMarkdown(graph: KnowledgeGraph, codeSamples: string[])
   // Classes: PascalCase
   let pascalClasses = 0;
   for (const c of classNodes) {
-    if (/^[A-Z][A-Za-z0-9]*$/.test(c.label)) pascalClasses++;
+    // Inner classes are labelled by their qualified name (`Article.Meta`)
+    const name = c.label.split(".").pop() ?? c.label;
+    if (/^[A-Z][A-Za-z0-9]*$/.test(name)) pascalClasses++;
   }
   const classPascalPct = toPct(pascalClasses, classNodes.length);
 
   // Type hints and async, decorators, docstrings
   let functionsWithAnyTypeHint = 0;
+  let annotatableParams = 0;
+  let annotatedParams = 0;
+  let mutableDefaults = 0;
   let asyncCount = 0;
   let docstringCount = 0;
   const decoratorFrequency = new Map<string, number>();
-  let tryExceptMentions = 0;
+  let functionsWithTry = 0;
+  let bareExcepts = 0;
+  let broadExcepts = 0;
+  let swallowedExcepts = 0;
+  let reraisingHandlers = 0;
+  let handlerCount = 0;
+  let raiseFromCount = 0;
+  let explicitRaises = 0;
+  const asyncStyle = { awaits: 0, withoutAwait: 0, asyncWith: 0, asyncFor: 0, gathers: 0, taskGroups: 0, spawnedTasks: 0, generators: 0 };
+  const functionKinds = new Map<string, number>(); // property, classmethod, generator, context manager, ...
+  const typeStyle = { annotated: 0, full: 0, pep604: 0, typingUnion: 0, builtinGeneric: 0, typingGeneric: 0, forwardRefs: 0, anys: 0, withAny: 0 };
+  const raisedFrequency = new Map<string, number>();
+  const caughtFrequency = new Map<string, number>();
+  const handlingViolations: string[] = []; // functions with bare or silently swallowed excepts
 
   for (const fn of fnNodes) {
     const md = (fn.metadata ?? {}) as Record<string, unknown>;
-    const params = (md.parameters as string[] | undefined) ?? [];
+    const params = (md.parameters as ParsedParameter[] | undefined) ?? [];
     const returnHint = (md.returnHint as string | undefined) ?? "";
     const isAsync = Boolean(md.isAsync);
     const doc = (md.docstring as string | undefined) ?? "";
-    const decorators = (md.decorators as string[] | undefined) ?? [];
-    const code = (md.code as string | undefined) ?? "";
+    const decoratorInfo = md.decoratorInfo as ParsedDecorator[] | undefined;
+    // Count decorators by name so `@app.route("/a")` and `@app.route("/b")` are the same pattern
+    const decorators = decoratorInfo ? decoratorInfo.map((d) => "@" + d.name) : ((md.decorators as string[] | undefined) ?? []);
+    const tryBlocks = (md.tryBlocks as ParsedTryBlock[] | undefined) ?? [];
+    const raises = (md.raises as ParsedRaise[] | undefined) ?? [];
 
-    if (params.some((p) => p.includes(":")) || returnHint) functionsWithAnyTypeHint++;
+    if (params.some((p) => p.annotation) || returnHint) functionsWithAnyTypeHint++;
+    const coverage = md.typeCoverage as ParsedTypeCoverage | undefined;
+    if (coverage && (coverage.annotatedParams > 0 || coverage.returnAnnotated)) {
+      // Styles are counted per annotated signature, so one long signature does not dominate
+      typeStyle.annotated++;
+      if (coverage.annotatedParams === coverage.annotatableParams && coverage.returnAnnotated) typeStyle.full++;
+      if (coverage.pep604Unions > 0) typeStyle.pep604++;
+      if (coverage.typingUnions > 0) typeStyle.typingUnion++;
+      if (coverage.builtinGenerics > 0) typeStyle.builtinGeneric++;
+      if (coverage.typingGenerics > 0) typeStyle.typingGeneric++;
+      typeStyle.forwardRefs += coverage.forwardRefs;
+      typeStyle.anys += coverage.anys;
+      if (coverage.anys > 0) typeStyle.withAny++;
+    }
+    // self/cls are conventionally left unannotated, so they do not count against coverage
+    const annotatable = md.class ? params.filter((p, i) => !(i === 0 && (p.name === "self" || p.name === "cls"))) : params;
+    annotatableParams += annotatable.length;
+    annotatedParams += annotatable.filter((p) => p.annotation).length;
+    mutableDefaults += params.filter((p) => p.default !== undefined && isMutableDefault(p.default)).length;
     if (isAsync) asyncCount++;
+    const asyncDetails = md.asyncDetails as ParsedAsyncDetails | undefined;
+    if (asyncDetails) {
+      asyncStyle.awaits += asyncDetails.awaitLines.length;
+      asyncStyle.asyncWith += asyncDetails.asyncWith;
+      asyncStyle.asyncFor += asyncDetails.asyncFor;
+      asyncStyle.gathers += asyncDetails.gathers;
+      asyncStyle.taskGroups += asyncDetails.taskGroups;
+      asyncStyle.spawnedTasks += asyncDetails.spawnedTasks;
+      // `async def` that never suspends; async generators and abstract methods still need the keyword
+      const suspends = asyncDetails.awaitLines.length + asyncDetails.asyncWith + asyncDetails.asyncFor > 0;
+      if (!suspends && !md.generator && !decorators.some((d) => d.endsWith("abstractmethod"))) asyncStyle.withoutAwait++;
+      if (md.generator) asyncStyle.generators++;
+    }
+    const generator = md.generator as ParsedGenerator | undefined;
+    const fnKinds = [
+      md.methodKind as string | undefined,
+      md.contextManager ? (md.contextManager === "async" ? "async context manager" : "context manager") : undefined,
+      // Context managers are written as generators; count them once
+      generator && !md.contextManager ? (generator.yieldFroms > 0 ? "generator (yield from)" : "generator") : undefined,
+    ];
+    for (const k of fnKinds) if (k) functionKinds.set(k, (functionKinds.get(k) ?? 0) + 1);
     if (doc && doc.trim().length > 0) docstringCount++;
     for (const d of decorators) {
       decoratorFrequency.set(d, (decoratorFrequency.get(d) ?? 0) + 1);
     }
-    if (code.includes("try:") || code.includes("except ")) tryExceptMentions++;
+    if (tryBlocks.length > 0) functionsWithTry++;
+    let violates = false;
+    for (const handler of tryBlocks.flatMap((b) => b.handlers)) {
+      handlerCount++;
+      if (handler.types.length === 0) bareExcepts++;
+      if (handler.types.some((t) => t === "Exception" || t === "BaseException")) broadExcepts++;
+      if (handler.swallows) swallowedExcepts++;
+      if (handler.reraises) reraisingHandlers++;
+      if (handler.types.length === 0 || handler.swallows) violates = true;
+      for (const t of handler.types) caughtFrequency.set(t, (caughtFrequency.get(t) ?? 0) + 1);
+    }
+    if (violates) handlingViolations.push(fn.label);
+    for (const r of raises) {
+      if (r.cause) raiseFromCount++;
+      if (!r.isReraise && r.exception) {
+        explicitRaises++;
+        raisedFrequency.set(r.exception, (raisedFrequency.get(r.exception) ?? 0) + 1);
+      }
+    }
   }
 
   const typeHintPct = toPct(functionsWithAnyTypeHint, fnNodes.length);
   const asyncPct = toPct(asyncCount, fnNodes.length);
   const docstringPct = toPct(docstringCount, fnNodes.length);
 
-  const topDecorators = Array.from(decoratorFrequency.entries())
+  const topDecorators = topCounts(decoratorFrequency);
+
+  // Call-site style from calls/uses edge metadata
+  let callSites = 0;
+  let awaitedCalls = 0;
+  let chainedCalls = 0;
+  for (const e of productionEdges) {
+    if (e.relation !== "calls" && e.relation !== "uses") continue;
+    const md = (e.metadata ?? {}) as Record<string, number | undefined>;
+    callSites += md.weight ?? 1;
+    awaitedCalls += md.awaited ?? 0;
+    chainedCalls += md.chained ?? 0;
+  }
+
+  // Imports: module -> module edges, plus absolute/relative statement counts recorded on module nodes
+  const importEdges = productionEdges.filter((e) => e.relation === "imports");
+  const importCount = importEdges.length;
+  let absoluteImports = 0;
+  let relativeImports = 0;
+  let wildcardImports = 0;
+  let typeOnlyImports = 0;
+  let lazyImports = 0;
+  let optionalImports = 0;
+  for (const m of productionModules) {
+    const counts = (m.metadata ?? {})["importCounts"] as
+      | { absolute?: number; relative?: number; wildcard?: number; typeOnly?: number; lazy?: number; optional?: number }
+      | undefined;
+    absoluteImports += counts?.absolute ?? 0;
+    relativeImports += counts?.relative ?? 0;
+    wildcardImports += counts?.wildcard ?? 0;
+    typeOnlyImports += counts?.typeOnly ?? 0;
+    lazyImports += counts?.lazy ?? 0;
+    optionalImports += counts?.optional ?? 0;
+  }
+  const importStatements = absoluteImports + relativeImports;
+  const runtimeImports = importStatements - typeOnlyImports - lazyImports - optionalImports;
+
+  // Circular imports: cycles among runtime imports, and deferred (type-only/lazy) imports that close a cycle
+  const labelById = new Map(graph.nodes.map((n) => [n.id, n.label]));
+  const runtimeImportsBySource = new Map<string, string[]>();
+  for (const e of importEdges) {
+    if (!(e.metadata ?? {})["runtime"] && !(e.metadata ?? {})["optional"]) continue;
+    runtimeImportsBySource.set(e.source, [...(runtimeImportsBySource.get(e.source) ?? []), e.target]);
+  }
+  const importCycles = findCycles(runtimeImportsBySource).map((ids) => ids.map((id) => labelById.get(id) ?? id));
+  const cycleBreakers = importEdges.filter((e) => {
+    const md = e.metadata ?? {};
+    return !md["runtime"] && (md["typeOnly"] || md["lazy"]) && reaches(runtimeImportsBySource, e.target, e.source);
+  });
+  const optionalModules = new Map<string, number>();
+  for (const e of importEdges) {
+    const optional = Number((e.metadata ?? {})["optional"] ?? 0);
+    const label = labelById.get(e.target) ?? e.target;
+    if (optional > 0) optionalModules.set(label, (optionalModules.get(label) ?? 0) + optional);
+  }
+
+  // Docstring styles (functions and classes) and documented parameters that drift from signatures
+  const styleCounts = new Map<string, number>();
+  let documentedNodes = 0;
+  const paramDrift: string[] = [];
+  for (const n of [...fnNodes, ...classNodes]) {
+    const md = (n.metadata ?? {}) as Record<string, unknown>;
+    const info = md.docstringInfo as ParsedDocstring | undefined;
+    if (!info) continue;
+    documentedNodes++;
+    styleCounts.set(info.style, (styleCounts.get(info.style) ?? 0) + 1);
+    const undocumented = (md.undocumentedParams as string[] | undefined) ?? [];
+    const stale = (md.staleParams as string[] | undefined) ?? [];
+    if (undocumented.length > 0 || stale.length > 0) {
+      const parts = [
+        ...(undocumented.length > 0 ? [`missing ${undocumented.join(", ")}`] : []),
+        ...(stale.length > 0 ? [`stale ${stale.join(", ")}`] : []),
+      ];
+      paramDrift.push(`\`${n.label}\` (${parts.join("; ")})`);
+    }
+  }
+  const docstringStyles = Array.from(styleCounts.entries())
     .sort((a, b) => b[1] - a[1])
-    .slice(0, 5)
-    .map(([name, count]) => `${name} (${count})`)
+    .map(([style, count]) => `${style} ${toPct(count, documentedNodes)}`)
     .join(", ");
 
-  // Imports: approximate via edges from modules to external modules
-  const importEdges = graph.edges.filter((e) => e.relation === "imports");
-  const importCount = importEdges.length;
+  // Function size and complexity
+  const measured = fnNodes
+    .map((n) => ({ label: n.label, metrics: (n.metadata ?? {})["metrics"] as ParsedFunctionMetrics | undefined }))
+    .filter((m): m is { label: string; metrics: ParsedFunctionMetrics } => Boolean(m.metrics));
+  const complexities = measured.map((m) => m.metrics.cyclomaticComplexity);
+  const complexOutliers = [...measured]
+    .filter((m) => m.metrics.cyclomaticComplexity > 10 || m.metrics.maxNestingDepth > 4 || m.metrics.lineCount > 100)
+    .sort((a, b) => b.metrics.cyclomaticComplexity - a.metrics.cyclomaticComplexity || b.metrics.lineCount - a.metrics.lineCount)
+    .slice(0, 5);
+
+  // Comment markers: TODO density and suppression habits
+  const markerCounts = new Map<string, number>();
+  const noqaCodes = new Map<string, number>();
+  for (const n of [...productionModules, ...classNodes, ...fnNodes]) {
+    const markers = ((n.metadata ?? {})["markers"] as ParsedCommentMarker[] | undefined) ?? [];
+    for (const m of markers) {
+      markerCounts.set(m.kind, (markerCounts.get(m.kind) ?? 0) + 1);
+      if (m.kind === "noqa") {
+        for (const code of (m.detail ?? "bare").split(",")) noqaCodes.set(code, (noqaCodes.get(code) ?? 0) + 1);
+      }
+    }
+  }
+  const countMarkers = (...kinds: string[]) => kinds.reduce((acc, k) => acc + (markerCounts.get(k) ?? 0), 0);
+  const taskMarkers = countMarkers("todo", "fixme", "hack", "xxx");
+  const topNoqaCodes = topCounts(noqaCodes);
+
+  // State: class/instance attributes and declarative (dataclass/pydantic style) models
+  const classAttributes = attributeNodes.filter((n) => (n.metadata ?? {})["kind"] === "class");
+  const instanceAttributes = attributeNodes.filter((n) => (n.metadata ?? {})["kind"] === "instance");
+  const annotatedAttributes = attributeNodes.filter((n) => hasNonEmptyString(n.metadata, "annotation")).length;
+  const declarativeClasses = classNodes.filter((c) => DATA_MODEL_KINDS.includes(String((c.metadata ?? {})["classKind"])));
+
+  // Data modeling: class kinds, the preferred data container and how dataclasses are configured
+  const classKinds = new Map<string, number>();
+  for (const c of classNodes) {
+    const kind = String((c.metadata ?? {})["classKind"] ?? "plain");
+    classKinds.set(kind, (classKinds.get(kind) ?? 0) + 1);
+  }
+  const dataModelKinds = new Map(Array.from(classKinds).filter(([kind]) => DATA_MODEL_KINDS.includes(kind)));
+  const [preferredModel] = Array.from(dataModelKinds).sort((a, b) => b[1] - a[1]);
+  const dataclassOptions = new Map<string, number>();
+  for (const c of classNodes.filter((n) => ["dataclass", "attrs"].includes(String((n.metadata ?? {})["classKind"])))) {
+    for (const d of ((c.metadata ?? {})["decoratorInfo"] as ParsedDecorator[] | undefined) ?? []) {
+      if (!/(^|\.)(dataclass|define|frozen|s)$/.test(d.name)) continue;
+      for (const [option, value] of Object.entries(d.kwargs)) {
+        if (value === "True") dataclassOptions.set(`${option}=True`, (dataclassOptions.get(`${option}=True`) ?? 0) + 1);
+      }
+    }
+  }
+  // Roots of the uploaded exception hierarchies: exception classes that do not derive from another uploaded one
+  const exceptionClasses = classNodes.filter((c) => (c.metadata ?? {})["classKind"] === "exception");
+  const exceptionIds = new Set(exceptionClasses.map((c) => c.id));
+  const derivedExceptions = new Set(graph.edges.filter((e) => e.relation === "inherits" && exceptionIds.has(e.source)).map((e) => e.target));
+  const exceptionRoots = exceptionClasses.filter((c) => !derivedExceptions.has(c.id));
+
+  // Python version: the most demanding module sets the floor for the whole codebase
+  const featureModules = new Map<string, number>();
+  const futureImports = new Map<string, number>();
+  let minPythonVersion: string | undefined;
+  let minVersionModule: string | undefined;
+  for (const m of moduleNodes) {
+    const md = (m.metadata ?? {}) as Record<string, unknown>;
+    for (const f of (md.languageFeatures as ParsedLanguageFeature[] | undefined) ?? []) {
+      featureModules.set(f.name, (featureModules.get(f.name) ?? 0) + 1);
+    }
+    for (const name of (md.futureImports as string[] | undefined) ?? []) {
+      futureImports.set(name, (futureImports.get(name) ?? 0) + 1);
+    }
+    const version = md.minPythonVersion as string | undefined;
+    if (version && (!minPythonVersion || compareVersions(version, minPythonVersion) > 0)) {
+      minPythonVersion = version;
+      minVersionModule = m.label;
+    }
+  }
+
+  // Public API: `__all__` adoption, symbol visibility, package re-exports and leaked private helpers
+  const moduleMd = (m: CodeNode) => (m.metadata ?? {}) as Record<string, unknown>;
+  const modulesWithAll = productionModules.filter((m) => moduleMd(m).exportList).length;
+  const packageInits = productionModules.filter((m) => moduleMd(m).isPackage);
+  const packagesWithAll = packageInits.filter((m) => moduleMd(m).exportList).length;
+  const visibilityCounts = new Map<string, number>();
+  for (const n of productionNodes) {
+    const md = (n.metadata ?? {}) as Record<string, unknown>;
+    if (md.class || md.parent || typeof md.visibility !== "string") continue; // top-level symbols only
+    visibilityCounts.set(md.visibility, (visibilityCounts.get(md.visibility) ?? 0) + 1);
+  }
+  const reexports = productionEdges
+    .filter((e) => e.relation === "exports" && (e.metadata ?? {})["reexport"])
+    .map((e) => `\`${labelById.get(e.source) ?? e.source}\` → \`${labelById.get(e.target) ?? e.target}\``);
+  const leakingModules = productionModules
+    .filter((m) => ((moduleMd(m).leakedPrivates as string[] | undefined) ?? []).length > 0)
+    .map((m) => `\`${m.label}\` (${(moduleMd(m).leakedPrivates as string[]).join(", ")})`);
+  const staleExportModules = productionModules
+    .filter((m) => ((moduleMd(m).missingExports as string[] | undefined) ?? []).length > 0)
+    .map((m) => `\`${m.label}\` (${(moduleMd(m).missingExports as string[]).join(", ")})`);
+
+  // Parse diagnostics: syntax errors mean parts of these modules are missing from the graph
+  const diagnostics = moduleNodes.flatMap((m) => ((m.metadata ?? {})["diagnostics"] as ParseDiagnostic[] | undefined) ?? []);
+  const parseErrors = diagnostics.filter((d) => d.severity === "error");
+  const modulesWithErrors = new Set(parseErrors.map((d) => d.file)).size;
+
+  // Source kinds: notebooks analyze code cells only; stubs either type an implementation or stand alone
+  const notebooks = moduleNodes.filter((m) => moduleMd(m).notebookCells);
+  const notebookCells = notebooks.reduce((sum, m) => sum + (moduleMd(m).notebookCells as unknown[]).length, 0);
+  const stubbedModules = moduleNodes.filter((m) => moduleMd(m).stubPath).length;
+  const stubOnlyModules = moduleNodes.filter((m) => moduleMd(m).isStub).length;
+
+  // Entry points: framework-registered routes, views, tasks, CLI commands and fixtures, with their handlers
+  const entryNodes = internalNodes.filter((n) => ENTRY_POINT_TYPES.includes(n.type));
+  const entryMd = (n: CodeNode) => (n.metadata ?? {}) as Record<string, unknown>;
+  const nodeById = new Map(graph.nodes.map((n) => [n.id, n]));
+  const handlerOf = new Map<string, CodeNode>(); // entry nodeId -> handling function or class
+  for (const e of graph.edges) {
+    const handler = e.relation === "handles" ? nodeById.get(e.source) : undefined;
+    if (handler) handlerOf.set(e.target, handler);
+  }
+  const routes = entryNodes.filter((n) => n.type === "route");
+  const routeFrameworks = new Map<string, number>();
+  const routeRegistrars = new Map<string, number>();
+  const routeMethods = new Map<string, number>();
+  let trailingSlashRoutes = 0;
+  let angleParams = 0; // Flask/Django `<int:id>`
+  let braceParams = 0; // FastAPI `{id}`
+  let asyncRouteHandlers = 0;
+  for (const r of routes) {
+    const md = entryMd(r);
+    const path = r.label.slice(r.label.indexOf(" ") + 1); // label is "GET,POST /path" when methods are known
+    routeFrameworks.set(String(md.framework), (routeFrameworks.get(String(md.framework)) ?? 0) + 1);
+    if (md.registrar) routeRegistrars.set(String(md.registrar), (routeRegistrars.get(String(md.registrar)) ?? 0) + 1);
+    for (const m of (md.methods as string[] | undefined) ?? []) routeMethods.set(m, (routeMethods.get(m) ?? 0) + 1);
+    if (path.length > 1 && path.endsWith("/")) trailingSlashRoutes++;
+    if (/<[^>]+>/.test(path)) angleParams++;
+    if (/\{[^}]+\}/.test(path)) braceParams++;
+    if (handlerOf.get(r.id)?.metadata?.["isAsync"]) asyncRouteHandlers++;
+  }
+  const views = entryNodes.filter((n) => n.type === "view");
+  const classViews = views.filter((v) => handlerOf.get(v.id)?.type === "class").length;
+  const commands = entryNodes.filter((n) => n.type === "cli-command");
+  const commandGroups = commands.filter((c) => entryMd(c).isGroup).length;
+  const cliFrameworks = new Map<string, number>();
+  for (const c of commands) cliFrameworks.set(String(entryMd(c).framework), (cliFrameworks.get(String(entryMd(c).framework)) ?? 0) + 1);
+  const tasks = entryNodes.filter((n) => n.type === "task");
+  const taskOption = (name: string) => tasks.filter((t) => (entryMd(t).options as Record<string, string> | undefined)?.[name] !== undefined).length;
+  const fixtures = entryNodes.filter((n) => n.type === "fixture");
+  const fixtureScopes = new Map<string, number>();
+  for (const f of fixtures) {
+    const scope = (entryMd(f).options as Record<string, string> | undefined)?.scope?.replace(/^['"]|['"]$/g, "") ?? "function";
+    fixtureScopes.set(scope, (fixtureScopes.get(scope) ?? 0) + 1);
+  }
+  const conftestFixtures = fixtures.filter((f) => /(^|\.)conftest$/.test(String(entryMd(f).module))).length;
+
+  // Testing: test modules, collected tests, parametrization, fixture use and the production code tests reach
+  const testModules = moduleNodes.filter((m) => testModuleNames.has(m.label));
+  const testFrameworks = new Map<string, number>();
+  for (const m of testModules) testFrameworks.set(String(moduleMd(m).testFramework), (testFrameworks.get(String(moduleMd(m).testFramework)) ?? 0) + 1);
+  const testFunctions = internalNodes.filter((n) => n.type === "function" && (n.metadata ?? {})["testRole"] === "test");
+  const testClasses = internalNodes.filter((n) => n.type === "class" && (n.metadata ?? {})["isTestClass"]).length;
+  const testMethods = testFunctions.filter((n) => (n.metadata ?? {})["class"]).length;
+  const setupHooks = internalNodes.filter((n) => (n.metadata ?? {})["testRole"] === "setup").length;
+  const parametrized = testFunctions.filter((n) => (n.metadata ?? {})["parametrize"]);
+  const parametrizedCases = parametrized.reduce(
+    (sum, n) => sum + ((n.metadata ?? {})["parametrize"] as ParsedParametrize[]).reduce((acc, p) => acc * (p.cases ?? 1), 1),
+    0
+  );
+  const fixtureNames = new Set([...BUILTIN_FIXTURES, ...entryNodes.filter((n) => n.type === "fixture").map((n) => n.label)]);
+  const testsUsingFixtures = testFunctions.filter((n) =>
+    (((n.metadata ?? {})["parameters"] as ParsedParameter[] | undefined) ?? []).some((p) => fixtureNames.has(p.name))
+  ).length;
+  const testDirModules = testModules.filter((m) => /(^|\/)tests?\//.test(m.filePath ?? "")).length;
+  const suffixNamed = testModules.filter((m) => /_test\.py$/.test(m.filePath ?? "")).length;
+  const prefixNamed = testModules.filter((m) => /(^|\/)test_[^/]*\.py$/.test(m.filePath ?? "")).length;
+  const testedIds = new Set(graph.edges.filter((e) => e.relation === "tests").map((e) => e.target));
+  const publicFunctions = fnNodes.filter((n) => !(n.metadata ?? {})["isPrivate"]);
+  const testedFunctions = publicFunctions.filter((n) => testedIds.has(n.id)).length;
 
   // Build markdown
   const exampleFn = fnNodes.find((n) => n.label && extractFunctionBaseName(n.label));
@@ -204,37 +546,263 @@ function generateHeuristicMarkdown(graph: KnowledgeGraph, codeSamples: string[])
   lines.push("");
 
   lines.push("## Code Structure");
-  lines.push(`- **Modules**: ${moduleNodes.length} modules detected`);
+  lines.push(`- **Packages**: ${packageNodes.length} packages detected`);
+  lines.push(`- **Modules**: ${moduleNodes.length} modules detected (${testModuleNames.size} test modules, reported under Testing)`);
   lines.push(`- **Classes**: ${classNodes.length} classes detected`);
   lines.push(`- **Functions**: ${fnNodes.length} functions/methods detected`);
+  if (notebooks.length > 0) {
+    lines.push(`- **Notebooks**: ${notebooks.length} notebooks with ${notebookCells} code cells (joined in cell order)`);
+  }
+  if (stubbedModules + stubOnlyModules > 0) {
+    lines.push(`- **Stubs**: ${stubbedModules} modules typed by .pyi stubs, ${stubOnlyModules} stub-only modules`);
+  }
+  if (diagnostics.length > 0) {
+    lines.push(
+      `- **Parse diagnostics**: ${parseErrors.length} syntax errors in ${modulesWithErrors} modules, ${diagnostics.length - parseErrors.length} warnings; skipped code is not reflected below`
+    );
+  }
+  lines.push("");
+
+  if (measured.length > 0) {
+    lines.push("## Function Size and Complexity");
+    lines.push(
+      `- **Length**: median ${percentile(measured.map((m) => m.metrics.lineCount), 50)} lines, 90th percentile ${percentile(measured.map((m) => m.metrics.lineCount), 90)} lines`
+    );
+    lines.push(`- **Statements**: median ${percentile(measured.map((m) => m.metrics.statementCount), 50)} per function`);
+    lines.push(
+      `- **Cyclomatic complexity**: median ${percentile(complexities, 50)}, 90th percentile ${percentile(complexities, 90)}; ${toPct(complexities.filter((c) => c > 10).length, complexities.length)} above 10`
+    );
+    lines.push(`- **Nesting depth**: max ${Math.max(...measured.map((m) => m.metrics.maxNestingDepth))} levels`);
+    lines.push(
+      `- **Return points**: ${toPct(measured.filter((m) => m.metrics.returnCount > 1).length, measured.length)} of functions return from more than one place`
+    );
+    if (complexOutliers.length > 0) {
+      const outliers = complexOutliers.map(
+        (m) => `\`${m.label}\` (complexity ${m.metrics.cyclomaticComplexity}, ${m.metrics.lineCount} lines, depth ${m.metrics.maxNestingDepth})`
+      );
+      lines.push(`- **Outliers**: ${outliers.join(", ")}`);
+    }
+    lines.push("");
+  }
+
+  lines.push("## State and Attributes");
+  lines.push(`- **Class attributes**: ${classAttributes.length} declared in class bodies`);
+  lines.push(`- **Instance attributes**: ${instanceAttributes.length} assigned on \`self\``);
+  lines.push(`- **Annotated attributes**: ${toPct(annotatedAttributes, attributeNodes.length)}`);
+  lines.push(`- **Declarative models**: ${declarativeClasses.length} dataclass/attrs/pydantic/NamedTuple/TypedDict classes`);
+  if (declarativeClasses[0]) lines.push("  Example: `" + declarativeClasses[0].label + "`");
   lines.push("");
 
+  if (classNodes.length > 0) {
+    lines.push("## Data Modeling");
+    lines.push(`- **Class kinds**: ${topCounts(classKinds)}`);
+    if (preferredModel) {
+      lines.push(`- **Preferred data container**: ${preferredModel[0]} (${toPct(preferredModel[1], declarativeClasses.length)} of data classes; ${topCounts(dataModelKinds)})`);
+    }
+    if (dataclassOptions.size > 0) lines.push(`- **Dataclass options**: ${topCounts(dataclassOptions)}`);
+    const protocols = classKinds.get("protocol") ?? 0;
+    const abcs = classKinds.get("abc") ?? 0;
+    if (protocols + abcs > 0) lines.push(`- **Interfaces**: ${protocols} \`Protocol\` classes, ${abcs} ABCs`);
+    if (classKinds.get("enum")) lines.push(`- **Enums**: ${classKinds.get("enum")} \`Enum\` classes`);
+    if (exceptionClasses.length > 0) {
+      lines.push(
+        `- **Custom exceptions**: ${exceptionClasses.length} in ${exceptionRoots.length} hierarchies (roots: ${exceptionRoots.slice(0, 5).map((c) => "`" + c.label + "`").join(", ")})`
+      );
+    }
+    lines.push("");
+  }
+
   lines.push("## Common Patterns");
   lines.push(`- **Decorators**: ${topDecorators || "None prominent"}`);
   lines.push(`- **Type hints**: ${typeHintPct} coverage`);
-  lines.push(`- **Async/await**: ${asyncPct} usage`);
-  lines.push(`- **Error handling**: try/except observed in ~${toPct(tryExceptMentions, fnNodes.length)} of functions`);
+  lines.push(`- **Parameter annotations**: ${annotatedParams}/${annotatableParams} parameters annotated (${toPct(annotatedParams, annotatableParams)})`);
+  if (mutableDefaults > 0) lines.push(`- **Mutable defaults**: ${mutableDefaults} parameters default to a list, dict or set`);
+  lines.push(`- **Async/await**: ${asyncPct} usage (${awaitedCalls} awaited call sites)`);
+  if (functionKinds.size > 0) lines.push(`- **Function kinds**: ${topCounts(functionKinds)}`);
+  lines.push(`- **Method chaining**: ${toPct(chainedCalls, callSites)} of call sites are chained calls`);
+  lines.push(`- **Error handling**: try/except used in ${toPct(functionsWithTry, fnNodes.length)} of functions`);
+  lines.push("");
+
+  if (asyncCount > 0) {
+    lines.push("## Async");
+    lines.push(`- **Async functions**: ${asyncCount} (${toPct(asyncCount, fnNodes.length)} of functions), ${asyncStyle.generators} async generators`);
+    lines.push(`- **Await sites**: ${asyncStyle.awaits} (${(asyncStyle.awaits / asyncCount).toFixed(1)} per async function)`);
+    if (asyncStyle.asyncWith + asyncStyle.asyncFor > 0) {
+      lines.push(`- **Async iteration and context**: ${asyncStyle.asyncWith} \`async with\`, ${asyncStyle.asyncFor} \`async for\` (loops and comprehensions)`);
+    }
+    if (asyncStyle.gathers + asyncStyle.taskGroups + asyncStyle.spawnedTasks > 0) {
+      lines.push(
+        `- **Concurrency**: ${asyncStyle.gathers} \`asyncio.gather\` calls, ${asyncStyle.taskGroups} task groups, ${asyncStyle.spawnedTasks} spawned tasks (\`create_task\`/\`start_soon\`)`
+      );
+    }
+    if (asyncStyle.withoutAwait > 0) lines.push(`- **Never await**: ${asyncStyle.withoutAwait} async functions`);
+    lines.push("");
+  }
+
+  if (typeStyle.annotated > 0) {
+    const unionSignatures = typeStyle.pep604 + typeStyle.typingUnion;
+    const genericSignatures = typeStyle.builtinGeneric + typeStyle.typingGeneric;
+    lines.push("## Type Annotations");
+    lines.push(`- **Fully annotated signatures**: ${toPct(typeStyle.full, typeStyle.annotated)} of annotated signatures (every parameter and the return)`);
+    if (unionSignatures > 0) {
+      lines.push(
+        `- **Unions**: PEP 604 \`X | Y\` in ${toPct(typeStyle.pep604, typeStyle.annotated)} of annotated signatures, \`Optional[...]\`/\`Union[...]\` in ${toPct(typeStyle.typingUnion, typeStyle.annotated)}`
+      );
+    }
+    if (genericSignatures > 0) {
+      lines.push(
+        `- **Generics**: builtin \`list[int]\` in ${toPct(typeStyle.builtinGeneric, typeStyle.annotated)} of annotated signatures, \`typing\` aliases \`List[int]\` in ${toPct(typeStyle.typingGeneric, typeStyle.annotated)}`
+      );
+    }
+    lines.push(`- **Forward references**: ${typeStyle.forwardRefs} string annotations`);
+    lines.push(`- **\`Any\`**: ${typeStyle.anys} uses in ${typeStyle.withAny} signatures`);
+    lines.push("");
+  }
+
+  lines.push("## Error Handling");
+  lines.push(`- **Most raised**: ${topCounts(raisedFrequency) || "None observed"}`);
+  lines.push(`- **Most caught**: ${topCounts(caughtFrequency) || "None observed"}`);
+  lines.push(`- **Exception chaining**: ${raiseFromCount} of ${explicitRaises} raises use \`raise ... from ...\``);
+  lines.push(`- **Re-raising handlers**: ${toPct(reraisingHandlers, handlerCount)} of except clauses`);
+  lines.push(`- **Broad handlers**: ${broadExcepts} \`except Exception\`, ${bareExcepts} bare \`except:\``);
+  lines.push(`- **Swallowed exceptions**: ${swallowedExcepts} handlers only \`pass\``);
+  if (handlingViolations.length > 0) {
+    lines.push(`- **Functions with bare or silent excepts**: ${handlingViolations.slice(0, 5).map((l) => "`" + l + "`").join(", ")}`);
+  }
+  lines.push("");
+
+  lines.push("## Public API");
+  lines.push(`- **\`__all__\`**: defined in ${modulesWithAll} of ${productionModules.length} modules (${packagesWithAll} of ${packageInits.length} package \`__init__\` files)`);
+  lines.push(
+    `- **Top-level symbols**: ${visibilityCounts.get("public") ?? 0} public, ${visibilityCounts.get("re-exported") ?? 0} re-exported, ${visibilityCounts.get("internal") ?? 0} internal`
+  );
+  if (reexports.length > 0) lines.push(`- **Re-exports**: ${reexports.length} (e.g. ${reexports.slice(0, 5).join(", ")})`);
+  if (leakingModules.length > 0) lines.push(`- **Leaked private helpers**: ${leakingModules.slice(0, 5).join(", ")}`);
+  if (staleExportModules.length > 0) lines.push(`- **Undefined \`__all__\` entries**: ${staleExportModules.slice(0, 5).join(", ")}`);
+  lines.push("");
+
+  if (entryNodes.length > 0) {
+    lines.push("## Entry Points");
+    if (routes.length > 0) {
+      lines.push(`- **Routes**: ${routes.length} (${topCounts(routeFrameworks)})${routeRegistrars.size > 0 ? `, registered on ${topCounts(routeRegistrars)}` : ""}`);
+      if (routeMethods.size > 0) lines.push(`- **HTTP methods**: ${topCounts(routeMethods)}`);
+      lines.push(
+        `- **Paths**: ${toPct(trailingSlashRoutes, routes.length)} end with a slash; parameters written as ${braceParams >= angleParams ? "`{name}`" : "`<type:name>`"} (${braceParams} \`{}\`, ${angleParams} \`<>\`)`
+      );
+      lines.push(`- **Async handlers**: ${toPct(asyncRouteHandlers, routes.length)} of routes`);
+    }
+    if (views.length > 0) lines.push(`- **Django views**: ${views.length - classViews} function-based, ${classViews} class-based`);
+    if (commands.length > 0) {
+      lines.push(`- **CLI commands**: ${commands.length - commandGroups} commands, ${commandGroups} groups (${topCounts(cliFrameworks)})`);
+    }
+    if (tasks.length > 0) {
+      lines.push(`- **Celery tasks**: ${tasks.length} (${taskOption("bind")} bound with \`bind=True\`, ${taskOption("name")} with an explicit name)`);
+    }
+    if (fixtures.length > 0) {
+      lines.push(`- **Pytest fixtures**: ${fixtures.length} (scopes: ${topCounts(fixtureScopes)}); ${toPct(conftestFixtures, fixtures.length)} defined in \`conftest.py\``);
+    }
+    lines.push("");
+  }
+
+  if (testModules.length > 0) {
+    lines.push("## Testing");
+    lines.push(`- **Test modules**: ${testModules.length} (${topCounts(testFrameworks)}); ${toPct(testDirModules, testModules.length)} under a \`tests/\` directory`);
+    lines.push(`- **File naming**: ${prefixNamed} \`test_*.py\`, ${suffixNamed} \`*_test.py\``);
+    lines.push(
+      `- **Tests**: ${testFunctions.length} (${testFunctions.length - testMethods} functions, ${testMethods} methods in ${testClasses} test classes); ${setupHooks} setup/teardown hooks`
+    );
+    lines.push(`- **Parametrization**: ${parametrized.length} tests use \`@pytest.mark.parametrize\` (${parametrizedCases} parameter sets)`);
+    lines.push(`- **Fixtures**: ${toPct(testsUsingFixtures, testFunctions.length)} of tests request fixtures as arguments`);
+    lines.push(`- **Tested code**: ${toPct(testedFunctions, publicFunctions.length)} of public production functions are called directly by a test`);
+    lines.push("");
+  }
+
+  lines.push("## Python Version");
+  lines.push(
+    `- **Minimum version**: ${minPythonVersion ? `Python ${minPythonVersion}+ (required by \`${minVersionModule}\`)` : "No version-specific syntax detected"}`
+  );
+  if (featureModules.size > 0) {
+    lines.push(`- **Language features** (modules using each): ${topCounts(featureModules)}`);
+  }
+  if (futureImports.size > 0) {
+    lines.push(`- **\`__future__\` imports** (modules using each): ${topCounts(futureImports)}`);
+  }
   lines.push("");
 
   lines.push("## Import Conventions");
-  lines.push(`- ${importCount} import relations observed (module -> external module)`);
-  lines.push("- Absolute vs relative import details not fully available; inferred from edges.");
+  lines.push(`- ${importCount} import relations observed (module -> module)`);
+  lines.push(`- **Absolute imports**: ${absoluteImports} statements (${toPct(absoluteImports, importStatements)})`);
+  lines.push(`- **Relative imports**: ${relativeImports} statements (${toPct(relativeImports, importStatements)})`);
+  lines.push(`- **Wildcard imports**: ${wildcardImports} \`from x import *\` statements`);
+  lines.push(
+    `- **Import timing**: ${runtimeImports} runtime, ${typeOnlyImports} type-only (\`if TYPE_CHECKING:\`), ${lazyImports} lazy (inside functions), ${optionalImports} optional (try/except ImportError)`
+  );
+  lines.push(
+    `- **Circular imports**: ${importCycles.length} runtime import cycles${importCycles.length > 0 ? ` (e.g. ${importCycles.slice(0, 3).map((c) => "`" + c.join(" <-> ") + "`").join(", ")})` : ""}; ${cycleBreakers.length} type-only or lazy imports point back at a module that imports them at runtime`
+  );
+  if (optionalModules.size > 0) lines.push(`- **Optional dependencies**: ${topCounts(optionalModules)}`);
   lines.push("");
 
   lines.push("## Documentation");
   lines.push(`- **Docstring coverage**: ${docstringPct}`);
+  if (documentedNodes > 0) lines.push(`- **Docstring style**: ${docstringStyles} of documented functions and classes`);
+  if (paramDrift.length > 0) {
+    lines.push(`- **Parameter docs out of sync**: ${paramDrift.length} functions, e.g. ${paramDrift.slice(0, 5).join(", ")}`);
+  }
+  lines.push("");
+
+  lines.push("## Comments and Suppressions");
+  lines.push(
+    `- **TODO/FIXME markers**: ${taskMarkers} (~${(taskMarkers / Math.max(1, productionModules.length)).toFixed(1)} per module)`
+  );
+  lines.push(`- **\`# type: ignore\`**: ${countMarkers("type-ignore")} occurrences`);
+  lines.push(`- **\`# noqa\`**: ${countMarkers("noqa")} occurrences${topNoqaCodes ? ` (${topNoqaCodes})` : ""}`);
+  lines.push(`- **\`# pragma\`**: ${countMarkers("pragma")} occurrences (e.g. \`no cover\`)`);
   lines.push("");
 
   lines.push("## Recommendations");
+  if (parseErrors.length > 0) {
+    lines.push("- Fix the reported syntax errors and re-run the analysis for complete results.");
+  }
   if (functionsWithAnyTypeHint < fnNodes.length) {
     lines.push("- Add missing type hints to functions lacking parameter or return types.");
   }
-  if (asyncCount > 0 && tryExceptMentions === 0) {
+  if ((typeStyle.pep604 > 0 && typeStyle.typingUnion > 0) || (typeStyle.builtinGeneric > 0 && typeStyle.typingGeneric > 0)) {
+    lines.push("- Settle on one annotation style: `X | None` over `Optional[X]` and `list[int]` over `List[int]` where the minimum Python version allows.");
+  }
+  if (complexOutliers.length > 0) {
+    lines.push("- Split the outlier functions listed above into smaller helpers to reduce complexity and nesting.");
+  }
+  if (importCycles.length > 0) {
+    lines.push("- Break runtime import cycles by moving shared code into a lower-level module, or defer the import (`if TYPE_CHECKING:` for annotations, a function-level import otherwise).");
+  }
+  if (leakingModules.length > 0) {
+    lines.push("- Stop exposing private helpers: make them public API or keep their use inside the defining package.");
+  }
+  if (packageInits.length > packagesWithAll) {
+    lines.push("- Define `__all__` in package `__init__` files to make the public interface explicit.");
+  }
+  if (mutableDefaults > 0) {
+    lines.push("- Replace mutable default arguments with `None` and create the value inside the function.");
+  }
+  if (bareExcepts > 0 || swallowedExcepts > 0) {
+    lines.push("- Catch specific exception types and log or re-raise instead of silently passing.");
+  }
+  if (asyncCount > 0 && functionsWithTry === 0) {
     lines.push("- Ensure async functions include error handling where network/IO is used.");
   }
+  if (asyncStyle.withoutAwait > 0) {
+    lines.push("- Make async functions that never await synchronous, or document why they must stay coroutines.");
+  }
+  if (asyncStyle.gathers > 0 && asyncStyle.taskGroups > 0) {
+    lines.push("- Prefer one way to run coroutines concurrently (`asyncio.gather` or task groups).");
+  }
   if (docstringCount < fnNodes.length) {
     lines.push("- Increase docstring coverage for public functions and classes.");
   }
+  if (paramDrift.length > 0) {
+    lines.push("- Keep documented parameters in sync with function signatures.");
+  }
   if (!topDecorators) {
     lines.push("- Consider using decorators for cross-cutting concerns where appropriate.");
   }
@@ -328,12 +896,30 @@ function simplifyEdge(e: CodeEdge) {
     target: e.target,
     relation: e.relation,
     weight: (e.metadata as Record<string, unknown> | undefined)?.["weight"] ?? undefined,
+    ...(e.relation === "imports" ? importUsage(e.metadata) : {}),
+    ...(e.relation === "exports" && e.metadata?.["reexport"] ? { reexport: true } : {}),
   };
 }
 
+// Non-runtime import counts of an imports edge, e.g. { typeOnly: 1 }
+function importUsage(md: Record<string, unknown> | undefined) {
+  const out: Record<string, unknown> = {};
+  for (const k of ["typeOnly", "lazy", "optional"] as const) {
+    if (md?.[k]) out[k] = md[k];
+  }
+  return out;
+}
+
+const DATA_MODEL_KINDS = ["dataclass", "attrs", "pydantic", "namedtuple", "typeddict"];
+
+const ENTRY_POINT_TYPES = ["route", "view", "task", "cli-command", "fixture"];
+
+// Fixtures pytest (and pytest-mock) provide without a definition in the uploaded code
+const BUILTIN_FIXTURES = ["tmp_path", "tmp_path_factory", "tmpdir", "monkeypatch", "capsys", "capfd", "caplog", "request", "recwarn", "mocker"];
+
 function simplifyMetadata(md: Record<string, unknown> | undefined) {
   if (!md) return undefined;
-  const keep = ["module", "class", "parameters", "returnHint", "isAsync", "isPrivate", "decorators", "docstring"] as const;
+  const keep = ["module", "class", "kind", "markers", "tryBlocks", "raises", "metrics", "annotation", "parameters", "returnHint", "isAsync", "asyncDetails", "generator", "methodKind", "contextManager", "isPrivate", "decorators", "docstring", "docstringInfo", "undocumentedParams", "staleParams", "importCounts", "languageFeatures", "futureImports", "minPythonVersion", "diagnostics", "visibility", "exportedBy", "exportList", "leakedPrivates", "missingExports", "isStub", "stubPath", "hasStub", "decoratorInfo", "entryPoints", "framework", "methods", "registrar", "options", "handler", "isGroup", "typeCoverage", "classKind", "inheritedKind", "metaclass", "testFramework", "testRole", "isTestClass", "parametrize"] as const;
   const out: Record<string, unknown> = {};
   for (const k of keep) {
     const v = (md as Record<string, unknown>)[k];
@@ -355,6 +941,81 @@ function extractFunctionBaseName(label: string): string | undefined {
   return name || undefined;
 }
 
+// Nearest-rank percentile of a list of numbers (0 for an empty list)
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+// Strongly connected components with more than one module (Tarjan), each listed from its first-visited module
+function findCycles(adjacency: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const strongConnect = (v: string) => {
+    index.set(v, counter);
+    lowLink.set(v, counter++);
+    stack.push(v);
+    onStack.add(v);
+    for (const w of adjacency.get(v) ?? []) {
+      if (!index.has(w)) {
+        strongConnect(w);
+        lowLink.set(v, Math.min(lowLink.get(v)!, lowLink.get(w)!));
+      } else if (onStack.has(w)) {
+        lowLink.set(v, Math.min(lowLink.get(v)!, index.get(w)!));
+      }
+    }
+    if (lowLink.get(v) !== index.get(v)) return;
+    const component: string[] = [];
+    let w: string;
+    do {
+      w = stack.pop()!;
+      onStack.delete(w);
+      component.unshift(w);
+    } while (w !== v);
+    if (component.length > 1) cycles.push(component);
+  };
+
+  for (const v of adjacency.keys()) if (!index.has(v)) strongConnect(v);
+  return cycles;
+}
+
+// Whether `to` is reachable from `from` along the adjacency lists
+function reaches(adjacency: Map<string, string[]>, from: string, to: string): boolean {
+  const seen = new Set<string>([from]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const cur = queue.shift()!;
+    if (cur === to) return true;
+    for (const next of adjacency.get(cur) ?? []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return false;
+}
+
+// Five most frequent entries formatted as "name (count), ..."
+function topCounts(frequency: Map<string, number>): string {
+  return Array.from(frequency.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([name, count]) => `${name} (${count})`)
+    .join(", ");
+}
+
+// Literal or constructor-call defaults that are shared between calls, e.g. `[]`, `{}` or `dict()`
+function isMutableDefault(value: string): boolean {
+  return /^[[{]/.test(value) || /^(list|dict|set|defaultdict|OrderedDict|deque)\(/.test(value);
+}
+
 function toPct(numerator: number, denominator: number): string {
   if (!denominator || denominator <= 0) return "0%";
   const pct = Math.round((numerator / denominator) * 100);
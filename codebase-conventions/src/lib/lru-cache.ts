@@ -0,0 +1,57 @@
+/**
+ * In-memory map bounded by entry count and approximate size:
+ * - Least recently used entries are evicted until both maxEntries and maxBytes hold; a value larger than
+ *   maxBytes on its own is not kept.
+ * - `sizeOf` estimates a value's size in bytes once, when it is set.
+ * - With ttlMs, entries expire that long after they were set.
+ */
+export function createLruCache<V>(options: { maxEntries: number; maxBytes: number; ttlMs?: number; sizeOf: (value: V) => number }): LruCache<V> {
+  const entries = new Map<string, { value: V; size: number; expires: number }>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    totalBytes -= entry.size;
+  };
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      remove(key);
+      if (entry.expires <= Date.now()) return undefined;
+      // Re-insert to mark as most recently used
+      entries.set(key, entry);
+      totalBytes += entry.size;
+      return entry.value;
+    },
+    set(key, value) {
+      remove(key);
+      const size = options.sizeOf(value);
+      if (size > options.maxBytes) return;
+      entries.set(key, { value, size, expires: options.ttlMs === undefined ? Infinity : Date.now() + options.ttlMs });
+      totalBytes += size;
+      while (entries.size > options.maxEntries || totalBytes > options.maxBytes) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        remove(oldest);
+      }
+    },
+  };
+}
+
+export default createLruCache;
+
+export interface LruCache<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+}
+
+/**
+ * Approximate in-memory size of a JSON-serializable value: its JSON text, two bytes per character.
+ */
+export function jsonSize(value: unknown): number {
+  return JSON.stringify(value).length * 2;
+}
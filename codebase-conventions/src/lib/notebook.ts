@@ -0,0 +1,142 @@
+import type { ParsedCellLocation, ParsedNotebookCell } from "@/lib/types";
+import { parsePythonModule } from "@/lib/python-ast";
+import type { PyModule } from "@/lib/python-ast";
+
+/**
+ * Jupyter notebook (.ipynb) support:
+ * - Code cells are joined into one Python source, in notebook order, so later cells see earlier definitions.
+ * - IPython line magics and shell escapes (`%timeit f()`, `!pip install x`) that start a logical line are blanked;
+ *   lines inside triple-quoted strings, brackets or backslash continuations are kept. A cell starting with a
+ *   non-Python cell magic (`%%bash`, `%%sql`) is blanked entirely. Line counts are kept so positions map back.
+ * - Cells are numbered from 1 in notebook order, markdown and raw cells included, as they appear in the editor.
+ * - Problems are returned as messages instead of thrown: invalid JSON yields no source, and a code cell whose
+ *   `source` is not text is skipped.
+ */
+export function notebookToSource(json: string): { source: string; cells: ParsedNotebookCell[]; errors: string[] } {
+  let notebook: { cells?: unknown };
+  try {
+    notebook = JSON.parse(json) as { cells?: unknown };
+  } catch (err) {
+    return { source: "", cells: [], errors: [`invalid notebook JSON: ${(err as Error).message}`] };
+  }
+  if (!Array.isArray(notebook?.cells)) return { source: "", cells: [], errors: ["notebook has no cells"] };
+
+  const lines: string[] = [];
+  const cells: ParsedNotebookCell[] = [];
+  const errors: string[] = [];
+  notebook.cells.forEach((raw: { cell_type?: string; source?: unknown; execution_count?: number | null } | null, i) => {
+    if (raw?.cell_type !== "code") return;
+    const source = raw.source ?? "";
+    const text =
+      typeof source === "string" ? source : Array.isArray(source) && source.every((s) => typeof s === "string") ? source.join("") : undefined;
+    if (text === undefined) {
+      errors.push(`cell ${i + 1}: source is not text; cell skipped`);
+      return;
+    }
+    const cellLines = text.replace(/\r\n?/g, "\n").replace(/\n$/, "").split("\n");
+    const blankAll = /^%%/.test(cellLines[0]) && !PYTHON_CELL_MAGICS.has(cellLines[0].slice(2).split(/\s/)[0]);
+    const lineStart = lines.length + 1;
+    lines.push(...(blankAll ? cellLines.map(() => "") : blankMagics(cellLines)));
+    cells.push({
+      cell: i + 1,
+      executionCount: typeof raw.execution_count === "number" ? raw.execution_count : undefined,
+      lineStart,
+      lineEnd: lines.length,
+    });
+  });
+  return { source: lines.join("\n") + "\n", cells, errors };
+}
+
+export default notebookToSource;
+
+/**
+ * Syntax tree of the joined notebook source. When it has errors, each code cell is parsed on its own instead, so an
+ * unclosed bracket or string in one cell cannot swallow the cells after it. The text before a cell is kept as
+ * blanks, so offsets and positions in every cell's tree still refer to the joined source.
+ */
+export function parseNotebookSource(source: string, cells: ParsedNotebookCell[]): PyModule {
+  const joined = parsePythonModule(source);
+  if (joined.errors.length === 0) return joined;
+  const lines = source.split("\n");
+  const merged: PyModule = { kind: "Module", body: [], comments: [], errors: [] };
+  let offset = 0;
+  let nextLine = 1;
+  for (const cell of cells) {
+    for (; nextLine < cell.lineStart; nextLine++) offset += lines[nextLine - 1].length + 1;
+    const text = lines.slice(cell.lineStart - 1, cell.lineEnd).join("\n") + "\n";
+    const tree = parsePythonModule(source.slice(0, offset).replace(/[^\n]/g, " ") + text);
+    merged.body.push(...tree.body);
+    merged.comments.push(...tree.comments);
+    // An error at the end of the cell's input (unclosed bracket) belongs to the cell's last line, not the next cell
+    const lastColumn = lines[cell.lineEnd - 1].length + 1;
+    merged.errors.push(...tree.errors.map((e) => (e.line > cell.lineEnd ? { ...e, line: cell.lineEnd, column: lastColumn } : e)));
+  }
+  return merged;
+}
+
+// Lines of a cell with the magics that start a logical line blanked. Tracks just enough of Python's lexical
+// structure to tell: open triple-quoted strings, bracket depth and backslash continuations.
+function blankMagics(cellLines: string[]): string[] {
+  let openQuote: string | undefined;
+  let depth = 0;
+  let continued = false;
+  return cellLines.map((line) => {
+    if (!openQuote && depth === 0 && !continued && /^\s*[%!]/.test(line)) return "";
+    continued = false;
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (openQuote) {
+        if (ch === "\\") i++;
+        else if (line.startsWith(openQuote, i)) {
+          i += 2;
+          openQuote = undefined;
+        }
+      } else if (ch === "#") {
+        break;
+      } else if (ch === '"' || ch === "'") {
+        if (line.startsWith(ch.repeat(3), i)) {
+          openQuote = ch.repeat(3);
+          i += 2;
+        } else {
+          // Single-quoted strings end on their line
+          for (i++; i < line.length && line[i] !== ch; i++) if (line[i] === "\\") i++;
+        }
+      } else if ("([{".includes(ch)) {
+        depth++;
+      } else if (")]}".includes(ch)) {
+        depth = Math.max(0, depth - 1);
+      } else if (ch === "\\" && i === line.length - 1) {
+        continued = true;
+      }
+    }
+    return line;
+  });
+}
+
+/**
+ * Cell and cell-relative line of a line in the joined notebook source.
+ */
+export function cellLocation(cells: ParsedNotebookCell[], line: number): ParsedCellLocation | undefined {
+  const cell = cells.find((c) => line >= c.lineStart && line <= c.lineEnd);
+  return cell ? { cell: cell.cell, line: line - cell.lineStart + 1 } : undefined;
+}
+
+/**
+ * Drop cell outputs (plots, tables, tracebacks) from notebook JSON; the analysis only reads code cells.
+ * Returns the input unchanged when it is not valid notebook JSON.
+ */
+export function stripNotebookOutputs(json: string): string {
+  try {
+    const notebook = JSON.parse(json) as { cells?: Record<string, unknown>[] };
+    if (!Array.isArray(notebook.cells)) return json;
+    for (const cell of notebook.cells) {
+      if ("outputs" in cell) cell.outputs = [];
+    }
+    return JSON.stringify(notebook);
+  } catch {
+    return json;
+  }
+}
+
+// Cell magics whose body is still Python
+const PYTHON_CELL_MAGICS = new Set(["time", "timeit", "capture", "prun", "python", "python3"]);
@@ -0,0 +1,29 @@
+import type { ParseCacheStore, ParsedModule } from "@/lib/types";
+import { createLruCache, jsonSize } from "@/lib/lru-cache";
+
+/**
+ * In-memory ParseCacheStore:
+ * - Least recently used entries are evicted beyond maxEntries, or beyond maxBytes of (approximate) module size.
+ * - Modules are kept as given; the parser copies them on the way in and out.
+ */
+export function createMemoryParseCache(maxEntries = 500, maxBytes = 64 * 1024 * 1024): ParseCacheStore {
+  const entries = createLruCache<ParsedModule>({ maxEntries, maxBytes, sizeOf: jsonSize });
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, mod) {
+      entries.set(key, mod);
+    },
+  };
+}
+
+export default createMemoryParseCache;
+
+/**
+ * Hex SHA-256 of a text (Web Crypto, available in the edge runtime and Node).
+ */
+export async function contentHash(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
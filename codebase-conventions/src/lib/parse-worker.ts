@@ -0,0 +1,16 @@
+import { parentPort } from "worker_threads";
+import { parseModuleJobs } from "@/lib/python-parser";
+import type { ParseJob } from "@/lib/python-parser";
+
+// Worker thread entry for parse-workers.ts, bundled to build/parse-worker.mjs by `npm run build:worker`:
+// parses one batch of files per message
+parentPort?.on("message", ({ id, jobs }: { id: number; jobs: ParseJob[] }) => {
+  try {
+    parentPort?.postMessage({ id, modules: parseModuleJobs(jobs) });
+  } catch (err) {
+    parentPort?.postMessage({ id, error: (err as Error).message || "parse worker failed" });
+  }
+});
+
+// The parser loaded: tells parse-workers.ts this worker can take batches
+parentPort?.postMessage({ ready: true });
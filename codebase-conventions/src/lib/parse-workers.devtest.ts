@@ -0,0 +1,88 @@
+/*
+  Ad-hoc dev test for the parse worker pool. Run with:
+    npm run devtest:workers
+  (builds the worker bundle first; the pool's workers run build/parse-worker.mjs)
+*/
+
+import { Worker } from "worker_threads";
+import { parsePythonFiles } from "./python-parser";
+import { createParseWorkerPool } from "./parse-workers";
+
+async function main() {
+  const files = Array.from({ length: 20 }, (_, i) => ({
+    name: `m${i}.py`,
+    path: `pkg/m${i}.py`,
+    content: `from pkg.m${(i + 1) % 20} import f${(i + 1) % 20}\n\ndef f${i}(x: int) -> int:\n    return f${(i + 1) % 20}(x)${"\n".repeat(i)}\n`,
+  }));
+  const expected = JSON.stringify(await parsePythonFiles(files, { cache: null }));
+
+  // Two workers regardless of the CPU count here, running the bundle that `npm run build:worker` writes
+  let batches = 0;
+  const parsedBatches = () => batches;
+  const pool = createParseWorkerPool(() => {
+    const worker = new Worker(new URL("../../build/parse-worker.mjs", import.meta.url));
+    worker.on("message", (msg: { modules?: unknown }) => void (msg.modules && batches++));
+    return worker;
+  }, 2);
+  assert(!pool.available(3) && !pool.available(files.length), "the pool is not available before it starts");
+  // The upload that starts the pool does not wait for it
+  assert(JSON.stringify(await pool.parse(files, { cache: null })) === expected && parsedBatches() === 0, "uploads parse on the calling thread while the pool starts");
+  assert(await pool.start(), "the worker bundle should load");
+  assert(pool.available(files.length) && !pool.available(3), "large uploads use the started pool, small ones stay on the calling thread");
+  assert(JSON.stringify(await pool.parse(files, { cache: null })) === expected, "pool results match the calling thread");
+  assert(parsedBatches() === 2, "both workers parsed a batch: " + parsedBatches());
+
+  // A small upload does not start the pool
+  let smallSpawned = 0;
+  const idle = createParseWorkerPool(() => {
+    smallSpawned++;
+    return new Worker("", { eval: true });
+  }, 2);
+  await idle.parse(files.slice(0, 3), { cache: null });
+  assert(!idle.available(3) && smallSpawned === 0, "small uploads do not start workers");
+
+  // A worker entry that cannot load: the pool never starts and every call parses on the calling thread
+  let spawned = 0;
+  const broken = createParseWorkerPool(() => {
+    spawned++;
+    return new Worker("throw new Error('cannot load parser')", { eval: true });
+  }, 2);
+  assert(!(await broken.start()), "a worker that fails to load does not start the pool");
+  assert(JSON.stringify(await broken.parse(files, { cache: null })) === expected, "fallback results match the calling thread");
+  assert(!broken.available(files.length) && spawned === 2, "a pool that failed to start is not rebuilt");
+
+  const missing = createParseWorkerPool(() => new Worker(new URL("./no-such-worker.mjs", import.meta.url)), 2);
+  assert(!(await missing.start()), "a missing worker bundle does not start the pool");
+  assert(JSON.stringify(await missing.parse(files, { cache: null })) === expected, "a missing bundle falls back to the calling thread");
+
+  const throwing = createParseWorkerPool(() => {
+    throw new Error("worker threads unavailable");
+  }, 2);
+  assert(!(await throwing.start()), "spawn errors do not start the pool");
+  assert(JSON.stringify(await throwing.parse(files, { cache: null })) === expected, "spawn errors fall back to the calling thread");
+
+  // A worker that starts but dies mid-batch: its files are parsed on the calling thread
+  const dying = createParseWorkerPool(
+    () =>
+      new Worker(
+        "const { parentPort } = require('worker_threads');\nparentPort.postMessage({ ready: true });\nparentPort.on('message', () => process.exit(3));",
+        { eval: true }
+      ),
+    2
+  );
+  assert(await dying.start(), "workers that report ready start the pool");
+  assert(JSON.stringify(await dying.parse(files, { cache: null })) === expected, "failed batches are parsed on the calling thread");
+
+  console.log("All dev assertions passed.");
+}
+
+function assert(cond: unknown, message: string): asserts cond {
+  if (!cond) {
+    throw new Error("Assertion failed: " + message);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,201 @@
+import { Worker } from "worker_threads";
+import { availableParallelism } from "os";
+import { parsePythonFilesWith, parseModuleJobs } from "@/lib/python-parser";
+import type { ParseJob } from "@/lib/python-parser";
+import type { UploadedFile, ParseOptions, ParseResult, ParsedModule } from "@/lib/types";
+
+/**
+ * Node-runtime parsing mode: files are spread across a pool of worker threads (parse-worker.ts).
+ * - Module names, caching, stub merging and cross-file diagnostics run on the calling thread, so the
+ *   result is identical to parsePythonFiles.
+ * - Files are balanced across workers by size; uploads under PARALLEL_MIN_FILES files are parsed on the
+ *   calling thread.
+ * - Never waits for workers: the first upload large enough for them starts the pool in the background and is
+ *   parsed on the calling thread, as are later ones until the workers have loaded.
+ * - Anything that goes wrong with a worker falls back to the calling thread: a pool that fails to start is not
+ *   retried, and a batch whose worker errors or exits is parsed here (the pool is discarded and rebuilt later).
+ * - The workers run build/parse-worker.mjs, a self-contained bundle of parse-worker.ts written by
+ *   `npm run build:worker` (run before `next dev` and `next build`). Without it the pool does not start.
+ */
+export async function parsePythonFilesInWorkers(files: UploadedFile[], options?: ParseOptions): Promise<ParseResult> {
+  return defaultPool.parse(files, options);
+}
+
+export default parsePythonFilesInWorkers;
+
+/**
+ * Whether an upload of `fileCount` files would be parsed on the worker pool right now. Never waits: an upload
+ * large enough for the pool starts it in the background, and this is false until its workers have loaded
+ * (always false with a single CPU or when the workers cannot start).
+ */
+export function workerParsingAvailable(fileCount: number): boolean {
+  return defaultPool.available(fileCount);
+}
+
+export interface ParseWorkerPool {
+  parse(files: UploadedFile[], options?: ParseOptions): Promise<ParseResult>;
+  available(fileCount: number): boolean;
+  start(): Promise<boolean>; // starts the workers if needed; resolves whether they loaded
+}
+
+/**
+ * A pool of `size` workers created by `spawn`; parsePythonFilesInWorkers uses one with a worker per CPU (up to 8).
+ */
+export function createParseWorkerPool(spawn: () => Worker = spawnParseWorker, size = defaultPoolSize()): ParseWorkerPool {
+  let pool: Worker[] | undefined;
+  let starting: Promise<Worker[] | undefined> | undefined;
+  let failedToStart = size < 2;
+
+  const start = (): Promise<Worker[] | undefined> => {
+    if (failedToStart) return Promise.resolve(undefined);
+    if (pool) return Promise.resolve(pool);
+    starting ??= Promise.all(Array.from({ length: size }, () => startWorker(spawn))).then((started) => {
+      starting = undefined;
+      const workers = started.filter((w): w is Worker => w !== undefined);
+      if (workers.length < size) {
+        failedToStart = true;
+        for (const worker of workers) void worker.terminate();
+        return undefined;
+      }
+      const discard = () => {
+        if (pool !== workers) return;
+        pool = undefined;
+        for (const worker of workers) void worker.terminate();
+      };
+      for (const worker of workers) {
+        worker.on("error", discard);
+        worker.on("exit", discard);
+      }
+      pool = workers;
+      return workers;
+    });
+    return starting;
+  };
+
+  const available = (fileCount: number): boolean => {
+    if (fileCount < PARALLEL_MIN_FILES) return false;
+    if (!pool) void start();
+    return pool !== undefined;
+  };
+
+  return {
+    parse: (files, options) =>
+      parsePythonFilesWith(files, options, async (jobs) => {
+        const workers = available(jobs.length) ? pool : undefined;
+        if (!workers) return parseModuleJobs(jobs);
+
+        const batches = balanceBatches(jobs, Math.min(workers.length, Math.ceil(jobs.length / MIN_FILES_PER_WORKER)));
+        const results = await Promise.all(
+          batches.map((batch, i) => {
+            const batchJobs = batch.map((b) => jobs[b]);
+            return runBatch(workers[i], batchJobs).catch(() => parseModuleJobs(batchJobs));
+          })
+        );
+        const modules: ParsedModule[] = new Array(jobs.length);
+        batches.forEach((batch, i) => batch.forEach((jobIndex, n) => (modules[jobIndex] = results[i][n])));
+        return modules;
+      }),
+    available,
+    start: async () => (await start()) !== undefined,
+  };
+}
+
+const MIN_FILES_PER_WORKER = 8;
+const PARALLEL_MIN_FILES = MIN_FILES_PER_WORKER * 2;
+const MAX_POOL_SIZE = 8;
+const WORKER_START_TIMEOUT_MS = 10_000;
+
+const defaultPool = createParseWorkerPool();
+
+let nextMessageId = 0;
+const pendingBatches = new Map<Worker, number>();
+
+function defaultPoolSize(): number {
+  return Math.min(MAX_POOL_SIZE, availableParallelism());
+}
+
+// Next copies the bundle next to the server chunks as an asset and points this URL at the copy
+function spawnParseWorker(): Worker {
+  return new Worker(new URL("../../build/parse-worker.mjs", import.meta.url));
+}
+
+// Resolves with the worker once it reports that the parser loaded; undefined if it cannot be created,
+// fails or exits first, or does not report in time
+function startWorker(spawn: () => Worker): Promise<Worker | undefined> {
+  let worker: Worker;
+  try {
+    worker = spawn();
+  } catch {
+    return Promise.resolve(undefined);
+  }
+  return new Promise((resolve) => {
+    const finish = (ready: boolean) => {
+      clearTimeout(timer);
+      worker.off("message", onMessage);
+      worker.off("error", onFailure);
+      worker.off("exit", onFailure);
+      if (ready) {
+        // Idle workers must not keep the process alive; runBatch holds a reference while a batch is pending
+        worker.unref();
+        resolve(worker);
+      } else {
+        void worker.terminate();
+        resolve(undefined);
+      }
+    };
+    const onMessage = (msg: { ready?: boolean }) => {
+      if (msg.ready) finish(true);
+    };
+    const onFailure = () => finish(false);
+    const timer = setTimeout(onFailure, WORKER_START_TIMEOUT_MS);
+    worker.on("message", onMessage);
+    worker.on("error", onFailure);
+    worker.on("exit", onFailure);
+  });
+}
+
+function runBatch(worker: Worker, jobs: ParseJob[]): Promise<ParsedModule[]> {
+  const id = nextMessageId++;
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      const pending = (pendingBatches.get(worker) ?? 1) - 1;
+      pendingBatches.set(worker, pending);
+      if (pending === 0) worker.unref();
+      worker.off("message", onMessage);
+      worker.off("error", onError);
+      worker.off("exit", onExit);
+    };
+    const onMessage = (msg: { id: number; modules?: ParsedModule[]; error?: string }) => {
+      if (msg.id !== id) return;
+      cleanup();
+      if (msg.modules) resolve(msg.modules);
+      else reject(new Error(msg.error ?? "parse worker failed"));
+    };
+    const onError = (err: Error) => {
+      cleanup();
+      reject(err);
+    };
+    const onExit = (code: number) => {
+      cleanup();
+      reject(new Error(`parse worker exited with code ${code}`));
+    };
+    worker.on("message", onMessage);
+    worker.on("error", onError);
+    worker.on("exit", onExit);
+    pendingBatches.set(worker, (pendingBatches.get(worker) ?? 0) + 1);
+    worker.ref();
+    worker.postMessage({ id, jobs });
+  });
+}
+
+// Job indexes per batch: largest files first, each to the batch with the least content so far
+function balanceBatches(jobs: ParseJob[], count: number): number[][] {
+  const batches = Array.from({ length: count }, () => ({ indexes: [] as number[], size: 0 }));
+  const bySize = jobs.map((_, i) => i).sort((a, b) => jobs[b].file.content.length - jobs[a].file.content.length);
+  for (const i of bySize) {
+    const smallest = batches.reduce((min, batch) => (batch.size < min.size ? batch : min));
+    smallest.indexes.push(i);
+    smallest.size += jobs[i].file.content.length;
+  }
+  return batches.map((batch) => batch.indexes.sort((a, b) => a - b));
+}
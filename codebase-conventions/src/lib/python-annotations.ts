@@ -0,0 +1,111 @@
+import type { ParsedType, ParsedTypeCoverage, ParsedParameter, GenericOrigin, UnionSyntax } from "@/lib/types";
+import { parsePythonModule, dottedName } from "@/lib/python-ast";
+import type { PyExpr } from "@/lib/python-ast";
+
+/**
+ * Structured form of an annotation expression; `textOf` gives the source text of a sub-expression.
+ * - `X | Y`, `Union[X, Y]` and `Optional[X]` become flat unions tagged with the syntax used.
+ * - Subscripted names become generics; `List`/`Dict`/... written bare or through `typing` are typing aliases,
+ *   `list`/`dict`/... builtins (PEP 585).
+ * - String annotations are forward references, parsed when the string holds a single expression.
+ */
+export function parseAnnotation(expr: PyExpr, textOf: (expr: PyExpr) => string): ParsedType {
+  switch (expr.kind) {
+    case "Name":
+    case "Attribute": {
+      const name = dottedName(expr);
+      return name ? { kind: "name", name } : { kind: "unknown", text: textOf(expr) };
+    }
+    case "Constant":
+      if (expr.valueKind === "None") return { kind: "name", name: "None" };
+      if (expr.valueKind === "str" && !expr.isFString) return forwardRef(expr.value ?? "");
+      return { kind: "literal", text: expr.raw };
+    case "BinOp":
+      if (expr.op !== "|") break;
+      return { kind: "union", syntax: "pep604", members: [expr.left, expr.right].flatMap((e) => unionMembers(parseAnnotation(e, textOf), "pep604")) };
+    case "List":
+      return { kind: "list", items: expr.elts.map((e) => parseAnnotation(e, textOf)) };
+    case "Subscript": {
+      const name = dottedName(expr.value);
+      if (!name) break;
+      const argExprs = expr.slice.kind === "Tuple" ? expr.slice.elts : [expr.slice];
+      const base = name.split(".").pop() ?? name;
+      if (base === "Literal") return { kind: "generic", name, origin: "other", args: argExprs.map((e) => ({ kind: "literal", text: textOf(e) })) };
+      const args = argExprs.map((e) => parseAnnotation(e, textOf));
+      if (base === "Union") return { kind: "union", syntax: "union", members: args.flatMap((a) => unionMembers(a, "union")) };
+      if (base === "Optional" && args.length === 1) {
+        return { kind: "union", syntax: "optional", members: [args[0], { kind: "name", name: "None" }] };
+      }
+      return { kind: "generic", name, origin: genericOrigin(name), args };
+    }
+  }
+  return { kind: "unknown", text: textOf(expr) };
+}
+
+export default parseAnnotation;
+
+/**
+ * Annotation coverage and style counts of a signature; a leading `self`/`cls` is not annotatable.
+ */
+export function typeCoverage(parameters: ParsedParameter[], returnType: ParsedType | undefined): ParsedTypeCoverage {
+  const annotatable = parameters.filter((p, i) => !(i === 0 && (p.name === "self" || p.name === "cls")));
+  const coverage: ParsedTypeCoverage = {
+    annotatableParams: annotatable.length,
+    annotatedParams: annotatable.filter((p) => p.annotationType).length,
+    returnAnnotated: returnType !== undefined,
+    pep604Unions: 0,
+    typingUnions: 0,
+    builtinGenerics: 0,
+    typingGenerics: 0,
+    forwardRefs: 0,
+    anys: 0,
+  };
+  const visit = (t: ParsedType) => {
+    if (t.kind === "union") {
+      if (t.syntax === "pep604") coverage.pep604Unions++;
+      else coverage.typingUnions++;
+      t.members.forEach(visit);
+    } else if (t.kind === "generic") {
+      if (t.origin === "builtin") coverage.builtinGenerics++;
+      else if (t.origin === "typing") coverage.typingGenerics++;
+      t.args.forEach(visit);
+    } else if (t.kind === "forward-ref") {
+      coverage.forwardRefs++;
+      if (t.type) visit(t.type);
+    } else if (t.kind === "list") {
+      t.items.forEach(visit);
+    } else if (t.kind === "name" && (t.name === "Any" || t.name.endsWith(".Any"))) {
+      coverage.anys++;
+    }
+  };
+  for (const p of parameters) if (p.annotationType) visit(p.annotationType);
+  if (returnType) visit(returnType);
+  return coverage;
+}
+
+const BUILTIN_GENERICS = new Set(["list", "dict", "set", "frozenset", "tuple", "type"]);
+// typing aliases deprecated by PEP 585 in favour of builtins and collections classes
+const TYPING_ALIASES = new Set(["List", "Dict", "Set", "FrozenSet", "Tuple", "Type", "DefaultDict", "OrderedDict", "Deque", "Counter", "ChainMap"]);
+
+function genericOrigin(name: string): GenericOrigin {
+  const parts = name.split(".");
+  const base = parts[parts.length - 1];
+  if (parts.length === 1 && BUILTIN_GENERICS.has(base)) return "builtin";
+  if (TYPING_ALIASES.has(base) && (parts.length === 1 || /^(typing|typing_extensions|t)$/.test(parts[0]))) return "typing";
+  return "other";
+}
+
+// Members of a union nested in a union written the same way (`A | (B | C)`); other types are one member
+function unionMembers(t: ParsedType, syntax: UnionSyntax): ParsedType[] {
+  return t.kind === "union" && t.syntax === syntax ? t.members : [t];
+}
+
+function forwardRef(text: string): ParsedType {
+  const tree = parsePythonModule(text.trim());
+  const stmt = tree.body[0];
+  const parsed =
+    tree.errors.length === 0 && tree.body.length === 1 && stmt.kind === "Expr"
+      ? parseAnnotation(stmt.value, (e) => text.trim().slice(e.start, e.end))
+      : undefined;
+  return { kind: "forward-ref", text, type: parsed };
+}
@@ -0,0 +1,1766 @@
+import { tokenizePython, fStringExpressionRanges, normalizeSource } from "@/lib/python-tokenizer";
+import type { PyToken } from "@/lib/python-tokenizer";
+
+/**
+ * Python syntax tree and a recursive-descent parser over `tokenizePython` output.
+ * - Node kinds follow CPython's `ast` module names (FunctionDef, Call, Attribute, ...).
+ * - Every node carries its source span (offsets plus 1-based line/column).
+ * - Statements that fail to parse are skipped and reported in `PyModule.errors`.
+ */
+
+export interface PySpan {
+  start: number; // offset into the normalized source
+  end: number; // exclusive offset
+  line: number; // 1-based
+  column: number; // 1-based
+  endLine: number;
+  endColumn: number; // 1-based, exclusive
+}
+
+// ------------------------------
+// Expressions
+// ------------------------------
+
+export interface PyName extends PySpan {
+  kind: "Name";
+  id: string;
+}
+
+export interface PyConstant extends PySpan {
+  kind: "Constant";
+  valueKind: "str" | "bytes" | "number" | "bool" | "None" | "Ellipsis";
+  raw: string; // source text, adjacent string literals included
+  value?: string; // decoded value for str/bytes literals
+  isFString?: boolean;
+  fields?: PyExpr[]; // expressions of f-string replacement fields, with spans in the enclosing source
+}
+
+export interface PyAttribute extends PySpan {
+  kind: "Attribute";
+  value: PyExpr;
+  attr: string;
+  attrLine: number;
+  attrColumn: number;
+}
+
+export interface PySubscript extends PySpan {
+  kind: "Subscript";
+  value: PyExpr;
+  slice: PyExpr;
+}
+
+export interface PySlice extends PySpan {
+  kind: "Slice";
+  lower?: PyExpr;
+  upper?: PyExpr;
+  step?: PyExpr;
+}
+
+export interface PyKeyword extends PySpan {
+  kind: "keyword";
+  arg?: string; // undefined for **kwargs
+  value: PyExpr;
+}
+
+export interface PyCall extends PySpan {
+  kind: "Call";
+  func: PyExpr;
+  args: PyExpr[];
+  keywords: PyKeyword[];
+}
+
+export interface PyStarred extends PySpan {
+  kind: "Starred";
+  value: PyExpr;
+}
+
+export interface PySequence extends PySpan {
+  kind: "Tuple" | "List" | "Set";
+  elts: PyExpr[];
+}
+
+export interface PyDict extends PySpan {
+  kind: "Dict";
+  keys: (PyExpr | undefined)[]; // undefined for **mapping entries
+  values: PyExpr[];
+}
+
+export interface PyComprehensionClause extends PySpan {
+  kind: "comprehension";
+  target: PyExpr;
+  iter: PyExpr;
+  ifs: PyExpr[];
+  isAsync: boolean;
+}
+
+export interface PyComprehension extends PySpan {
+  kind: "ListComp" | "SetComp" | "GeneratorExp" | "DictComp";
+  elt: PyExpr; // key for DictComp
+  value?: PyExpr; // DictComp only
+  generators: PyComprehensionClause[];
+}
+
+export interface PyBoolOp extends PySpan {
+  kind: "BoolOp";
+  op: "and" | "or";
+  values: PyExpr[];
+}
+
+export interface PyBinOp extends PySpan {
+  kind: "BinOp";
+  left: PyExpr;
+  op: string;
+  right: PyExpr;
+}
+
+export interface PyUnaryOp extends PySpan {
+  kind: "UnaryOp";
+  op: string;
+  operand: PyExpr;
+}
+
+export interface PyCompare extends PySpan {
+  kind: "Compare";
+  left: PyExpr;
+  ops: string[];
+  comparators: PyExpr[];
+}
+
+export interface PyLambda extends PySpan {
+  kind: "Lambda";
+  args: PyArguments;
+  body: PyExpr;
+}
+
+export interface PyIfExp extends PySpan {
+  kind: "IfExp";
+  test: PyExpr;
+  body: PyExpr;
+  orelse: PyExpr;
+}
+
+export interface PyNamedExpr extends PySpan {
+  kind: "NamedExpr";
+  target: PyName;
+  value: PyExpr;
+}
+
+export interface PyAwait extends PySpan {
+  kind: "Await";
+  value: PyExpr;
+}
+
+export interface PyYield extends PySpan {
+  kind: "Yield" | "YieldFrom";
+  value?: PyExpr;
+}
+
+export interface PyMatchAs extends PySpan {
+  kind: "MatchAs";
+  pattern: PyExpr;
+  name: string;
+}
+
+export type PyExpr =
+  | PyName
+  | PyConstant
+  | PyAttribute
+  | PySubscript
+  | PySlice
+  | PyCall
+  | PyStarred
+  | PySequence
+  | PyDict
+  | PyComprehension
+  | PyBoolOp
+  | PyBinOp
+  | PyUnaryOp
+  | PyCompare
+  | PyLambda
+  | PyIfExp
+  | PyNamedExpr
+  | PyAwait
+  | PyYield
+  | PyMatchAs;
+
+// ------------------------------
+// Statements
+// ------------------------------
+
+export type PyParamKind =
+  | "positional-only"
+  | "positional-or-keyword"
+  | "var-positional"
+  | "keyword-only"
+  | "var-keyword";
+
+export interface PyArg extends PySpan {
+  kind: "arg";
+  name: string;
+  paramKind: PyParamKind;
+  annotation?: PyExpr;
+  default?: PyExpr;
+}
+
+export interface PyArguments extends PySpan {
+  kind: "arguments";
+  params: PyArg[];
+  slashIndex?: number; // number of params before a "/" marker
+  starIndex?: number; // number of params before a bare "*" marker
+}
+
+export interface PyTypeParam extends PySpan {
+  kind: "TypeVar" | "ParamSpec" | "TypeVarTuple";
+  name: string;
+  bound?: PyExpr;
+  default?: PyExpr;
+}
+
+export interface PyFunctionDef extends PySpan {
+  kind: "FunctionDef";
+  name: string;
+  args: PyArguments;
+  returns?: PyExpr;
+  decorators: PyExpr[];
+  typeParams: PyTypeParam[];
+  body: PyStmt[];
+  isAsync: boolean;
+}
+
+export interface PyClassDef extends PySpan {
+  kind: "ClassDef";
+  name: string;
+  bases: PyExpr[];
+  keywords: PyKeyword[];
+  decorators: PyExpr[];
+  typeParams: PyTypeParam[];
+  body: PyStmt[];
+}
+
+export interface PyReturn extends PySpan {
+  kind: "Return";
+  value?: PyExpr;
+}
+
+export interface PyDelete extends PySpan {
+  kind: "Delete";
+  targets: PyExpr[];
+}
+
+export interface PyAssign extends PySpan {
+  kind: "Assign";
+  targets: PyExpr[];
+  value: PyExpr;
+}
+
+export interface PyAugAssign extends PySpan {
+  kind: "AugAssign";
+  target: PyExpr;
+  op: string;
+  value: PyExpr;
+}
+
+export interface PyAnnAssign extends PySpan {
+  kind: "AnnAssign";
+  target: PyExpr;
+  annotation: PyExpr;
+  value?: PyExpr;
+}
+
+export interface PyFor extends PySpan {
+  kind: "For";
+  target: PyExpr;
+  iter: PyExpr;
+  body: PyStmt[];
+  orelse: PyStmt[];
+  isAsync: boolean;
+}
+
+export interface PyWhile extends PySpan {
+  kind: "While";
+  test: PyExpr;
+  body: PyStmt[];
+  orelse: PyStmt[];
+}
+
+export interface PyIf extends PySpan {
+  kind: "If";
+  test: PyExpr;
+  body: PyStmt[];
+  orelse: PyStmt[]; // `elif` is a nested If
+}
+
+export interface PyWithItem extends PySpan {
+  kind: "withitem";
+  contextExpr: PyExpr;
+  optionalVars?: PyExpr;
+}
+
+export interface PyWith extends PySpan {
+  kind: "With";
+  items: PyWithItem[];
+  body: PyStmt[];
+  isAsync: boolean;
+}
+
+export interface PyMatchCase extends PySpan {
+  kind: "match_case";
+  pattern: PyExpr;
+  guard?: PyExpr;
+  body: PyStmt[];
+}
+
+export interface PyMatch extends PySpan {
+  kind: "Match";
+  subject: PyExpr;
+  cases: PyMatchCase[];
+}
+
+export interface PyRaise extends PySpan {
+  kind: "Raise";
+  exc?: PyExpr;
+  cause?: PyExpr;
+}
+
+export interface PyExceptHandler extends PySpan {
+  kind: "ExceptHandler";
+  type?: PyExpr;
+  name?: string;
+  body: PyStmt[];
+}
+
+export interface PyTry extends PySpan {
+  kind: "Try";
+  body: PyStmt[];
+  handlers: PyExceptHandler[];
+  orelse: PyStmt[];
+  finalbody: PyStmt[];
+  isStar: boolean; // except* (PEP 654)
+}
+
+export interface PyAssert extends PySpan {
+  kind: "Assert";
+  test: PyExpr;
+  msg?: PyExpr;
+}
+
+export interface PyAlias extends PySpan {
+  kind: "alias";
+  name: string; // dotted name or "*"
+  asname?: string;
+}
+
+export interface PyImport extends PySpan {
+  kind: "Import";
+  names: PyAlias[];
+}
+
+export interface PyImportFrom extends PySpan {
+  kind: "ImportFrom";
+  module?: string; // undefined for `from . import x`
+  names: PyAlias[];
+  level: number; // number of leading dots
+}
+
+export interface PyGlobal extends PySpan {
+  kind: "Global" | "Nonlocal";
+  names: string[];
+}
+
+export interface PyExprStmt extends PySpan {
+  kind: "Expr";
+  value: PyExpr;
+}
+
+export interface PySimpleStmt extends PySpan {
+  kind: "Pass" | "Break" | "Continue";
+}
+
+export interface PyTypeAlias extends PySpan {
+  kind: "TypeAlias";
+  name: PyName;
+  typeParams: PyTypeParam[];
+  value: PyExpr;
+}
+
+export type PyStmt =
+  | PyFunctionDef
+  | PyClassDef
+  | PyReturn
+  | PyDelete
+  | PyAssign
+  | PyAugAssign
+  | PyAnnAssign
+  | PyFor
+  | PyWhile
+  | PyIf
+  | PyWith
+  | PyMatch
+  | PyRaise
+  | PyTry
+  | PyAssert
+  | PyImport
+  | PyImportFrom
+  | PyGlobal
+  | PyExprStmt
+  | PySimpleStmt
+  | PyTypeAlias;
+
+export type PyNode =
+  | PyExpr
+  | PyStmt
+  | PyKeyword
+  | PyComprehensionClause
+  | PyArg
+  | PyArguments
+  | PyTypeParam
+  | PyWithItem
+  | PyMatchCase
+  | PyExceptHandler
+  | PyAlias;
+
+export interface PySyntaxError {
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface PyModule {
+  kind: "Module";
+  body: PyStmt[];
+  comments: PyToken[]; // COMMENT tokens in source order
+  errors: PySyntaxError[]; // tokenizer and parser errors
+}
+
+// ------------------------------
+// Traversal helpers
+// ------------------------------
+
+/**
+ * Direct child nodes of a syntax node, in source order of their fields.
+ */
+export function childNodes(node: PyNode): PyNode[] {
+  const out: PyNode[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key === "kind") continue;
+    if (Array.isArray(value)) {
+      for (const v of value) if (isPyNode(v)) out.push(v);
+    } else if (isPyNode(value)) {
+      out.push(value);
+    }
+  }
+  return out;
+}
+
+/**
+ * Depth-first pre-order walk. Returning false from `visit` skips the node's children.
+ */
+export function walkPy(node: PyNode, visit: (node: PyNode) => boolean | void): void {
+  if (visit(node) === false) return;
+  for (const child of childNodes(node)) walkPy(child, visit);
+}
+
+function isPyNode(v: unknown): v is PyNode {
+  return typeof v === "object" && v !== null && typeof (v as { kind?: unknown }).kind === "string";
+}
+
+/**
+ * Dotted name for Name/Attribute chains (e.g. `os.path.join`), otherwise undefined.
+ */
+export function dottedName(expr: PyExpr): string | undefined {
+  if (expr.kind === "Name") return expr.id;
+  if (expr.kind === "Attribute") {
+    const base = dottedName(expr.value);
+    return base ? `${base}.${expr.attr}` : undefined;
+  }
+  return undefined;
+}
+
+// ------------------------------
+// Parser
+// ------------------------------
+
+const HARD_KEYWORDS = new Set([
+  "False", "None", "True", "and", "as", "assert", "async", "await", "break", "class", "continue",
+  "def", "del", "elif", "else", "except", "finally", "for", "from", "global", "if", "import",
+  "in", "is", "lambda", "nonlocal", "not", "or", "pass", "raise", "return", "try", "while",
+  "with", "yield",
+]);
+
+const AUGMENTED_ASSIGN_OPS = new Set(["+=", "-=", "*=", "/=", "//=", "%=", "@=", "&=", "|=", "^=", ">>=", "<<=", "**="]);
+
+const COMPARISON_OPS = new Set(["==", "!=", "<", "<=", ">", ">="]);
+
+class PyParseError extends Error {
+  constructor(message: string, readonly token: PyToken) {
+    super(message);
+  }
+}
+
+type SpanStart = Pick<PySpan, "start" | "line" | "column">;
+
+export function parsePythonModule(source: string): PyModule {
+  const src = normalizeSource(source);
+  const { tokens: allTokens, errors: tokenErrors } = tokenizePython(src);
+  const comments = allTokens.filter((t) => t.type === "COMMENT");
+  const tokens = allTokens.filter((t) => t.type !== "COMMENT" && t.type !== "NL");
+  const errors: PySyntaxError[] = tokenErrors.map((e) => ({ ...e }));
+  let pos = 0;
+
+  const body = parseStatements(() => at("ENDMARKER"));
+  return { kind: "Module", body, comments, errors };
+
+  // ---- token helpers ----
+
+  function peek(offset = 0): PyToken {
+    return tokens[Math.min(pos + offset, tokens.length - 1)];
+  }
+
+  function next(): PyToken {
+    const tok = peek();
+    if (pos < tokens.length - 1) pos++;
+    return tok;
+  }
+
+  function at(type: PyToken["type"], value?: string, offset = 0): boolean {
+    const tok = peek(offset);
+    return tok.type === type && (value === undefined || tok.value === value);
+  }
+
+  function atOp(value: string, offset = 0): boolean {
+    return at("OP", value, offset);
+  }
+
+  function atKw(value: string, offset = 0): boolean {
+    return at("NAME", value, offset);
+  }
+
+  function expectOp(value: string): PyToken {
+    if (!atOp(value)) fail(`expected '${value}'`);
+    return next();
+  }
+
+  function expectKw(value: string): PyToken {
+    if (!atKw(value)) fail(`expected '${value}'`);
+    return next();
+  }
+
+  function expectName(): PyToken {
+    const tok = peek();
+    if (tok.type !== "NAME" || HARD_KEYWORDS.has(tok.value)) fail("expected identifier");
+    return next();
+  }
+
+  function expectType(type: PyToken["type"]): PyToken {
+    if (!at(type)) fail(`expected ${type}`);
+    return next();
+  }
+
+  function fail(message: string): never {
+    const tok = peek();
+    const found = tok.type === "NEWLINE" ? "end of line" : tok.type === "ENDMARKER" ? "end of file" : `'${tok.value}'`;
+    throw new PyParseError(`${message}, found ${found}`, tok);
+  }
+
+  function finish<T extends object>(startAt: SpanStart, fields: T): T & PySpan {
+    // Spans end at the last consumed token with text (not NEWLINE/INDENT/DEDENT)
+    let i = Math.max(0, pos - 1);
+    while (i > 0 && tokens[i].value.trim() === "") i--;
+    const last = tokens[i];
+    return {
+      ...fields,
+      start: startAt.start,
+      line: startAt.line,
+      column: startAt.column,
+      end: last.end,
+      endLine: last.endLine,
+      endColumn: last.endColumn,
+    };
+  }
+
+  // ---- statements ----
+
+  function parseStatements(done: () => boolean): PyStmt[] {
+    const out: PyStmt[] = [];
+    while (!done() && !at("ENDMARKER")) {
+      const startPos = pos;
+      try {
+        if (at("NEWLINE")) {
+          next();
+          continue;
+        }
+        if (at("INDENT")) {
+          fail("unexpected indent");
+        }
+        if (at("DEDENT")) {
+          next();
+          continue;
+        }
+        out.push(...parseStatement());
+      } catch (err) {
+        if (!(err instanceof PyParseError)) throw err;
+        errors.push({ message: err.message, line: err.token.line, column: err.token.column });
+        recover(startPos);
+      }
+    }
+    return out;
+  }
+
+  // Skip the rest of the logical line and any block that hangs off it
+  function recover(startPos: number) {
+    if (pos === startPos && !at("NEWLINE") && !at("INDENT") && !at("DEDENT")) next();
+    while (!at("NEWLINE") && !at("ENDMARKER") && !at("INDENT") && !at("DEDENT")) next();
+    if (at("NEWLINE")) next();
+    if (at("INDENT")) {
+      next();
+      parseStatements(() => at("DEDENT"));
+      if (at("DEDENT")) next();
+    }
+  }
+
+  function parseBlock(): PyStmt[] {
+    expectOp(":");
+    if (!at("NEWLINE")) return parseSimpleStatements();
+    next();
+    expectType("INDENT");
+    const stmts = parseStatements(() => at("DEDENT"));
+    if (at("DEDENT")) next();
+    return stmts;
+  }
+
+  function parseStatement(): PyStmt[] {
+    const tok = peek();
+    if (tok.type === "OP" && tok.value === "@") return [parseDecorated()];
+    if (tok.type === "NAME") {
+      switch (tok.value) {
+        case "def":
+          return [parseFunctionDef(tok, [], false)];
+        case "class":
+          return [parseClassDef(tok, [])];
+        case "if":
+          return [parseIf()];
+        case "while":
+          return [parseWhile()];
+        case "for":
+          return [parseFor(tok, false)];
+        case "try":
+          return [parseTry()];
+        case "with":
+          return [parseWith(tok, false)];
+        case "async":
+          return [parseAsync()];
+        case "match": {
+          const match = tryParseMatch();
+          if (match) return [match];
+          break;
+        }
+      }
+    }
+    return parseSimpleStatements();
+  }
+
+  function parseAsync(): PyStmt {
+    const start = expectKw("async");
+    if (atKw("def")) return parseFunctionDef(start, [], true);
+    if (atKw("for")) return parseFor(start, true);
+    if (atKw("with")) return parseWith(start, true);
+    return fail("expected 'def', 'for' or 'with' after 'async'");
+  }
+
+  function parseDecorated(): PyStmt {
+    const decorators: PyExpr[] = [];
+    while (atOp("@")) {
+      next();
+      decorators.push(parseNamedExpression());
+      expectType("NEWLINE");
+    }
+    const tok = peek();
+    if (atKw("def")) return parseFunctionDef(tok, decorators, false);
+    if (atKw("class")) return parseClassDef(tok, decorators);
+    if (atKw("async") && atKw("def", 1)) {
+      next();
+      return parseFunctionDef(tok, decorators, true);
+    }
+    return fail("expected function or class definition after decorator");
+  }
+
+  function parseFunctionDef(start: SpanStart, decorators: PyExpr[], isAsync: boolean): PyFunctionDef {
+    expectKw("def");
+    const name = expectName().value;
+    const typeParams = parseTypeParams();
+    const argsStart = expectOp("(");
+    const args = parseParameters(")", true, argsStart);
+    expectOp(")");
+    let returns: PyExpr | undefined;
+    if (atOp("->")) {
+      next();
+      returns = parseExpression();
+    }
+    const body = parseBlock();
+    return finish(start, { kind: "FunctionDef" as const, name, args, returns, decorators, typeParams, body, isAsync });
+  }
+
+  function parseClassDef(start: SpanStart, decorators: PyExpr[]): PyClassDef {
+    expectKw("class");
+    const name = expectName().value;
+    const typeParams = parseTypeParams();
+    let bases: PyExpr[] = [];
+    let keywords: PyKeyword[] = [];
+    if (atOp("(")) {
+      next();
+      ({ args: bases, keywords } = parseCallArguments());
+      expectOp(")");
+    }
+    const body = parseBlock();
+    return finish(start, { kind: "ClassDef" as const, name, bases, keywords, decorators, typeParams, body });
+  }
+
+  function parseTypeParams(): PyTypeParam[] {
+    const params: PyTypeParam[] = [];
+    if (!atOp("[")) return params;
+    next();
+    while (!atOp("]")) {
+      const start = peek();
+      let kind: PyTypeParam["kind"] = "TypeVar";
+      if (atOp("*")) {
+        next();
+        kind = "TypeVarTuple";
+      } else if (atOp("**")) {
+        next();
+        kind = "ParamSpec";
+      }
+      const name = expectName().value;
+      let bound: PyExpr | undefined;
+      let dflt: PyExpr | undefined;
+      if (kind === "TypeVar" && atOp(":")) {
+        next();
+        bound = parseExpression();
+      }
+      if (atOp("=")) {
+        next();
+        dflt = parseExpression();
+      }
+      params.push(finish(start, { kind, name, bound, default: dflt }));
+      if (!atOp(",")) break;
+      next();
+    }
+    expectOp("]");
+    return params;
+  }
+
+  function parseParameters(closing: string, allowAnnotations: boolean, start: SpanStart): PyArguments {
+    const params: PyArg[] = [];
+    let slashIndex: number | undefined;
+    let starIndex: number | undefined;
+    let keywordOnly = false;
+    const argsStart: SpanStart = { start: peek().start, line: peek().line, column: peek().column };
+
+    while (!atOp(closing)) {
+      const tok = peek();
+      if (atOp("/")) {
+        next();
+        slashIndex = params.length;
+        for (const p of params) p.paramKind = "positional-only";
+      } else if (atOp("*") || atOp("**")) {
+        const star = next().value;
+        if (star === "*" && (atOp(",") || atOp(closing))) {
+          starIndex = params.length;
+        } else {
+          const name = expectName().value;
+          let annotation: PyExpr | undefined;
+          if (allowAnnotations && atOp(":")) {
+            next();
+            annotation = atOp("*") ? parseStarExpression() : parseExpression();
+          }
+          const paramKind: PyParamKind = star === "*" ? "var-positional" : "var-keyword";
+          params.push(finish(tok, { kind: "arg" as const, name, paramKind, annotation }));
+        }
+        keywordOnly = true;
+      } else {
+        const name = expectName().value;
+        let annotation: PyExpr | undefined;
+        let dflt: PyExpr | undefined;
+        if (allowAnnotations && atOp(":")) {
+          next();
+          annotation = parseExpression();
+        }
+        if (atOp("=")) {
+          next();
+          dflt = parseExpression();
+        }
+        const paramKind: PyParamKind = keywordOnly ? "keyword-only" : "positional-or-keyword";
+        params.push(finish(tok, { kind: "arg" as const, name, paramKind, annotation, default: dflt }));
+      }
+      if (!atOp(",")) break;
+      next();
+    }
+    const spanStart = params.length > 0 || slashIndex !== undefined || starIndex !== undefined ? argsStart : start;
+    return finish(spanStart, { kind: "arguments" as const, params, slashIndex, starIndex });
+  }
+
+  function parseIf(): PyIf {
+    const start = next(); // if / elif
+    const test = parseNamedExpression();
+    const body = parseBlock();
+    let orelse: PyStmt[] = [];
+    if (atKw("elif")) {
+      orelse = [parseIf()];
+    } else if (atKw("else")) {
+      next();
+      orelse = parseBlock();
+    }
+    return finish(start, { kind: "If" as const, test, body, orelse });
+  }
+
+  function parseWhile(): PyWhile {
+    const start = expectKw("while");
+    const test = parseNamedExpression();
+    const body = parseBlock();
+    const orelse = parseElse();
+    return finish(start, { kind: "While" as const, test, body, orelse });
+  }
+
+  function parseFor(start: SpanStart, isAsync: boolean): PyFor {
+    expectKw("for");
+    const target = parseTargetList();
+    expectKw("in");
+    const iter = parseStarExpressions();
+    const body = parseBlock();
+    const orelse = parseElse();
+    return finish(start, { kind: "For" as const, target, iter, body, orelse, isAsync });
+  }
+
+  function parseElse(): PyStmt[] {
+    if (!atKw("else")) return [];
+    next();
+    return parseBlock();
+  }
+
+  function parseTry(): PyTry {
+    const start = expectKw("try");
+    const body = parseBlock();
+    const handlers: PyExceptHandler[] = [];
+    let isStar = false;
+    while (atKw("except")) {
+      const hStart = next();
+      if (atOp("*")) {
+        next();
+        isStar = true;
+      }
+      let type: PyExpr | undefined;
+      let name: string | undefined;
+      if (!atOp(":")) {
+        type = parseExpression();
+        if (atOp(",")) {
+          // Python 3.14 allows unparenthesized exception lists
+          const elts = [type];
+          while (atOp(",")) {
+            next();
+            elts.push(parseExpression());
+          }
+          type = finish(type, { kind: "Tuple" as const, elts });
+        }
+        if (atKw("as")) {
+          next();
+          name = expectName().value;
+        }
+      }
+      const hBody = parseBlock();
+      handlers.push(finish(hStart, { kind: "ExceptHandler" as const, type, name, body: hBody }));
+    }
+    const orelse = parseElse();
+    let finalbody: PyStmt[] = [];
+    if (atKw("finally")) {
+      next();
+      finalbody = parseBlock();
+    }
+    if (handlers.length === 0 && finalbody.length === 0) fail("expected 'except' or 'finally' block");
+    return finish(start, { kind: "Try" as const, body, handlers, orelse, finalbody, isStar });
+  }
+
+  function parseWith(start: SpanStart, isAsync: boolean): PyWith {
+    expectKw("with");
+    let items: PyWithItem[] | undefined;
+    if (atOp("(")) {
+      // Parenthesized context managers; fall back to an ordinary expression on mismatch
+      const saved = pos;
+      try {
+        next();
+        items = [];
+        while (!atOp(")")) {
+          items.push(parseWithItem());
+          if (!atOp(",")) break;
+          next();
+        }
+        expectOp(")");
+        if (!atOp(":")) throw new PyParseError("not a parenthesized with", peek());
+      } catch (err) {
+        if (!(err instanceof PyParseError)) throw err;
+        pos = saved;
+        items = undefined;
+      }
+    }
+    if (!items) {
+      items = [parseWithItem()];
+      while (atOp(",")) {
+        next();
+        items.push(parseWithItem());
+      }
+    }
+    const body = parseBlock();
+    return finish(start, { kind: "With" as const, items, body, isAsync });
+  }
+
+  function parseWithItem(): PyWithItem {
+    const start = peek();
+    const contextExpr = parseExpression();
+    let optionalVars: PyExpr | undefined;
+    if (atKw("as")) {
+      next();
+      optionalVars = parseStarTarget();
+    }
+    return finish(start, { kind: "withitem" as const, contextExpr, optionalVars });
+  }
+
+  function tryParseMatch(): PyMatch | undefined {
+    const saved = pos;
+    const start = next();
+    let subject: PyExpr;
+    try {
+      subject = parseStarNamedExpressions();
+      expectOp(":");
+      expectType("NEWLINE");
+      expectType("INDENT");
+      if (!atKw("case")) fail("expected 'case'");
+    } catch (err) {
+      if (!(err instanceof PyParseError)) throw err;
+      pos = saved;
+      return undefined;
+    }
+    const cases: PyMatchCase[] = [];
+    while (atKw("case")) {
+      const cStart = next();
+      const pattern = parsePatterns();
+      let guard: PyExpr | undefined;
+      if (atKw("if")) {
+        next();
+        guard = parseNamedExpression();
+      }
+      const body = parseBlock();
+      cases.push(finish(cStart, { kind: "match_case" as const, pattern, guard, body }));
+    }
+    if (at("DEDENT")) next();
+    else fail("expected 'case'");
+    return finish(start, { kind: "Match" as const, subject, cases });
+  }
+
+  // Patterns reuse the expression grammar; `as` captures become MatchAs nodes
+  function parsePatterns(): PyExpr {
+    const start = peek();
+    const first = parsePattern();
+    if (!atOp(",")) return first;
+    const elts = [first];
+    while (atOp(",")) {
+      next();
+      if (atOp(":") || atKw("if")) break;
+      elts.push(parsePattern());
+    }
+    return finish(start, { kind: "Tuple" as const, elts });
+  }
+
+  function parsePattern(): PyExpr {
+    const start = peek();
+    const pattern = atOp("*") ? parseStarExpression() : parseBitwiseOr();
+    if (!atKw("as")) return pattern;
+    next();
+    const name = expectName().value;
+    return finish(start, { kind: "MatchAs" as const, pattern, name });
+  }
+
+  function parseSimpleStatements(): PyStmt[] {
+    const stmts = [parseSimpleStatement()];
+    while (atOp(";")) {
+      next();
+      if (at("NEWLINE")) break;
+      stmts.push(parseSimpleStatement());
+    }
+    expectType("NEWLINE");
+    return stmts;
+  }
+
+  function parseSimpleStatement(): PyStmt {
+    const tok = peek();
+    if (tok.type === "NAME") {
+      switch (tok.value) {
+        case "pass":
+        case "break":
+        case "continue": {
+          next();
+          const kind = tok.value === "pass" ? "Pass" : tok.value === "break" ? "Break" : "Continue";
+          return finish(tok, { kind });
+        }
+        case "return": {
+          next();
+          const value = atSimpleStatementEnd() ? undefined : parseStarExpressions();
+          return finish(tok, { kind: "Return" as const, value });
+        }
+        case "raise": {
+          next();
+          let exc: PyExpr | undefined;
+          let cause: PyExpr | undefined;
+          if (!atSimpleStatementEnd()) {
+            exc = parseExpression();
+            if (atKw("from")) {
+              next();
+              cause = parseExpression();
+            }
+          }
+          return finish(tok, { kind: "Raise" as const, exc, cause });
+        }
+        case "global":
+        case "nonlocal": {
+          next();
+          const names = [expectName().value];
+          while (atOp(",")) {
+            next();
+            names.push(expectName().value);
+          }
+          return finish(tok, { kind: tok.value === "global" ? ("Global" as const) : ("Nonlocal" as const), names });
+        }
+        case "del": {
+          next();
+          const targets = [parseBitwiseOrOrStar()];
+          while (atOp(",")) {
+            next();
+            if (atSimpleStatementEnd()) break;
+            targets.push(parseBitwiseOrOrStar());
+          }
+          return finish(tok, { kind: "Delete" as const, targets });
+        }
+        case "assert": {
+          next();
+          const test = parseExpression();
+          let msg: PyExpr | undefined;
+          if (atOp(",")) {
+            next();
+            msg = parseExpression();
+          }
+          return finish(tok, { kind: "Assert" as const, test, msg });
+        }
+        case "import":
+          return parseImport();
+        case "from":
+          return parseImportFrom();
+        case "type":
+          if (at("NAME", undefined, 1) && (atOp("=", 2) || atOp("[", 2))) return parseTypeAlias();
+          break;
+      }
+    }
+    return parseExpressionStatement();
+  }
+
+  function atSimpleStatementEnd(): boolean {
+    return at("NEWLINE") || atOp(";") || at("ENDMARKER");
+  }
+
+  function parseTypeAlias(): PyTypeAlias {
+    const start = next();
+    const nameTok = expectName();
+    const name = finish(nameTok, { kind: "Name" as const, id: nameTok.value });
+    const typeParams = parseTypeParams();
+    expectOp("=");
+    const value = parseExpression();
+    return finish(start, { kind: "TypeAlias" as const, name, typeParams, value });
+  }
+
+  function parseDottedName(): string {
+    let name = expectName().value;
+    while (atOp(".")) {
+      next();
+      name += "." + expectName().value;
+    }
+    return name;
+  }
+
+  function parseImport(): PyImport {
+    const start = expectKw("import");
+    const names: PyAlias[] = [];
+    do {
+      if (names.length > 0) next();
+      const aStart = peek();
+      const name = parseDottedName();
+      let asname: string | undefined;
+      if (atKw("as")) {
+        next();
+        asname = expectName().value;
+      }
+      names.push(finish(aStart, { kind: "alias" as const, name, asname }));
+    } while (atOp(","));
+    return finish(start, { kind: "Import" as const, names });
+  }
+
+  function parseImportFrom(): PyImportFrom {
+    const start = expectKw("from");
+    let level = 0;
+    while (atOp(".") || atOp("...")) {
+      level += next().value.length;
+    }
+    const moduleName = atKw("import") ? undefined : parseDottedName();
+    expectKw("import");
+    const names: PyAlias[] = [];
+    if (atOp("*")) {
+      const star = next();
+      names.push(finish(star, { kind: "alias" as const, name: "*" }));
+    } else {
+      const parenthesized = atOp("(");
+      if (parenthesized) next();
+      while (true) {
+        const aStart = peek();
+        const name = expectName().value;
+        let asname: string | undefined;
+        if (atKw("as")) {
+          next();
+          asname = expectName().value;
+        }
+        names.push(finish(aStart, { kind: "alias" as const, name, asname }));
+        if (!atOp(",")) break;
+        next();
+        if (parenthesized && atOp(")")) break;
+      }
+      if (parenthesized) expectOp(")");
+    }
+    return finish(start, { kind: "ImportFrom" as const, module: moduleName, names, level });
+  }
+
+  function parseExpressionStatement(): PyStmt {
+    const start = peek();
+    const first = parseStarExpressionsOrYield();
+
+    if (atOp(":")) {
+      next();
+      const annotation = parseExpression();
+      let value: PyExpr | undefined;
+      if (atOp("=")) {
+        next();
+        value = parseStarExpressionsOrYield();
+      }
+      return finish(start, { kind: "AnnAssign" as const, target: first, annotation, value });
+    }
+
+    const tok = peek();
+    if (tok.type === "OP" && AUGMENTED_ASSIGN_OPS.has(tok.value)) {
+      next();
+      const value = parseStarExpressionsOrYield();
+      return finish(start, { kind: "AugAssign" as const, target: first, op: tok.value, value });
+    }
+
+    if (atOp("=")) {
+      const targets = [first];
+      let value: PyExpr = first;
+      while (atOp("=")) {
+        next();
+        value = parseStarExpressionsOrYield();
+        if (atOp("=")) targets.push(value);
+      }
+      return finish(start, { kind: "Assign" as const, targets, value });
+    }
+
+    return finish(start, { kind: "Expr" as const, value: first });
+  }
+
+  // ---- expressions ----
+
+  function parseStarExpressionsOrYield(): PyExpr {
+    if (atKw("yield")) return parseYield();
+    return parseStarExpressions();
+  }
+
+  function parseYield(): PyExpr {
+    const start = expectKw("yield");
+    if (atKw("from")) {
+      next();
+      const value = parseExpression();
+      return finish(start, { kind: "YieldFrom" as const, value });
+    }
+    const value = atOp(")") || atOp("]") || atOp("}") || atOp("=") || atSimpleStatementEnd() ? undefined : parseStarExpressions();
+    return finish(start, { kind: "Yield" as const, value });
+  }
+
+  // Comma-separated expressions become a Tuple (e.g. `return a, b`)
+  function parseStarExpressions(): PyExpr {
+    return parseExpressionList(parseStarExpression);
+  }
+
+  function parseStarNamedExpressions(): PyExpr {
+    return parseExpressionList(parseStarNamedExpression);
+  }
+
+  function parseExpressionList(parseItem: () => PyExpr): PyExpr {
+    const start = peek();
+    const first = parseItem();
+    if (!atOp(",")) return first;
+    const elts = [first];
+    while (atOp(",")) {
+      next();
+      if (!startsExpression()) break;
+      elts.push(parseItem());
+    }
+    return finish(start, { kind: "Tuple" as const, elts });
+  }
+
+  function startsExpression(): boolean {
+    const tok = peek();
+    if (tok.type === "NAME") {
+      return !HARD_KEYWORDS.has(tok.value) || ["not", "lambda", "await", "None", "True", "False", "yield"].includes(tok.value);
+    }
+    if (tok.type === "NUMBER" || tok.type === "STRING") return true;
+    return tok.type === "OP" && ["(", "[", "{", "-", "+", "~", "*", "**", "..."].includes(tok.value);
+  }
+
+  function parseStarExpression(): PyExpr {
+    if (!atOp("*")) return parseExpression();
+    const start = next();
+    const value = parseBitwiseOr();
+    return finish(start, { kind: "Starred" as const, value });
+  }
+
+  function parseStarNamedExpression(): PyExpr {
+    if (!atOp("*")) return parseNamedExpression();
+    const start = next();
+    const value = parseBitwiseOr();
+    return finish(start, { kind: "Starred" as const, value });
+  }
+
+  function parseBitwiseOrOrStar(): PyExpr {
+    if (!atOp("*")) return parseBitwiseOr();
+    const start = next();
+    const value = parseBitwiseOr();
+    return finish(start, { kind: "Starred" as const, value });
+  }
+
+  // Assignment targets in `for`/comprehension clauses stop before `in`
+  function parseTargetList(): PyExpr {
+    return parseExpressionList(parseBitwiseOrOrStar);
+  }
+
+  function parseStarTarget(): PyExpr {
+    return parseBitwiseOrOrStar();
+  }
+
+  function parseNamedExpression(): PyExpr {
+    if (at("NAME") && atOp(":=", 1)) {
+      const nameTok = next();
+      const target = finish(nameTok, { kind: "Name" as const, id: nameTok.value });
+      next();
+      const value = parseExpression();
+      return finish(nameTok, { kind: "NamedExpr" as const, target, value });
+    }
+    return parseExpression();
+  }
+
+  function parseExpression(): PyExpr {
+    if (atKw("lambda")) return parseLambda();
+    const start = peek();
+    const body = parseDisjunction();
+    if (atKw("if")) {
+      next();
+      const test = parseDisjunction();
+      expectKw("else");
+      const orelse = parseExpression();
+      return finish(start, { kind: "IfExp" as const, test, body, orelse });
+    }
+    return body;
+  }
+
+  function parseLambda(): PyLambda {
+    const start = expectKw("lambda");
+    const args = parseParameters(":", false, start);
+    expectOp(":");
+    const body = parseExpression();
+    return finish(start, { kind: "Lambda" as const, args, body });
+  }
+
+  function parseDisjunction(): PyExpr {
+    return parseBoolOp("or", parseConjunction);
+  }
+
+  function parseConjunction(): PyExpr {
+    return parseBoolOp("and", parseInversion);
+  }
+
+  function parseBoolOp(op: "and" | "or", parseOperand: () => PyExpr): PyExpr {
+    const start = peek();
+    const first = parseOperand();
+    if (!atKw(op)) return first;
+    const values = [first];
+    while (atKw(op)) {
+      next();
+      values.push(parseOperand());
+    }
+    return finish(start, { kind: "BoolOp" as const, op, values });
+  }
+
+  function parseInversion(): PyExpr {
+    if (!atKw("not")) return parseComparison();
+    const start = next();
+    const operand = parseInversion();
+    return finish(start, { kind: "UnaryOp" as const, op: "not", operand });
+  }
+
+  function parseComparison(): PyExpr {
+    const start = peek();
+    const left = parseBitwiseOr();
+    const ops: string[] = [];
+    const comparators: PyExpr[] = [];
+    while (true) {
+      const tok = peek();
+      let op: string | undefined;
+      if (tok.type === "OP" && COMPARISON_OPS.has(tok.value)) {
+        next();
+        op = tok.value;
+      } else if (atKw("in")) {
+        next();
+        op = "in";
+      } else if (atKw("not") && atKw("in", 1)) {
+        next();
+        next();
+        op = "not in";
+      } else if (atKw("is")) {
+        next();
+        op = "is";
+        if (atKw("not")) {
+          next();
+          op = "is not";
+        }
+      }
+      if (!op) break;
+      ops.push(op);
+      comparators.push(parseBitwiseOr());
+    }
+    if (ops.length === 0) return left;
+    return finish(start, { kind: "Compare" as const, left, ops, comparators });
+  }
+
+  function parseBinary(ops: string[], parseOperand: () => PyExpr): PyExpr {
+    const start = peek();
+    let left = parseOperand();
+    while (at("OP") && ops.includes(peek().value)) {
+      const op = next().value;
+      const right = parseOperand();
+      left = finish(start, { kind: "BinOp" as const, left, op, right });
+    }
+    return left;
+  }
+
+  function parseBitwiseOr(): PyExpr {
+    return parseBinary(["|"], parseBitwiseXor);
+  }
+
+  function parseBitwiseXor(): PyExpr {
+    return parseBinary(["^"], parseBitwiseAnd);
+  }
+
+  function parseBitwiseAnd(): PyExpr {
+    return parseBinary(["&"], parseShift);
+  }
+
+  function parseShift(): PyExpr {
+    return parseBinary(["<<", ">>"], parseSum);
+  }
+
+  function parseSum(): PyExpr {
+    return parseBinary(["+", "-"], parseTerm);
+  }
+
+  function parseTerm(): PyExpr {
+    return parseBinary(["*", "/", "//", "%", "@"], parseFactor);
+  }
+
+  function parseFactor(): PyExpr {
+    if (atOp("+") || atOp("-") || atOp("~")) {
+      const start = next();
+      const operand = parseFactor();
+      return finish(start, { kind: "UnaryOp" as const, op: start.value, operand });
+    }
+    return parsePower();
+  }
+
+  function parsePower(): PyExpr {
+    const start = peek();
+    const left = parseAwaitPrimary();
+    if (!atOp("**")) return left;
+    next();
+    const right = parseFactor();
+    return finish(start, { kind: "BinOp" as const, left, op: "**", right });
+  }
+
+  function parseAwaitPrimary(): PyExpr {
+    if (!atKw("await")) return parsePrimary();
+    const start = next();
+    const value = parsePrimary();
+    return finish(start, { kind: "Await" as const, value });
+  }
+
+  function parsePrimary(): PyExpr {
+    const start = peek();
+    let expr = parseAtom();
+    while (true) {
+      if (atOp(".")) {
+        next();
+        const attrTok = expectName();
+        expr = finish(start, {
+          kind: "Attribute" as const,
+          value: expr,
+          attr: attrTok.value,
+          attrLine: attrTok.line,
+          attrColumn: attrTok.column,
+        });
+      } else if (atOp("(")) {
+        next();
+        const { args, keywords } = parseCallArguments();
+        expectOp(")");
+        expr = finish(start, { kind: "Call" as const, func: expr, args, keywords });
+      } else if (atOp("[")) {
+        next();
+        const slice = parseSlices();
+        expectOp("]");
+        expr = finish(start, { kind: "Subscript" as const, value: expr, slice });
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  function parseCallArguments(): { args: PyExpr[]; keywords: PyKeyword[] } {
+    const args: PyExpr[] = [];
+    const keywords: PyKeyword[] = [];
+    while (!atOp(")")) {
+      const start = peek();
+      if (atOp("**")) {
+        next();
+        const value = parseExpression();
+        keywords.push(finish(start, { kind: "keyword" as const, value }));
+      } else if (at("NAME") && atOp("=", 1)) {
+        const arg = next().value;
+        next();
+        const value = parseExpression();
+        keywords.push(finish(start, { kind: "keyword" as const, arg, value }));
+      } else if (atOp("*")) {
+        args.push(parseStarExpression());
+      } else {
+        const value = parseNamedExpression();
+        if (atKw("for") || (atKw("async") && atKw("for", 1))) {
+          const generators = parseComprehensionClauses();
+          args.push(finish(start, { kind: "GeneratorExp" as const, elt: value, generators }));
+        } else {
+          args.push(value);
+        }
+      }
+      if (!atOp(",")) break;
+      next();
+    }
+    return { args, keywords };
+  }
+
+  function parseSlices(): PyExpr {
+    const start = peek();
+    const first = parseSlice();
+    if (!atOp(",")) return first;
+    const elts = [first];
+    while (atOp(",")) {
+      next();
+      if (atOp("]")) break;
+      elts.push(parseSlice());
+    }
+    return finish(start, { kind: "Tuple" as const, elts });
+  }
+
+  function parseSlice(): PyExpr {
+    const start = peek();
+    if (atOp("*")) return parseStarExpression();
+    const lower = atOp(":") ? undefined : parseNamedExpression();
+    if (!atOp(":")) return lower as PyExpr;
+    next();
+    const endsPart = () => atOp(":") || atOp("]") || atOp(",");
+    const upper = endsPart() ? undefined : parseExpression();
+    let step: PyExpr | undefined;
+    if (atOp(":")) {
+      next();
+      step = endsPart() ? undefined : parseExpression();
+    }
+    return finish(start, { kind: "Slice" as const, lower, upper, step });
+  }
+
+  function parseComprehensionClauses(): PyComprehensionClause[] {
+    const clauses: PyComprehensionClause[] = [];
+    while (atKw("for") || (atKw("async") && atKw("for", 1))) {
+      const start = peek();
+      const isAsync = atKw("async");
+      if (isAsync) next();
+      expectKw("for");
+      const target = parseTargetList();
+      expectKw("in");
+      const iter = parseDisjunction();
+      const ifs: PyExpr[] = [];
+      while (atKw("if")) {
+        next();
+        ifs.push(parseDisjunction());
+      }
+      clauses.push(finish(start, { kind: "comprehension" as const, target, iter, ifs, isAsync }));
+    }
+    return clauses;
+  }
+
+  function parseAtom(): PyExpr {
+    const tok = peek();
+    switch (tok.type) {
+      case "NAME": {
+        if (tok.value === "True" || tok.value === "False") {
+          next();
+          return finish(tok, { kind: "Constant" as const, valueKind: "bool" as const, raw: tok.value });
+        }
+        if (tok.value === "None") {
+          next();
+          return finish(tok, { kind: "Constant" as const, valueKind: "None" as const, raw: tok.value });
+        }
+        const name = expectName();
+        return finish(tok, { kind: "Name" as const, id: name.value });
+      }
+      case "NUMBER":
+        next();
+        return finish(tok, { kind: "Constant" as const, valueKind: "number" as const, raw: tok.value });
+      case "STRING":
+        return parseStrings();
+      case "OP":
+        if (tok.value === "(") return parseParenthesized();
+        if (tok.value === "[") return parseListDisplay();
+        if (tok.value === "{") return parseBraceDisplay();
+        if (tok.value === "...") {
+          next();
+          return finish(tok, { kind: "Constant" as const, valueKind: "Ellipsis" as const, raw: "..." });
+        }
+        break;
+    }
+    return fail("invalid syntax");
+  }
+
+  function parseStrings(): PyConstant {
+    const start = peek();
+    const parts: string[] = [];
+    let isFString = false;
+    let isBytes = false;
+    const fields: PyExpr[] = [];
+    while (at("STRING")) {
+      const tok = next();
+      const raw = tok.value;
+      const prefix = raw.slice(0, raw.search(/['"]/)).toLowerCase();
+      if (prefix.includes("f") || prefix.includes("t")) {
+        isFString = true;
+        for (const range of fStringExpressionRanges(raw)) {
+          const field = parseFieldExpression(src, tok, range, errors);
+          if (field) fields.push(field);
+        }
+      }
+      if (prefix.includes("b")) isBytes = true;
+      parts.push(decodeStringLiteral(raw));
+    }
+    const last = tokens[pos - 1];
+    const raw = src.slice(start.start, last.end);
+    return finish(start, {
+      kind: "Constant" as const,
+      valueKind: isBytes ? ("bytes" as const) : ("str" as const),
+      raw,
+      value: parts.join(""),
+      isFString: isFString || undefined,
+      fields: fields.length > 0 ? fields : undefined,
+    });
+  }
+
+  function parseParenthesized(): PyExpr {
+    const start = expectOp("(");
+    if (atOp(")")) {
+      next();
+      return finish(start, { kind: "Tuple" as const, elts: [] });
+    }
+    if (atKw("yield")) {
+      const y = parseYield();
+      expectOp(")");
+      return y;
+    }
+    const first = parseStarNamedExpression();
+    if (atKw("for") || (atKw("async") && atKw("for", 1))) {
+      const generators = parseComprehensionClauses();
+      expectOp(")");
+      return finish(start, { kind: "GeneratorExp" as const, elt: first, generators });
+    }
+    if (!atOp(",")) {
+      expectOp(")");
+      return first;
+    }
+    const elts = [first];
+    while (atOp(",")) {
+      next();
+      if (atOp(")")) break;
+      elts.push(parseStarNamedExpression());
+    }
+    expectOp(")");
+    return finish(start, { kind: "Tuple" as const, elts });
+  }
+
+  function parseListDisplay(): PyExpr {
+    const start = expectOp("[");
+    if (atOp("]")) {
+      next();
+      return finish(start, { kind: "List" as const, elts: [] });
+    }
+    const first = parseStarNamedExpression();
+    if (atKw("for") || (atKw("async") && atKw("for", 1))) {
+      const generators = parseComprehensionClauses();
+      expectOp("]");
+      return finish(start, { kind: "ListComp" as const, elt: first, generators });
+    }
+    const elts = [first];
+    while (atOp(",")) {
+      next();
+      if (atOp("]")) break;
+      elts.push(parseStarNamedExpression());
+    }
+    expectOp("]");
+    return finish(start, { kind: "List" as const, elts });
+  }
+
+  function parseBraceDisplay(): PyExpr {
+    const start = expectOp("{");
+    if (atOp("}")) {
+      next();
+      return finish(start, { kind: "Dict" as const, keys: [], values: [] });
+    }
+
+    if (atOp("**")) return parseDictEntries(start);
+    const first = parseStarNamedExpression();
+    if (atOp(":")) {
+      next();
+      const value = parseExpression();
+      if (atKw("for") || (atKw("async") && atKw("for", 1))) {
+        const generators = parseComprehensionClauses();
+        expectOp("}");
+        return finish(start, { kind: "DictComp" as const, elt: first, value, generators });
+      }
+      return parseDictEntries(start, first, value);
+    }
+
+    if (atKw("for") || (atKw("async") && atKw("for", 1))) {
+      const generators = parseComprehensionClauses();
+      expectOp("}");
+      return finish(start, { kind: "SetComp" as const, elt: first, generators });
+    }
+    const elts = [first];
+    while (atOp(",")) {
+      next();
+      if (atOp("}")) break;
+      elts.push(parseStarNamedExpression());
+    }
+    expectOp("}");
+    return finish(start, { kind: "Set" as const, elts });
+  }
+
+  function parseDictEntries(start: SpanStart, firstKey?: PyExpr, firstValue?: PyExpr): PyDict {
+    const keys: (PyExpr | undefined)[] = [];
+    const values: PyExpr[] = [];
+    if (firstKey && firstValue) {
+      keys.push(firstKey);
+      values.push(firstValue);
+      if (!atOp(",")) {
+        expectOp("}");
+        return finish(start, { kind: "Dict" as const, keys, values });
+      }
+      next();
+    }
+    while (!atOp("}")) {
+      if (atOp("**")) {
+        next();
+        keys.push(undefined);
+        values.push(parseBitwiseOr());
+      } else {
+        keys.push(parseExpression());
+        expectOp(":");
+        values.push(parseExpression());
+      }
+      if (!atOp(",")) break;
+      next();
+    }
+    expectOp("}");
+    return finish(start, { kind: "Dict" as const, keys, values });
+  }
+}
+
+export default parsePythonModule;
+
+/**
+ * Parse the expression of one f-string replacement field (`range` is relative to the string token)
+ * and move its spans from the parsed snippet to their place in `src`. Unparsable fields are dropped.
+ */
+function parseFieldExpression(
+  src: string,
+  tok: PyToken,
+  range: { start: number; end: number },
+  errors: PySyntaxError[]
+): PyExpr | undefined {
+  const start = tok.start + range.start;
+  const text = src.slice(start, tok.start + range.end);
+
+  // The snippet's opening parenthesis stands in for the character before the field expression
+  const before = src.slice(tok.start, start - 1);
+  const newlines = before.split("\n").length - 1;
+  const baseLine = tok.line + newlines;
+  const baseColumn = newlines === 0 ? tok.column + before.length : before.length - before.lastIndexOf("\n");
+  const mapLine = (line: number) => baseLine + line - 1;
+  const mapColumn = (line: number, column: number) => (line === 1 ? baseColumn + column - 1 : column);
+
+  if (!text.trim()) {
+    errors.push({ message: "f-string: empty expression not allowed", line: baseLine, column: baseColumn + 1 });
+    return undefined;
+  }
+  const snippet = parsePythonModule("(" + text + ")");
+  const stmt = snippet.body[0];
+  if (snippet.errors.length > 0 || snippet.body.length !== 1 || stmt.kind !== "Expr") {
+    const [first] = snippet.errors;
+    errors.push({
+      message: `f-string: ${first?.message ?? "invalid expression"}`,
+      line: first ? mapLine(first.line) : baseLine,
+      column: first ? mapColumn(first.line, first.column) : baseColumn + 1,
+    });
+    return undefined;
+  }
+
+  walkPy(stmt.value, (node) => {
+    const span = node as PySpan;
+    span.start += start - 1;
+    span.end += start - 1;
+    span.column = mapColumn(span.line, span.column);
+    span.line = mapLine(span.line);
+    span.endColumn = mapColumn(span.endLine, span.endColumn);
+    span.endLine = mapLine(span.endLine);
+    if (node.kind === "Attribute") {
+      node.attrColumn = mapColumn(node.attrLine, node.attrColumn);
+      node.attrLine = mapLine(node.attrLine);
+    }
+  });
+  return stmt.value;
+}
+
+/**
+ * Decode the value of a single string literal token (prefix and quotes included).
+ * Handles the common escape sequences; f-string replacement fields are kept verbatim.
+ */
+export function decodeStringLiteral(raw: string): string {
+  const quoteAt = raw.search(/['"]/);
+  if (quoteAt < 0) return raw;
+  const prefix = raw.slice(0, quoteAt).toLowerCase();
+  const quote = raw.startsWith('"""', quoteAt) || raw.startsWith("'''", quoteAt) ? raw.slice(quoteAt, quoteAt + 3) : raw[quoteAt];
+  let inner = raw.slice(quoteAt + quote.length);
+  if (inner.endsWith(quote)) inner = inner.slice(0, inner.length - quote.length);
+  if (prefix.includes("r")) return inner;
+  const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", "\\": "\\", "'": "'", '"': '"', "\n": "", a: "\x07", b: "\b", f: "\f", v: "\v", "0": "\0" };
+  return inner.replace(/\\([\s\S])/g, (m, ch: string) => (ch in escapes ? escapes[ch] : m));
+}
@@ -0,0 +1,62 @@
+import type { ClassKind, ParsedDecorator } from "@/lib/types";
+
+/**
+ * Kind of a class from its syntax, first match wins:
+ * - Decorators: `@dataclass` (including pydantic dataclasses), attrs (`@attr.s`, `@attrs.define`, and bare
+ *   `@define`/`@frozen`/`@mutable` in modules importing attrs).
+ * - Bases by their last name segment, subscripts ignored: Enum family, Protocol, NamedTuple, TypedDict,
+ *   pydantic models (in modules importing pydantic, pydantic_settings or sqlmodel), ABC, then exceptions (`Exception`, `BaseException`, `*Error`, `*Exception`, `*Warning`).
+ * - Metaclass keyword: `ABCMeta` (abc), `EnumMeta`/`EnumType` (enum).
+ * Subclasses of uploaded classes can inherit a kind later in the graph builder.
+ */
+export function classifyClass(baseClasses: string[], decorators: ParsedDecorator[], metaclass: string | undefined, imported: Set<string>): ClassKind {
+  for (const d of decorators) {
+    const parts = d.name.split(".");
+    const attr = parts[parts.length - 1];
+    const isAttrs =
+      parts.length > 1
+        ? (parts[0] === "attr" || parts[0] === "attrs") && ATTRS_DECORATORS.has(attr)
+        : ATTRS_BARE_DECORATORS.has(attr) && (imported.has("attr") || imported.has("attrs"));
+    if (isAttrs) return "attrs";
+    if (attr === "dataclass") return "dataclass";
+  }
+  const bases = baseClasses.map(lastSegment);
+  for (const [kind, names] of BASE_KINDS) {
+    // `BaseModel` is a common name for a project's own base class (Django, SQLAlchemy)
+    if (kind === "pydantic" && !PYDANTIC_MODULES.some((m) => imported.has(m))) continue;
+    if (bases.some((b) => names.has(b))) return kind;
+  }
+  const meta = metaclass ? lastSegment(metaclass) : undefined;
+  if (meta === "ABCMeta") return "abc";
+  if (meta === "EnumMeta" || meta === "EnumType") return "enum";
+  if (bases.some((b) => /(Error|Exception|Warning)$/.test(b))) return "exception";
+  return "plain";
+}
+
+export default classifyClass;
+
+/**
+ * Kinds a subclass shares with its base class: an Enum, model or exception subclass is still one, while
+ * subclasses of dataclasses, protocols and ABCs are ordinary (concrete) classes unless marked themselves.
+ */
+export const INHERITED_CLASS_KINDS: ReadonlySet<ClassKind> = new Set(["enum", "namedtuple", "typeddict", "pydantic", "exception"]);
+
+const ATTRS_DECORATORS = new Set(["s", "attrs", "define", "frozen", "mutable", "dataclass"]); // `attr.s`, `attrs.define`, ...
+const ATTRS_BARE_DECORATORS = new Set(["define", "frozen", "mutable"]); // `from attrs import define`
+
+const PYDANTIC_MODULES = ["pydantic", "pydantic_settings", "sqlmodel"];
+
+const BASE_KINDS: [ClassKind, Set<string>][] = [
+  ["enum", new Set(["Enum", "IntEnum", "StrEnum", "Flag", "IntFlag", "ReprEnum"])],
+  ["protocol", new Set(["Protocol"])],
+  ["namedtuple", new Set(["NamedTuple"])],
+  ["typeddict", new Set(["TypedDict"])],
+  ["pydantic", new Set(["BaseModel", "BaseSettings", "RootModel", "SQLModel"])],
+  ["abc", new Set(["ABC"])],
+];
+
+// `typing.Protocol[T]` -> "Protocol"
+function lastSegment(expr: string): string {
+  const name = expr.replace(/\[[\s\S]*\]$/, "").trim();
+  return name.split(".").pop() ?? name;
+}
@@ -0,0 +1,194 @@
+import { walkPy } from "@/lib/python-ast";
+import type { PyModule, PyExpr, PyConstant } from "@/lib/python-ast";
+import type { LanguageFeature, ParsedLanguageFeature } from "@/lib/types";
+
+/**
+ * Detects version-specific Python syntax in a module:
+ * - Each feature is reported once with its first line, occurrence count and the version that introduced it.
+ * - Annotation-only features (`X | Y`, `list[int]`) only need PEP 563 when `from __future__ import annotations`
+ *   defers annotation evaluation, and are not counted in stubs (annotationsDeferred), which are never executed.
+ *   `X | Y` in `isinstance`/`issubclass` calls is evaluated at runtime either way.
+ * - Future imports count only for the features that need a Python 3 release (`annotations`, `generator_stop`);
+ *   the others are no-ops on Python 3.
+ * - The minimum Python version is the highest version among the detected features.
+ */
+export function detectLanguageFeatures(
+  tree: PyModule,
+  options?: { annotationsDeferred?: boolean }
+): {
+  features: ParsedLanguageFeature[];
+  futureImports: string[];
+  minPythonVersion?: string;
+} {
+  const found = new Map<LanguageFeature, ParsedLanguageFeature>();
+  const futureImports: string[] = [];
+
+  const record = (name: LanguageFeature, line: number, minVersion = FEATURE_VERSIONS[name]) => {
+    const existing = found.get(name);
+    if (!existing) {
+      found.set(name, { name, minVersion, line, count: 1 });
+      return;
+    }
+    existing.count++;
+    if (compareVersions(minVersion, existing.minVersion) > 0) existing.minVersion = minVersion;
+  };
+
+  const annotations: PyExpr[] = [];
+  for (const stmt of tree.body) {
+    walkPy(stmt, (node) => {
+      switch (node.kind) {
+        case "ImportFrom":
+          if (node.module === "__future__" && node.level === 0) {
+            for (const alias of node.names) {
+              futureImports.push(alias.name);
+              const version = FUTURE_VERSIONS[alias.name];
+              if (version) record("future-import", node.line, version);
+            }
+          }
+          break;
+        case "FunctionDef":
+          if (node.isAsync) record("async", node.line);
+          if (node.typeParams.length > 0) record("type-params", node.line);
+          if (node.returns) annotations.push(node.returns);
+          if (node.args.slashIndex !== undefined) record("positional-only-params", node.line);
+          for (const arg of node.args.params) if (arg.annotation) annotations.push(arg.annotation);
+          break;
+        case "ClassDef":
+          if (node.typeParams.length > 0) record("type-params", node.line);
+          break;
+        case "TypeVar":
+        case "ParamSpec":
+        case "TypeVarTuple":
+          if (node.default) record("type-param-defaults", node.line);
+          break;
+        case "TypeAlias":
+          record("type-alias", node.line);
+          if (node.typeParams.length > 0) record("type-params", node.line);
+          break;
+        case "AnnAssign":
+          annotations.push(node.annotation);
+          break;
+        case "For":
+        case "With":
+          if (node.isAsync) record("async", node.line);
+          break;
+        case "comprehension":
+          if (node.isAsync) record("async-comprehension", node.line);
+          break;
+        case "Match":
+          record("match-statement", node.line);
+          break;
+        case "NamedExpr":
+          record("walrus", node.line);
+          break;
+        case "Try":
+          if (node.isStar) record("except-star", node.line);
+          break;
+        case "Call":
+          if (node.func.kind === "Name" && (node.func.id === "isinstance" || node.func.id === "issubclass")) {
+            const types = node.args[1];
+            if (types?.kind === "BinOp" && isTypeUnion(types)) record("union-operator", types.line);
+          }
+          break;
+        case "Constant":
+          if (node.isFString) {
+            record("f-string", node.line);
+            if (hasNestedFString(node)) record("nested-f-string", node.line);
+            if (reusesOuterQuotes(node)) record("f-string-quote-reuse", node.line);
+          }
+          break;
+      }
+    });
+  }
+
+  // Evaluated annotations need the runtime support; deferred ones only need PEP 563, stub annotations nothing
+  const deferredVersion = futureImports.includes("annotations") ? FUTURE_VERSIONS.annotations : undefined;
+  for (const annotation of options?.annotationsDeferred ? [] : annotations) {
+    walkPy(annotation, (node) => {
+      if (node.kind === "BinOp" && node.op === "|") {
+        record("union-operator", node.line, deferredVersion ?? FEATURE_VERSIONS["union-operator"]);
+      }
+      if (node.kind === "Subscript" && node.value.kind === "Name" && BUILTIN_GENERICS.has(node.value.id)) {
+        record("builtin-generics", node.line, deferredVersion ?? FEATURE_VERSIONS["builtin-generics"]);
+      }
+    });
+  }
+
+  const features = Array.from(found.values()).sort((a, b) => a.line - b.line);
+  const minPythonVersion = features.reduce<string | undefined>(
+    (max, f) => (max === undefined || compareVersions(f.minVersion, max) > 0 ? f.minVersion : max),
+    undefined
+  );
+  return { features, futureImports, minPythonVersion };
+}
+
+export default detectLanguageFeatures;
+
+/**
+ * Compare dotted version strings numerically ("3.10" > "3.9").
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split(".").map(Number);
+  const pb = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+const FEATURE_VERSIONS: Record<LanguageFeature, string> = {
+  async: "3.5",
+  "f-string": "3.6",
+  "async-comprehension": "3.6",
+  "future-import": "3.5", // generator_stop; see FUTURE_VERSIONS
+  "nested-f-string": "3.6",
+  walrus: "3.8",
+  "positional-only-params": "3.8",
+  "builtin-generics": "3.9",
+  "match-statement": "3.10",
+  "union-operator": "3.10",
+  "except-star": "3.11",
+  "f-string-quote-reuse": "3.12",
+  "type-alias": "3.12",
+  "type-params": "3.12",
+  "type-param-defaults": "3.13",
+};
+
+// Future features that need the version that introduced them; older ones are no-ops on Python 3
+const FUTURE_VERSIONS: Record<string, string> = {
+  generator_stop: "3.5",
+  annotations: "3.7",
+};
+
+const BUILTIN_GENERICS = new Set(["list", "dict", "set", "frozenset", "tuple", "type"]);
+
+// `int | str | None`, `models.A | models.B`
+function isTypeUnion(node: PyExpr): boolean {
+  if (node.kind === "BinOp") return node.op === "|" && isTypeUnion(node.left) && isTypeUnion(node.right);
+  return node.kind === "Name" || node.kind === "Attribute" || (node.kind === "Constant" && node.valueKind === "None");
+}
+
+function hasNestedFString(node: PyConstant): boolean {
+  let nested = false;
+  for (const field of node.fields ?? []) {
+    walkPy(field, (n) => {
+      if (n.kind === "Constant" && n.isFString) nested = true;
+    });
+  }
+  return nested;
+}
+
+// PEP 701: before 3.12 a replacement field could not reuse the enclosing literal's quote character
+function reusesOuterQuotes(node: PyConstant): boolean {
+  const outerQuote = node.raw[node.raw.search(/['"]/)];
+  let reused = false;
+  for (const field of node.fields ?? []) {
+    walkPy(field, (n) => {
+      if (n.kind === "Constant" && (n.valueKind === "str" || n.valueKind === "bytes")) {
+        if (n.raw[n.raw.search(/['"]/)] === outerQuote) reused = true;
+      }
+    });
+  }
+  return reused;
+}
@@ -0,0 +1,149 @@
+import type { ParsedDecorator, ParsedEntryPoint, EntryPointFramework, ParsedArgumentValue } from "@/lib/types";
+
+/**
+ * Framework entry points declared by a function's decorators:
+ * - Flask/FastAPI/Starlette/Quart routes (`@app.route("/x", methods=[...])`, `@router.get("/x")`), Celery tasks
+ *   (`@app.task`, `@shared_task`), click/typer commands and groups, pytest fixtures and Django function views
+ *   (`@api_view`, `@require_POST`, `@login_required`, ...).
+ * - Frameworks are told apart by what the module imports (any segment of an imported module path, so
+ *   `from proj.celery import app` counts as celery); a route needs a literal path.
+ */
+export function functionEntryPoints(name: string, decorators: ParsedDecorator[], imported: Set<string>): ParsedEntryPoint[] {
+  const entries: ParsedEntryPoint[] = [];
+  let view: ParsedEntryPoint | undefined;
+  for (const d of decorators) {
+    const parts = d.name.split(".");
+    const attr = parts[parts.length - 1];
+    const registrar = parts.length > 1 ? parts.slice(0, -1).join(".") : undefined;
+
+    if ((attr === "fixture" && (registrar ? /^pytest(_asyncio)?$/.test(registrar) : imported.has("pytest"))) || d.name === "pytest_asyncio.fixture") {
+      entries.push(entry("fixture", "pytest", stringValue(d.kwargValues.name) ?? name, d, registrar, ["name"]));
+      continue;
+    }
+    if (attr === "shared_task" || (attr === "task" && registrar && imported.has("celery"))) {
+      entries.push(entry("task", "celery", stringValue(d.kwargValues.name) ?? name, d, registrar, ["name"]));
+      continue;
+    }
+    if (registrar && ROUTE_DECORATORS.has(attr)) {
+      const path = stringValue(d.argValues[0] ?? d.kwargValues.path ?? d.kwargValues.rule);
+      const webImported = WEB_FRAMEWORKS.some((f) => imported.has(f));
+      if (path !== undefined && (webImported || path.startsWith("/"))) {
+        const framework = routeFramework(attr, imported);
+        const methods = HTTP_VERBS.has(attr) ? [attr.toUpperCase()] : stringList(d.kwargValues.methods);
+        entries.push({ ...entry("route", framework, path, d, registrar, ["path", "rule", "methods"]), methods });
+        continue;
+      }
+    }
+    if (CLI_DECORATORS.has(attr) && (imported.has("click") || imported.has("typer"))) {
+      const framework: EntryPointFramework = registrar === "click" || !imported.has("typer") ? "click" : "typer";
+      // Both frameworks derive the command name from the function name with dashes
+      const commandName = stringValue(d.argValues[0]) ?? stringValue(d.kwargValues.name) ?? name.replace(/_/g, "-");
+      entries.push({ ...entry("cli-command", framework, commandName, d, registrar, ["name"]), isGroup: attr !== "command" });
+      continue;
+    }
+    if (DJANGO_VIEW_DECORATORS.has(attr) && (imported.has("django") || imported.has("rest_framework"))) {
+      const methods = DJANGO_METHOD_DECORATORS[attr] ?? stringList(d.argValues[0]);
+      if (!view) {
+        view = entry("view", "django", name, d, undefined, []);
+        entries.push(view);
+      }
+      if (methods) view.methods = methods;
+    }
+  }
+  return entries;
+}
+
+export default functionEntryPoints;
+
+/**
+ * Django class-based views: classes whose bases end in `View` or `ViewSet` in modules importing Django or
+ * Django REST framework. Methods are the HTTP handlers the class defines (`get`, `post`, ...).
+ */
+export function classEntryPoints(name: string, baseClasses: string[], methodNames: string[], imported: Set<string>, line: number): ParsedEntryPoint[] {
+  if (!imported.has("django") && !imported.has("rest_framework")) return [];
+  if (!baseClasses.some((b) => /(View|ViewSet)$/.test(b.split(".").pop() ?? b))) return [];
+  const methods = methodNames.filter((m) => HTTP_VERBS.has(m)).map((m) => m.toUpperCase());
+  return [{ kind: "view", framework: "django", name, methods: methods.length > 0 ? methods : undefined, line }];
+}
+
+/**
+ * Django routes from `urlpatterns` entries (`path("items/", views.items, name="items")`, `re_path`, `url`) and
+ * Django REST framework router registrations (`router.register("items", ItemViewSet)`); `include(...)` is skipped.
+ */
+export function urlPatternEntryPoints(calls: ParsedDecorator[]): ParsedEntryPoint[] {
+  const entries: ParsedEntryPoint[] = [];
+  for (const call of calls) {
+    const parts = call.name.split(".");
+    const attr = parts[parts.length - 1];
+    const path = stringValue(call.argValues[0] ?? call.kwargValues.route ?? call.kwargValues.prefix);
+    const handler = call.args[1] ?? call.kwargs.view ?? call.kwargs.viewset;
+    if (path === undefined || !handler || /^include\(/.test(handler)) continue;
+    if (attr !== "register" && !URL_FUNCTIONS.has(attr)) continue;
+    const registrar = attr === "register" ? parts.slice(0, -1).join(".") : undefined;
+    const options = omit(call.kwargs, ["route", "prefix", "view", "viewset"]);
+    entries.push({ kind: "route", framework: "django", name: path, registrar, options, handler, line: call.line });
+  }
+  return entries;
+}
+
+const HTTP_VERBS = new Set(["get", "post", "put", "delete", "patch", "head", "options"]);
+const ROUTE_DECORATORS = new Set([...HTTP_VERBS, "route", "api_route", "websocket"]);
+const WEB_FRAMEWORKS = ["flask", "fastapi", "starlette", "quart"];
+const CLI_DECORATORS = new Set(["command", "group", "callback"]);
+const URL_FUNCTIONS = new Set(["path", "re_path", "url"]);
+const DJANGO_VIEW_DECORATORS = new Set([
+  "api_view",
+  "require_http_methods",
+  "require_GET",
+  "require_POST",
+  "require_safe",
+  "login_required",
+  "permission_required",
+  "csrf_exempt",
+]);
+const DJANGO_METHOD_DECORATORS: Record<string, string[]> = {
+  require_GET: ["GET"],
+  require_POST: ["POST"],
+  require_safe: ["GET", "HEAD"],
+};
+
+// FastAPI is built on Starlette and Quart mirrors Flask's API, so the more specific import wins; without one,
+// `@x.route` is Flask's spelling and `@x.get` FastAPI's
+function routeFramework(attr: string, imported: Set<string>): EntryPointFramework {
+  if (imported.has("fastapi")) return "fastapi";
+  if (imported.has("quart")) return "quart";
+  if (imported.has("starlette")) return "starlette";
+  return imported.has("flask") || attr === "route" ? "flask" : "fastapi";
+}
+
+function entry(
+  kind: ParsedEntryPoint["kind"],
+  framework: EntryPointFramework,
+  name: string,
+  d: ParsedDecorator,
+  registrar: string | undefined,
+  consumed: string[]
+): ParsedEntryPoint {
+  const options = omit(d.kwargs, consumed);
+  return { kind, framework, name, registrar, options, line: d.line };
+}
+
+// Keyword arguments not already reflected in other fields; undefined when none remain
+function omit(kwargs: Record<string, string>, keys: string[]): Record<string, string> | undefined {
+  const rest = Object.entries(kwargs).filter(([k]) => !keys.includes(k));
+  return rest.length > 0 ? Object.fromEntries(rest) : undefined;
+}
+
+/**
+ * Value of a string literal argument; undefined for any other expression.
+ */
+export function stringValue(value: ParsedArgumentValue | undefined): string | undefined {
+  return value?.kind === "string" ? value.value : undefined;
+}
+
+// Values of a list/tuple of string literals, upper-cased (HTTP methods); undefined otherwise
+function stringList(value: ParsedArgumentValue | undefined): string[] | undefined {
+  if (value?.kind !== "sequence" || value.items.length === 0) return undefined;
+  const values = value.items.map(stringValue);
+  return values.every((v): v is string => v !== undefined) ? values.map((v) => v.toUpperCase()) : undefined;
+}
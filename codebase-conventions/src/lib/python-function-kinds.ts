@@ -0,0 +1,88 @@
+import type { MethodKind, ParsedAsyncDetails, ParsedDecorator, ParsedFunction, ParsedGenerator } from "@/lib/types";
+import { walkPy, dottedName } from "@/lib/python-ast";
+import type { PyFunctionDef } from "@/lib/python-ast";
+
+/**
+ * Kind of a function from its decorators and body:
+ * - Method kind: `@classmethod`, `@staticmethod`, `@property`/`@cached_property`, `@<name>.setter`/`.deleter`.
+ * - Context manager: `@contextmanager`/`@asynccontextmanager`, bare or through `contextlib`.
+ * - Generator: `yield`/`yield from` in the body, outside nested definitions and lambdas.
+ * - Async details (async def only): await sites, `async with`/`async for` (async comprehensions included),
+ *   `asyncio.gather`, task groups and spawned tasks.
+ */
+export function classifyFunction(
+  def: PyFunctionDef,
+  decorators: ParsedDecorator[]
+): Pick<ParsedFunction, "methodKind" | "contextManager" | "generator" | "asyncDetails"> {
+  const generator: ParsedGenerator = { yields: 0, yieldFroms: 0 };
+  const details: ParsedAsyncDetails = { awaitLines: [], asyncWith: 0, asyncFor: 0, gathers: 0, taskGroups: 0, spawnedTasks: 0 };
+  for (const stmt of def.body) {
+    walkPy(stmt, (node) => {
+      switch (node.kind) {
+        case "FunctionDef":
+        case "ClassDef":
+        case "Lambda":
+          return false;
+        case "Yield":
+          generator.yields++;
+          break;
+        case "YieldFrom":
+          generator.yieldFroms++;
+          break;
+        case "Await":
+          details.awaitLines.push(node.line);
+          break;
+        case "With":
+          if (node.isAsync) details.asyncWith++;
+          break;
+        case "For":
+        case "comprehension":
+          if (node.isAsync) details.asyncFor++;
+          break;
+        case "Call": {
+          const parts = (dottedName(node.func) ?? "").split(".");
+          const attr = parts[parts.length - 1];
+          if (attr === "gather" && (parts.length === 1 || parts[0] === "asyncio")) details.gathers++;
+          else if (TASK_GROUP_FACTORIES.has(attr)) details.taskGroups++;
+          else if (TASK_SPAWNERS.has(attr)) details.spawnedTasks++;
+          break;
+        }
+      }
+    });
+  }
+  return {
+    methodKind: methodKind(decorators),
+    contextManager: contextManagerKind(decorators),
+    generator: generator.yields + generator.yieldFroms > 0 ? generator : undefined,
+    asyncDetails: def.isAsync ? details : undefined,
+  };
+}
+
+export default classifyFunction;
+
+const TASK_GROUP_FACTORIES = new Set(["TaskGroup", "create_task_group", "open_nursery"]);
+const TASK_SPAWNERS = new Set(["create_task", "ensure_future", "start_soon"]); // `asyncio.create_task`, `tg.create_task`, `nursery.start_soon`
+const PROPERTY_DECORATORS = new Set(["property", "cached_property"]);
+
+function methodKind(decorators: ParsedDecorator[]): MethodKind | undefined {
+  for (const d of decorators) {
+    const parts = d.name.split(".");
+    const attr = parts[parts.length - 1];
+    if (attr === "classmethod" || attr === "staticmethod") return attr;
+    if (PROPERTY_DECORATORS.has(attr)) return "property";
+    // `@value.setter` names the property it extends
+    if (parts.length === 2 && (attr === "setter" || attr === "deleter")) return attr;
+  }
+  return undefined;
+}
+
+function contextManagerKind(decorators: ParsedDecorator[]): "sync" | "async" | undefined {
+  for (const d of decorators) {
+    const parts = d.name.split(".");
+    if (parts.length > 1 && parts[0] !== "contextlib") continue;
+    const attr = parts[parts.length - 1];
+    if (attr === "contextmanager") return "sync";
+    if (attr === "asynccontextmanager") return "async";
+  }
+  return undefined;
+}
@@ -3,7 +3,9 @@
     npm run devtest:parser
 */
 
-import { parsePythonFiles } from "./python-parser";
+import { parsePythonFiles, parsePythonFilesWith, parseModuleJobs, collectDiagnostics } from "./python-parser";
+import { createMemoryParseCache } from "./parse-cache";
+import type { ParsedModule } from "./types";
 
 async function main() {
   const content = `
@@ -57,6 +59,1059 @@ async def coro(x):
   const coro = mod.functions.find((f) => f.name === "coro");
   assert(coro && coro.isAsync, "coro should be async");
 
+  // Constructs a line-based scanner gets wrong
+  const tricky = `
+def multi(
+    a: int,
+    b: str = "x, y",
+) -> dict:
+    log("call foo(bar)")
+    return {"k": helper(a)}
+
+NOTES = """
+def not_a_function():
+    pass
+"""
+`;
+  const [trickyMod] = await parsePythonFiles([{ name: "tricky.py", content: tricky }]);
+  assert(trickyMod.functions.length === 1, "code inside triple-quoted strings should not be parsed");
+  const multi = trickyMod.functions[0];
+  assert(multi.name === "multi" && multi.parameters.length === 2, "multi-line signature should be parsed");
+  assert(multi.returnHint === "dict" && multi.lineEnd === 7, "return hint and end line should be tracked");
+  assert(!multi.calls.some((c) => c.name === "foo"), "calls inside strings should be ignored");
+  assert(multi.calls.some((c) => c.name === "helper"), "nested calls should be found");
+
+  // Structured parameters with annotations, defaults and kinds
+  const [sigMod] = await parsePythonFiles([
+    {
+      name: "sig.py",
+      content: "def f(a, /, b: Dict[str, int] = {}, *args: int, c=1, **kwargs) -> None:\n    pass\n",
+    },
+  ]);
+  const [pa, pb, pargs, pc, pkwargs] = sigMod.functions[0].parameters;
+  assert(pa.name === "a" && pa.kind === "positional-only", "parameters before / are positional-only");
+  assert(pb.annotation === "Dict[str, int]" && pb.default === "{}", "annotations and defaults should not be split on commas");
+  assert(pargs.name === "args" && pargs.kind === "var-positional" && pargs.annotation === "int", "*args should be var-positional");
+  assert(pc.kind === "keyword-only" && pc.default === "1", "parameters after *args are keyword-only");
+  assert(pkwargs.name === "kwargs" && pkwargs.kind === "var-keyword", "**kwargs should be var-keyword");
+
+  // Nested functions, closures and inner classes form a definition tree
+  const [nestedMod] = await parsePythonFiles([
+    {
+      name: "nested.py",
+      content: `
+def retry(times):
+    def decorator(fn):
+        def wrapper(*args):
+            return fn(*args)
+        return wrapper
+    return decorator
+
+class Article(Model):
+    class Meta:
+        ordering = ["-created"]
+
+    def save(self):
+        @retry(3)
+        def persist():
+            write()
+        persist()
+`,
+    },
+  ]);
+  const retryFn = nestedMod.functions[0];
+  assert(retryFn.functions[0]?.name === "decorator", "nested functions should be recorded");
+  assert(retryFn.functions[0].functions[0]?.name === "wrapper", "nesting should be recursive");
+  assert(retryFn.calls.length === 0, "calls inside nested functions belong to the nested function");
+  const article = nestedMod.classes[0];
+  assert(article.classes[0]?.name === "Meta", "inner classes should be recorded");
+  const save = article.methods[0];
+  assert(save.functions[0]?.calls.some((c) => c.name === "write"), "nested function calls should be kept");
+  assert(
+    save.calls.map((c) => c.name).join(",") === "retry,persist",
+    "decorators of nested functions run in the enclosing function"
+  );
+
+  // Module constants, class attributes, dataclass fields and instance attributes
+  const [attrMod] = await parsePythonFiles([
+    {
+      name: "attrs.py",
+      content: `
+TIMEOUT: int = 30
+
+@dataclass
+class Config:
+    name: str
+    retries: int = 3
+
+    def __init__(self, name):
+        self.name = name
+        self.cache: dict[str, int] = {}
+        self.a, self.b = 1, 2
+
+    def reset(self):
+        self.cache = {}
+        self.dirty = True
+`,
+    },
+  ]);
+  const timeout = attrMod.variables[0];
+  assert(timeout.name === "TIMEOUT" && timeout.annotation === "int" && timeout.valueSnippet === "30", "annotated module variables");
+  const attrs = attrMod.classes[0].attributes;
+  assert(
+    attrs.map((a) => `${a.kind}:${a.name}`).join(",") === "class:name,class:retries,instance:cache,instance:a,instance:b,instance:dirty",
+    "attributes should be collected once each: " + attrs.map((a) => a.name).join(",")
+  );
+  assert(attrs[0].annotation === "str" && attrs[0].valueSnippet === undefined, "bare field annotations have no value");
+  assert(attrs[2].annotation === "dict[str, int]" && attrs[2].definedIn === "__init__", "annotated instance attributes");
+  assert(attrs[5].definedIn === "reset", "attributes first assigned outside __init__");
+
+  // Comments are owned by the innermost definition; markers are always extracted
+  const commentSrc = `# TODO: split this module
+import os  # noqa: F401, E402
+
+def run():
+    # FIXME(ana): handle errors
+    value = os.environ["X"]  # type: ignore[index]
+    def inner():  # pragma: no cover
+        pass
+`;
+  const [withComments] = await parsePythonFiles([{ name: "c.py", content: commentSrc }], { includeComments: true });
+  assert(withComments.comments?.map((c) => c.line).join(",") === "1,2", "module keeps comments outside definitions");
+  const runFn = withComments.functions[0];
+  assert(runFn.comments?.[0]?.text === "FIXME(ana): handle errors", "comment text drops the leading #");
+  assert(runFn.markers.map((m) => m.kind).join(",") === "fixme,type-ignore", "function markers: " + JSON.stringify(runFn.markers));
+  assert(runFn.markers[1].detail === "index", "type: ignore codes are kept");
+  assert(runFn.functions[0].markers[0]?.detail === "no cover", "nested definitions own their pragmas");
+  assert(withComments.markers[1]?.kind === "noqa" && withComments.markers[1].detail === "F401,E402", "noqa codes are kept");
+  const [withoutComments] = await parsePythonFiles([{ name: "c.py", content: commentSrc }]);
+  assert(withoutComments.comments === undefined && withoutComments.markers.length === 2, "comment text is opt-in");
+
+  // try/except blocks, caught types and raise sites
+  const [errMod] = await parsePythonFiles([
+    {
+      name: "errors.py",
+      content: `
+try:
+    import ujson as json
+except ImportError:
+    import json
+
+def load(path):
+    try:
+        return read(path)
+    except (OSError, errors.ParseError) as exc:
+        raise ConfigError("bad config") from exc
+    except KeyError as exc:
+        log(exc)
+        raise exc
+    except:
+        pass
+    finally:
+        close()
+`,
+    },
+  ]);
+  assert(errMod.tryBlocks[0]?.handlers[0].types[0] === "ImportError", "module-level try blocks are recorded");
+  const load = errMod.functions[0];
+  const [block] = load.tryBlocks;
+  assert(block.hasFinally && !block.hasElse && block.handlers.length === 3, "try block structure");
+  assert(block.handlers[0].types.join(",") === "OSError,errors.ParseError", "tuple handlers list each type");
+  assert(block.handlers[1].reraises && !block.handlers[0].reraises, "raise of the bound name is a re-raise");
+  assert(block.handlers[2].types.length === 0 && block.handlers[2].swallows, "bare silent excepts are flagged");
+  const [chained, reraised] = load.raises;
+  assert(chained.exception === "ConfigError" && chained.cause === "exc" && !chained.isReraise, "raise ... from ...");
+  assert(reraised.isReraise, "`raise exc` inside its handler is a re-raise");
+
+  // Complexity, nesting, statement and return counts
+  const [metricsMod] = await parsePythonFiles([
+    {
+      name: "metrics.py",
+      content: `
+def classify(items, strict=False):
+    if not items:
+        return None
+    elif strict and len(items) > 3:
+        return "many"
+    for item in items:
+        while item:
+            try:
+                item = item.next()
+            except StopIteration:
+                break
+    def helper():
+        if x:
+            pass
+    return [i for i in items if i]
+`,
+    },
+  ]);
+  const metrics = metricsMod.functions[0].metrics;
+  assert(metrics.cyclomaticComplexity === 9, "complexity counts if/elif/and/for/while/except/comprehension: " + metrics.cyclomaticComplexity);
+  assert(metrics.maxNestingDepth === 3, "elif does not add nesting: " + metrics.maxNestingDepth);
+  assert(metrics.statementCount === 10 && metrics.returnCount === 3, "statements and returns: " + JSON.stringify(metrics));
+  assert(metrics.lineCount === 15, "line count spans the definition");
+
+  // Docstrings are parsed into sections, style is detected and checked against the signature
+  const [docMod] = await parsePythonFiles([
+    {
+      name: "docs.py",
+      content: `
+def scale(value, factor=2):
+    """Scale a value.
+
+    Args:
+        value (float): Input value.
+        ratio: Renamed long ago.
+
+    Returns:
+        float: The scaled value.
+    """
+
+def area(w, h):
+    """Rectangle area.
+
+    Parameters
+    ----------
+    w, h : float
+        Side lengths.
+    """
+
+def open_file(self, path):
+    """Open a file.
+
+    :param str path: Location.
+    :raises OSError: On failure.
+    """
+`,
+    },
+  ]);
+  const [scaleFn, areaFn, openFn] = docMod.functions;
+  assert(scaleFn.docstringInfo?.style === "google" && scaleFn.docstringInfo.summary === "Scale a value.", "google style");
+  assert(scaleFn.docstringInfo.params[0].type === "float" && scaleFn.docstringInfo.returns?.type === "float", "google sections");
+  assert(scaleFn.undocumentedParams?.join() === "factor" && scaleFn.staleParams?.join() === "ratio", "param drift is reported");
+  assert(areaFn.docstringInfo?.style === "numpy" && areaFn.docstringInfo.params.map((p) => p.name).join() === "w,h", "numpy style");
+  assert(areaFn.undocumentedParams?.length === 0 && areaFn.staleParams?.length === 0, "numpy params match the signature");
+  assert(openFn.docstringInfo?.style === "rest" && openFn.docstringInfo.raises[0].name === "OSError", "reST fields");
+  assert(openFn.undocumentedParams?.length === 0, "self is never expected in docstrings");
+
+  // Calls inside f-string fields are real; literal text and match patterns are not
+  const [callMod] = await parsePythonFiles([
+    {
+      name: "calls.py",
+      content: `
+async def handler(req, qs):
+    log(f"call foo(bar) {render(req)!r:>{width()}} {{escaped()}}")
+    rows = await fetch(qs.filter(active=True).first())
+    match rows:
+        case Point(x=0) if check(rows):
+            pass
+`,
+    },
+  ]);
+  const callNames = callMod.functions[0].calls.map((c) => c.name);
+  assert(callNames.join(",") === "log,render,width,fetch,qs.filter,first,check", "call sites: " + callNames.join(","));
+  const byName = new Map(callMod.functions[0].calls.map((c) => [c.name, c]));
+  assert(byName.get("render")?.line === 3 && byName.get("render")?.column === 26, "f-string field calls keep their source position");
+  assert(byName.get("fetch")?.isAwaited && !byName.get("first")?.isAwaited, "only the awaited call is flagged");
+  assert(byName.get("first")?.isChained && byName.get("first")?.isArgument, "chained call passed as argument");
+  assert(!byName.get("qs.filter")?.isChained && !byName.get("log")?.isArgument, "plain calls are not flagged");
+
+  // Language features and the minimum Python version they imply
+  const [modernMod, deferredMod, legacyMod, runtimeMod] = await parsePythonFiles([
+    {
+      name: "modern.py",
+      content: `type Pair[T] = tuple[T, T]
+
+def first[T](items: list[T], /) -> T | None:
+    if (n := len(items)) > 0:
+        return items[0]
+    match n:
+        case _:
+            return None
+
+try:
+    pass
+except* ValueError:
+    pass
+`,
+    },
+    {
+      name: "deferred.py",
+      content: `from __future__ import annotations
+
+def f(x: int | None, names: list[str]) -> dict[str, int]:
+    return {f"{n}": len(n) for n in names}
+`,
+    },
+    { name: "legacy.py", content: `msg = f"{user["name"]}"\nlabel = f"{f'{x}'}"\n` },
+    {
+      name: "runtime.py",
+      content: `from __future__ import annotations, division
+
+def check(x: int | None) -> bool:
+    return isinstance(x, int | str) or issubclass(type(x), models.A | None)
+`,
+    },
+  ]);
+  const featureNames = modernMod.languageFeatures.map((f) => f.name).join(",");
+  assert(
+    featureNames === "type-alias,type-params,positional-only-params,union-operator,builtin-generics,walrus,match-statement,except-star",
+    "detected features: " + featureNames
+  );
+  assert(modernMod.languageFeatures.find((f) => f.name === "type-params")?.count === 2, "type params on the alias and the function");
+  assert(modernMod.minPythonVersion === "3.12", "PEP 695 needs 3.12: " + modernMod.minPythonVersion);
+  assert(deferredMod.futureImports.join(",") === "annotations", "future imports are listed");
+  assert(
+    deferredMod.languageFeatures.find((f) => f.name === "union-operator")?.minVersion === "3.7",
+    "deferred annotations only need PEP 563"
+  );
+  assert(deferredMod.minPythonVersion === "3.7", "deferred module floor: " + deferredMod.minPythonVersion);
+  assert(legacyMod.languageFeatures.some((f) => f.name === "nested-f-string" && f.line === 2), "nested f-strings are detected");
+  assert(legacyMod.languageFeatures.find((f) => f.name === "f-string-quote-reuse")?.line === 1, "reused quotes need PEP 701");
+  assert(legacyMod.minPythonVersion === "3.12", "PEP 701 floor: " + legacyMod.minPythonVersion);
+  const runtimeUnion = runtimeMod.languageFeatures.find((f) => f.name === "union-operator");
+  assert(runtimeUnion?.minVersion === "3.10" && runtimeUnion.count === 3, "isinstance/issubclass unions are evaluated: " + JSON.stringify(runtimeUnion));
+  assert(
+    runtimeMod.futureImports.join(",") === "annotations,division" && runtimeMod.languageFeatures.find((f) => f.name === "future-import")?.count === 1,
+    "only future features that need Python 3 count: " + JSON.stringify(runtimeMod.languageFeatures)
+  );
+  assert(runtimeMod.minPythonVersion === "3.10", "runtime union floor: " + runtimeMod.minPythonVersion);
+  const [plainMod] = await parsePythonFiles([{ name: "plain.py", content: "x = 1\n" }]);
+  assert(plainMod.languageFeatures.length === 0 && plainMod.minPythonVersion === undefined, "no features, no floor");
+
+  // Skipped code is reported instead of silently dropped
+  const brokenMods = await parsePythonFiles([
+    {
+      name: "broken.py",
+      path: "api/src/broken.py",
+      content: `def ok():
+    pass
+
+def broken(a, (b, c)):
+    pass
+
+label = f"{a b}"
+msg = "unterminated
+`,
+    },
+    { name: "broken.py", path: "web/src/broken.py", content: "x = 1\n" },
+  ]);
+  const [broken] = brokenMods;
+  assert(broken.functions.map((f) => f.name).join(",") === "ok", "valid definitions survive syntax errors");
+  assert(
+    broken.diagnostics.map((d) => `${d.severity}:${d.line}:${d.column}`).join(",") === "error:4:15,error:7:14,error:8:7",
+    "syntax errors: " + JSON.stringify(broken.diagnostics)
+  );
+  assert(broken.diagnostics.every((d) => d.file === "api/src/broken.py"), "diagnostics name their file");
+  assert(/unterminated string/.test(broken.diagnostics[2].message), "tokenizer errors win: " + broken.diagnostics[2].message);
+  assert(/^f-string: /.test(broken.diagnostics[1].message), "f-string field errors are reported");
+  const allDiagnostics = collectDiagnostics(brokenMods);
+  assert(allDiagnostics[3].file === "web/src/broken.py" && allDiagnostics[3].severity === "warning", "module name clashes are warnings");
+  assert(allDiagnostics.slice(0, 3).map((d) => d.line).join(",") === "4,7,8", "collected diagnostics are sorted by position");
+  assert(plainMod.diagnostics.length === 0, "clean files have no diagnostics");
+  // Files saved with a byte order mark (Windows editors)
+  const [bomMod] = await parsePythonFiles([{ name: "bom.py", content: "\uFEFFimport os\r\n\r\ndef run():\r\n    return os.getcwd()\r\n" }]);
+  assert(bomMod.diagnostics.length === 0, "a leading byte order mark is not a syntax error: " + JSON.stringify(bomMod.diagnostics));
+  assert(bomMod.imports[0]?.module === "os" && bomMod.functions[0]?.name === "run" && bomMod.functions[0].lineStart === 3, "byte order mark files parse fully");
+
+  // Relative imports keep their level separately from the module name
+  const [relMod] = await parsePythonFiles([
+    { name: "views.py", content: "from . import models\nfrom ..core.models import User\nimport os\n" },
+  ]);
+  const [dotImport, parentImport, osImport] = relMod.imports;
+  assert(dotImport.module === "" && dotImport.level === 1, "`from . import x` should have level 1");
+  assert(parentImport.module === "core.models" && parentImport.level === 2, "`from ..core.models` should have level 2");
+  assert(osImport.level === 0, "plain imports are absolute");
+
+  // Import scope and guards: runtime, type-only, lazy and optional imports
+  const [guardMod] = await parsePythonFiles([
+    {
+      name: "guards.py",
+      content: `from typing import TYPE_CHECKING
+
+if TYPE_CHECKING:
+    from app.models import User
+else:
+    User = None
+
+try:
+    import ujson as json
+except (ImportError, AttributeError):
+    import json
+
+if sys.version_info >= (3, 11):
+    import tomllib
+
+class Loader:
+    def load(self):
+        import yaml
+        return yaml
+`,
+    },
+  ]);
+  const guarded = new Map(guardMod.imports.map((i) => [i.names[0].alias ?? i.names[0].name, i]));
+  assert(
+    guardMod.imports.map((i) => i.usage).join(",") === "runtime,type-only,optional,optional,runtime,lazy",
+    "import usage: " + guardMod.imports.map((i) => i.usage).join(",")
+  );
+  assert(guarded.get("User")?.guard?.kind === "type-checking" && guarded.get("User")?.guard?.line === 3, "TYPE_CHECKING guard");
+  assert(guarded.get("TYPE_CHECKING")?.guard === undefined && guarded.get("TYPE_CHECKING")?.scope === "module", "top-level imports");
+  assert(guarded.get("json")?.guard?.kind === "except" && guarded.get("json")?.guard?.condition === "ImportError, AttributeError", "fallback import");
+  assert(guarded.get("tomllib")?.guard?.condition === "sys.version_info >= (3, 11)", "conditional imports keep the test");
+  assert(guarded.get("yaml")?.scope === "function" && guarded.get("yaml")?.scopeName === "Loader.load", "function-level imports");
+
+  // __all__ assignments, additions and computed parts
+  const [allMod, noAllMod] = await parsePythonFiles([
+    {
+      name: "api.py",
+      content: `__all__ = ["load", "dump"]
+__all__ += ["Config"]
+if sys.version_info >= (3, 11):
+    __all__.append("loads")
+__all__.extend(base.__all__)
+`,
+    },
+    { name: "plain.py", content: "def load():\n    pass\n" },
+  ]);
+  assert(allMod.exportList?.names.join(",") === "load,dump,Config,loads", "__all__ names: " + allMod.exportList?.names.join(","));
+  assert(allMod.exportList.line === 1 && allMod.exportList.isDynamic, "computed __all__ entries are flagged");
+  assert(noAllMod.exportList === undefined, "modules without __all__");
+
+  // Black-style parenthesized imports, trailing comments, continuations and wildcards
+  const [blackMod] = await parsePythonFiles([
+    {
+      name: "black.py",
+      content: `from app.models import (  # models used below
+    User,
+    Group as G,  # alias
+)
+import os.path, \\
+    sys
+from app.helpers import *
+`,
+    },
+  ]);
+  const [modelsImport, osPathImport, starImport] = blackMod.imports;
+  assert(
+    modelsImport.names.map((n) => n.name + (n.alias ? ":" + n.alias : "")).join(",") === "User,Group:G",
+    "parenthesized import names should be parsed"
+  );
+  assert(modelsImport.code === "from app.models import (User, Group as G)", "import code should drop comments: " + modelsImport.code);
+  assert(osPathImport.names.map((n) => n.name).join(",") === "os.path,sys", "backslash continuations should be joined");
+  assert(starImport.module === "app.helpers" && starImport.names[0].name === "*", "wildcard imports should be kept");
+
+  // Package-aware module names from upload paths
+  const pkgMods = await parsePythonFiles([
+    { name: "__init__.py", path: "repo/src/app/__init__.py", content: "" },
+    { name: "utils.py", path: "repo/src/app/utils.py", content: "" },
+    { name: "utils.py", path: "repo/src/app/core/utils.py", content: "" },
+    { name: "__init__.py", path: "repo/src/app/core/__init__.py", content: "" },
+    { name: "run.py", path: "repo/scripts/run.py", content: "" },
+  ]);
+  const pkgNames = pkgMods.map((m) => m.moduleName).join(",");
+  assert(pkgNames === "app,app.utils,app.core.utils,app.core,scripts.run", "module names should be dotted: " + pkgNames);
+  assert(pkgMods[2].packageName === "app.core" && pkgMods[3].isPackage, "package membership should be tracked");
+
+  // Jupyter notebooks: code cells joined in order, magics blanked, positions mapped back to cells
+  const notebookJson = JSON.stringify({
+    cells: [
+      { cell_type: "markdown", source: ["# Exploration\n"] },
+      { cell_type: "code", execution_count: 1, source: ["%matplotlib inline\n", "import pandas as pd\n", "!pip install rich"] },
+      { cell_type: "code", execution_count: 2, source: "%%bash\necho hi" },
+      { cell_type: "code", execution_count: null, source: ["def load(path):\n", "    return pd.read_csv(path)\n", "\n", "x = (\n"] },
+    ],
+    metadata: {},
+  });
+  const [nbMod, brokenNbMod] = await parsePythonFiles([
+    { name: "explore.ipynb", path: "notebooks/explore.ipynb", content: notebookJson },
+    { name: "broken.ipynb", path: "notebooks/broken.ipynb", content: "{not json" },
+  ]);
+  assert(nbMod.moduleName === "explore" && !nbMod.isStub, "notebook module name drops .ipynb: " + nbMod.moduleName);
+  assert(
+    nbMod.notebookCells?.map((c) => `${c.cell}:${c.executionCount ?? "-"}:${c.lineStart}-${c.lineEnd}`).join(",") === "2:1:1-3,3:2:4-5,4:-:6-9",
+    "code cells: " + JSON.stringify(nbMod.notebookCells)
+  );
+  assert(nbMod.imports.length === 1 && nbMod.imports[0].module === "pandas", "magics and shell escapes are not parsed");
+  assert(nbMod.imports[0].line === 2 && nbMod.imports[0].cellLocation?.cell === 2 && nbMod.imports[0].cellLocation.line === 2, "import cell location");
+  const [loadFn] = nbMod.functions;
+  assert(loadFn.lineStart === 6 && loadFn.cellLocation?.cell === 4 && loadFn.cellLocation.line === 1, "function cell location");
+  const nbError = nbMod.diagnostics.find((d) => d.severity === "error");
+  assert(nbError?.cell === 4 && nbError.line < 6, "notebook diagnostics are cell-relative: " + JSON.stringify(nbError));
+  assert(brokenNbMod.diagnostics[0]?.message.startsWith("invalid notebook JSON"), "invalid notebooks are reported");
+
+  // Malformed cell sources are reported and skipped; a syntax error does not hide the cells after it
+  const [partialNbMod] = await parsePythonFiles([
+    {
+      name: "partial.ipynb",
+      content: JSON.stringify({
+        cells: [
+          { cell_type: "code", source: 42 },
+          { cell_type: "code", source: ["import os\n", "rows = [(1, 2),\n"] },
+          { cell_type: "code", source: { text: "x" } },
+          { cell_type: "code", source: ["def later(path):\n", "    return os.path.exists(path)\n"] },
+          { cell_type: "code", source: 'value = """unterminated' },
+          { cell_type: "code", source: "class After:\n    pass\n" },
+        ],
+      }),
+    },
+  ]);
+  assert(
+    partialNbMod.diagnostics
+      .filter((d) => d.message.includes("source is not text"))
+      .map((d) => d.message)
+      .join(" | ") === "cell 1: source is not text; cell skipped | cell 3: source is not text; cell skipped",
+    "malformed cell sources: " + JSON.stringify(partialNbMod.diagnostics)
+  );
+  const [laterFn] = partialNbMod.functions;
+  assert(laterFn?.name === "later" && laterFn.cellLocation?.cell === 4 && laterFn.cellLocation.line === 1, "cells after a syntax error are parsed");
+  assert(laterFn.calls.some((c) => c.name === "os.path.exists") && laterFn.codeExcerpt?.startsWith("def later(path):"), "positions map into the joined source");
+  assert(partialNbMod.classes[0]?.name === "After" && partialNbMod.classes[0].cellLocation?.cell === 6, "unterminated strings stay in their cell");
+  assert(partialNbMod.imports[0]?.module === "os", "definitions before the error are kept");
+  const syntaxErrorCells = new Set(partialNbMod.diagnostics.filter((d) => d.cell !== undefined).map((d) => d.cell));
+  assert(syntaxErrorCells.has(2) && syntaxErrorCells.has(5) && !syntaxErrorCells.has(4), "syntax errors stay in their cells: " + JSON.stringify(partialNbMod.diagnostics));
+
+  // Only magics that start a logical line are blanked: `%`/`!` lines inside strings and expressions are Python
+  const [magicNbMod] = await parsePythonFiles([
+    {
+      name: "magic.ipynb",
+      content: JSON.stringify({
+        cells: [
+          {
+            cell_type: "code",
+            source: ["def report(a, b):\n", '    """Format a row.\n', "\n", "    %(name)s is replaced; see '''docs'''\n", "    !important\n", '    """\n', "    return (a\n", "            != b)\n"],
+          },
+          { cell_type: "code", source: ["!ls\n", "%time report(1, 2)\n", "same = 1 \\\n", "    != 2\n"] },
+        ],
+      }),
+    },
+  ]);
+  const [reportFn] = magicNbMod.functions;
+  assert(reportFn?.docstring?.includes("%(name)s is replaced") && reportFn.docstring.includes("!important"), "magic-like docstring lines are kept");
+  assert(magicNbMod.diagnostics.length === 0, "magic-like continuation lines are kept: " + JSON.stringify(magicNbMod.diagnostics));
+  assert(magicNbMod.variables.map((v) => v.name).join(",") === "same", "magics that start a line are still blanked");
+
+  // .pyi stubs: merged into the matching module as its type source; stub-only modules stay
+  const stubbedFiles = [
+    {
+      name: "client.py",
+      path: "pkg/client.py",
+      content: `TIMEOUT = 30
+
+class Client:
+    retries = 3
+
+    def get(self, url, *, timeout=None):
+        return url
+
+def fetch(url: str, retries=0):
+    pass
+
+def parse(data):
+    pass
+`,
+    },
+    {
+      name: "client.pyi",
+      path: "pkg/client.pyi",
+      content: `from typing import overload
+
+TIMEOUT: int
+
+class Client:
+    retries: int
+    def get(self, url: str, *, timeout: float | None = ...) -> bytes: ...
+
+def fetch(url: bytes, retries: int = ...) -> None: ...
+
+@overload
+def parse(data: str) -> str: ...
+@overload
+def parse(data: bytes) -> bytes: ...
+`,
+    },
+    { name: "ext.pyi", path: "pkg/ext.pyi", content: "def native(x: int | None) -> list[int]: ...\n" },
+  ];
+  const stubbed = await parsePythonFiles(stubbedFiles);
+  assert(stubbed.length === 2, "merged stubs are dropped: " + stubbed.map((m) => m.filePath).join(","));
+  const [clientMod, extMod] = stubbed;
+  assert(clientMod.stubPath === "pkg/client.pyi" && !clientMod.isStub, "implementation records its stub");
+  const [getMethod] = clientMod.classes[0].methods;
+  assert(
+    getMethod.parameters.map((p) => p.annotation ?? "-").join(",") === "-,str,float | None" && getMethod.returnHint === "bytes" && getMethod.hasStub,
+    "method annotations from the stub: " + JSON.stringify(getMethod.parameters)
+  );
+  const [fetchFn, parseFn] = clientMod.functions;
+  assert(fetchFn.parameters[0].annotation === "str" && fetchFn.parameters[1].annotation === "int", "inline annotations win over the stub");
+  assert(parseFn.parameters[0].annotation === undefined && !parseFn.hasStub, "overloaded stubs are not merged");
+  assert(clientMod.variables[0].annotation === "int" && clientMod.classes[0].attributes[0].annotation === "int", "variable annotations from the stub");
+  assert(extMod.isStub && extMod.moduleName === "ext" && extMod.minPythonVersion === undefined, "stub annotations are not evaluated: " + extMod.minPythonVersion);
+
+  // Parse cache: keyed by content and options; cached modules are copies
+  const store = createMemoryParseCache();
+  const gets: boolean[] = [];
+  const countingStore = {
+    get: async (key: string) => {
+      const mod = await store.get(key);
+      gets.push(mod !== undefined);
+      return mod;
+    },
+    set: (key: string, mod: ParsedModule) => store.set(key, mod),
+  };
+  const cachedFile = { name: "cached.py", content: "def f(x):\n    return x\n" };
+  const [firstParse] = await parsePythonFiles([cachedFile], { cache: countingStore });
+  firstParse.functions[0].name = "mutated";
+  const [secondParse] = await parsePythonFiles([cachedFile], { cache: countingStore });
+  await parsePythonFiles([cachedFile], { cache: countingStore, includeComments: true });
+  await parsePythonFiles([{ ...cachedFile, content: cachedFile.content + "\n" }], { cache: countingStore });
+  assert(gets.join(",") === "false,true,false,false", "cache hits only for identical content and options: " + gets.join(","));
+  assert(secondParse.functions[0].name === "f", "cached modules are not shared with callers");
+  assert(/^[0-9a-f]{64}$/.test(secondParse.contentHash), "content hash: " + secondParse.contentHash);
+  // Stores may keep and return the objects they are given: stub merging and name clash warnings do not leak into them
+  const sharedEntries = new Map<string, ParsedModule>();
+  const sharedStore = {
+    get: async (key: string) => sharedEntries.get(key),
+    set: async (key: string, mod: ParsedModule) => void sharedEntries.set(key, mod),
+  };
+  const sharedFiles = [
+    ...stubbedFiles,
+    { name: "dup.py", path: "a/src/dup.py", content: "x = 1\n" },
+    { name: "dup.py", path: "b/src/dup.py", content: "y = 2\n" },
+  ];
+  const [{ contentHash: mergedHash }] = await parsePythonFiles(sharedFiles, { cache: sharedStore });
+  const [sharedClient, , , sharedDup] = await parsePythonFiles(sharedFiles, { cache: sharedStore });
+  assert(sharedClient.contentHash === mergedHash, "merged stub hashes do not pile up: " + sharedClient.contentHash);
+  assert(sharedDup.diagnostics.length === 1, "name clash warnings do not pile up: " + JSON.stringify(sharedDup.diagnostics));
+  // The memory store is bounded by module size as well as count
+  const tinyStore = createMemoryParseCache(500, 100);
+  await tinyStore.set("key", firstParse);
+  assert((await tinyStore.get("key")) === undefined, "modules over the size budget are not kept");
+
+  // A custom per-file executor (as used by the worker pool) produces the same modules in upload order
+  const batchFiles = [cachedFile, ...stubbedFiles, { name: "explore.ipynb", content: notebookJson }];
+  const batched = await parsePythonFilesWith(batchFiles, { cache: null }, async (jobs) => parseModuleJobs([...jobs].reverse()).reverse());
+  assert(JSON.stringify(batched) === JSON.stringify(await parsePythonFiles(batchFiles, { cache: null })), "executor output should match");
+
+  // Decorators with arguments, and framework entry points
+  const frameworkFiles = [
+    {
+      name: "api.py",
+      content: `from fastapi import APIRouter
+from flask import Blueprint
+
+router = APIRouter()
+bp = Blueprint("items", __name__)
+
+@router.get("/items/{item_id}", response_model=Item)
+async def read_item(item_id: int):
+    ...
+
+@bp.route("/items/<int:item_id>", methods=["GET", "POST"])
+def item(item_id):
+    ...
+
+@functools.lru_cache(maxsize=None, **opts)
+def helper():
+    ...
+`,
+    },
+    {
+      name: "jobs.py",
+      content: `import click
+from celery import shared_task
+from proj.celery import app
+
+@click.group()
+def cli():
+    ...
+
+@cli.command("sync-all")
+@click.option("--dry-run", is_flag=True)
+def sync(dry_run):
+    ...
+
+@app.task(bind=True, name="jobs.refresh")
+def refresh(self):
+    ...
+
+@shared_task
+def cleanup():
+    ...
+`,
+    },
+    {
+      name: "views.py",
+      content: `from django.urls import path, include
+from django.views.decorators.http import require_POST
+from rest_framework import viewsets
+from . import views
+
+class ItemViewSet(viewsets.ModelViewSet):
+    def get(self, request): ...
+    def post(self, request): ...
+
+@require_POST
+def submit(request): ...
+
+urlpatterns = [
+    path("items/<int:pk>/", views.item_detail, name="item-detail"),
+    path("api/", include("api.urls")),
+]
+urlpatterns += [path("submit/", submit)]
+router.register("items", ItemViewSet, basename="item")
+`,
+    },
+    {
+      name: "conftest.py",
+      content: `import pytest
+from pytest import fixture
+
+@pytest.fixture(scope="session")
+def db():
+    ...
+
+@fixture
+def tmp_dir():
+    ...
+`,
+    },
+  ];
+  const [apiMod, jobsMod, viewsMod, conftestMod] = await parsePythonFiles(frameworkFiles);
+  const [readItem, itemFn, helperFn] = apiMod.functions;
+  assert(
+    JSON.stringify(readItem.decoratorInfo[0]) ===
+      JSON.stringify({
+        name: "router.get",
+        isCall: true,
+        args: ['"/items/{item_id}"'],
+        kwargs: { response_model: "Item" },
+        argValues: [{ kind: "string", value: "/items/{item_id}" }],
+        kwargValues: { response_model: { kind: "other" } },
+        line: 7,
+      }),
+    "decorator info: " + JSON.stringify(readItem.decoratorInfo)
+  );
+  assert(
+    JSON.stringify(readItem.entryPoints) ===
+      JSON.stringify([{ kind: "route", framework: "fastapi", name: "/items/{item_id}", registrar: "router", options: { response_model: "Item" }, line: 7, methods: ["GET"] }]),
+    "fastapi route: " + JSON.stringify(readItem.entryPoints)
+  );
+  assert(itemFn.entryPoints[0].methods?.join(",") === "GET,POST" && itemFn.entryPoints[0].registrar === "bp", "flask route methods");
+  assert(helperFn.entryPoints.length === 0 && helperFn.decoratorInfo[0].kwargs["**"] === "opts", "plain decorators are not entry points");
+  // Flask-style `@app.route` in Starlette and Quart apps
+  const [starletteMod, quartMod] = await parsePythonFiles([
+    {
+      name: "asgi.py",
+      content: `from starlette.applications import Starlette\n\napp = Starlette()\n\n@app.route("/health", methods=["GET"])\nasync def health(request):\n    ...\n`,
+    },
+    {
+      name: "qapp.py",
+      content: `from quart import Quart\n\napp = Quart(__name__)\n\n@app.route("/")\nasync def index():\n    ...\n\n@app.get("/items")\nasync def items():\n    ...\n`,
+    },
+  ]);
+  assert(starletteMod.functions[0].entryPoints[0]?.framework === "starlette", "starlette routes: " + JSON.stringify(starletteMod.functions[0].entryPoints));
+  assert(quartMod.functions.every((f) => f.entryPoints[0]?.framework === "quart"), "quart routes: " + JSON.stringify(quartMod.functions.map((f) => f.entryPoints)));
+
+  const [cliFn, syncFn, refreshFn, cleanupFn] = jobsMod.functions;
+  assert(cliFn.entryPoints[0].kind === "cli-command" && cliFn.entryPoints[0].isGroup && cliFn.entryPoints[0].name === "cli", "click group");
+  assert(syncFn.entryPoints.length === 1 && syncFn.entryPoints[0].name === "sync-all" && syncFn.entryPoints[0].registrar === "cli", "click command");
+  assert(
+    refreshFn.entryPoints[0].kind === "task" && refreshFn.entryPoints[0].name === "jobs.refresh" && refreshFn.entryPoints[0].options?.bind === "True",
+    "celery task: " + JSON.stringify(refreshFn.entryPoints)
+  );
+  assert(cleanupFn.entryPoints[0].framework === "celery" && cleanupFn.entryPoints[0].name === "cleanup", "shared task");
+
+  assert(viewsMod.classes[0].entryPoints[0].methods?.join(",") === "GET,POST", "class-based view methods");
+  assert(viewsMod.functions[0].entryPoints[0].kind === "view" && viewsMod.functions[0].entryPoints[0].methods?.join(",") === "POST", "function view");
+  assert(
+    viewsMod.entryPoints.map((e) => `${e.name}=${e.handler}${e.registrar ? "@" + e.registrar : ""}`).join(" ") ===
+      "items/<int:pk>/=views.item_detail submit/=submit items=ItemViewSet@router",
+    "urlpatterns and router registrations: " + JSON.stringify(viewsMod.entryPoints)
+  );
+  const [dbFixture, tmpDirFixture] = conftestMod.functions.map((f) => f.entryPoints[0]);
+  assert(dbFixture?.kind === "fixture" && dbFixture.options?.scope === '"session"', "pytest fixture: " + JSON.stringify(dbFixture));
+  assert(tmpDirFixture?.kind === "fixture" && tmpDirFixture.name === "tmp_dir", "fixture imported from pytest");
+  assert(conftestMod.testFramework === "pytest" && conftestMod.functions[0].testRole === "fixture", "conftest.py is a test module");
+  assert(apiMod.testFramework === undefined && readItem.testRole === undefined, "production modules are not classified");
+
+  // Argument values come from the syntax tree: concatenated strings, nested brackets, f-strings
+  const [argsMod, argsTestMod] = await parsePythonFiles([
+    {
+      name: "routes.py",
+      content: `from flask import Flask
+
+app = Flask(__name__)
+
+@app.route("/reports/" "daily", methods=("GET", "HEAD"))
+def daily(): ...
+
+@app.route(f"/{PREFIX}/weekly")
+def weekly(): ...
+
+@app.route("/monthly", methods=["GET", method_for("monthly")])
+def monthly(): ...
+`,
+    },
+    {
+      name: "test_args.py",
+      content: `import pytest
+
+@pytest.mark.parametrize(argnames=("x", "y"), argvalues=[(1, [2, 3]), ({"k": (4, 5)}, "a,b"), pytest.param(")", "]")])
+def test_nested(x, y): ...
+`,
+    },
+  ]);
+  const [daily, weekly, monthly] = argsMod.functions.map((f) => f.entryPoints[0]);
+  assert(daily?.name === "/reports/daily" && daily.methods?.join(",") === "GET,HEAD", "implicitly concatenated paths: " + JSON.stringify(daily));
+  assert(weekly === undefined, "f-string paths are not literal");
+  assert(monthly?.name === "/monthly" && monthly.methods === undefined, "methods must all be literal");
+  assert(
+    JSON.stringify(argsTestMod.functions[0].parametrize) === JSON.stringify([{ argnames: ["x", "y"], cases: 3, line: 3 }]),
+    "nested brackets and commas in strings: " + JSON.stringify(argsTestMod.functions[0].parametrize)
+  );
+
+  // Test modules: collected tests, parametrization and setup hooks
+  const [pytestMod, unittestMod, helpersMod] = await parsePythonFiles([
+    {
+      name: "test_calc.py",
+      path: "tests/test_calc.py",
+      content: `import pytest
+from calc import add
+
+@pytest.mark.parametrize("a, b", [(1, 2), (3, 4), pytest.param(5, 6, id="big")])
+@pytest.mark.parametrize(["sign"], [(1,), (-1,)])
+def test_add(a, b, sign, tmp_path):
+    assert add(a, b)
+
+def setup_module():
+    ...
+
+def helper():
+    ...
+
+class TestAdd:
+    def setup_method(self):
+        ...
+
+    def test_zero(self):
+        assert add(0, 0) == 0
+
+class TestNotCollected:
+    def __init__(self):
+        ...
+
+    def test_skipped(self):
+        ...
+`,
+    },
+    {
+      name: "calc_test.py",
+      content: `import unittest
+
+class CalcTest(unittest.TestCase):
+    def setUp(self):
+        ...
+
+    def test_add(self):
+        ...
+`,
+    },
+    { name: "helpers.py", path: "tests/helpers.py", content: "def make_user():\n    ...\n" },
+  ]);
+  const [testAdd, setupModule, helperFn2] = pytestMod.functions;
+  assert(pytestMod.testFramework === "pytest" && testAdd.testRole === "test", "pytest test function");
+  assert(
+    JSON.stringify(testAdd.parametrize) ===
+      JSON.stringify([
+        { argnames: ["a", "b"], cases: 3, line: 4 },
+        { argnames: ["sign"], cases: 2, line: 5 },
+      ]),
+    "parametrize: " + JSON.stringify(testAdd.parametrize)
+  );
+  assert(setupModule.testRole === "setup" && helperFn2.testRole === undefined, "module hooks and helpers");
+  const [testClass, notCollected] = pytestMod.classes;
+  assert(testClass.isTestClass && testClass.methods.map((m) => m.testRole).join(",") === "setup,test", "pytest test class");
+  assert(!notCollected.isTestClass && notCollected.methods[1].testRole === undefined, "classes with __init__ are not collected");
+  assert(unittestMod.testFramework === "unittest" && unittestMod.classes[0].methods.map((m) => m.testRole).join(",") === "setup,test", "unittest");
+  assert(helpersMod.testFramework === "pytest" && helpersMod.functions[0].testRole === undefined, "helpers under tests/ are test code");
+
+  // Structured annotations and per-signature type coverage
+  const [typedMod] = await parsePythonFiles([
+    {
+      name: "typed.py",
+      content: `from typing import Any, Dict, List, Optional, Union
+import typing as t
+
+class Repo:
+    def find(self, key: Optional[int], tags: list[str] | None = None) -> "User | None":
+        ...
+
+def load(data: Dict[str, Any], *rest: t.List[int], **kw) -> Union[int, str, None]:
+    ...
+
+def pick(mode: Literal["a", "b"], cb: Callable[[int], str]):
+    ...
+`,
+    },
+  ]);
+  const find = typedMod.classes[0].methods[0];
+  assert(
+    JSON.stringify(find.parameters[1].annotationType) ===
+      JSON.stringify({ kind: "union", syntax: "optional", members: [{ kind: "name", name: "int" }, { kind: "name", name: "None" }] }),
+    "Optional: " + JSON.stringify(find.parameters[1].annotationType)
+  );
+  assert(
+    JSON.stringify(find.parameters[2].annotationType) ===
+      JSON.stringify({
+        kind: "union",
+        syntax: "pep604",
+        members: [
+          { kind: "generic", name: "list", origin: "builtin", args: [{ kind: "name", name: "str" }] },
+          { kind: "name", name: "None" },
+        ],
+      }),
+    "PEP 604 union of a builtin generic"
+  );
+  assert(
+    find.returnType?.kind === "forward-ref" && find.returnType.type?.kind === "union" && find.returnType.type.members.length === 2,
+    "forward references are parsed: " + JSON.stringify(find.returnType)
+  );
+  assert(
+    JSON.stringify(find.typeCoverage) ===
+      JSON.stringify({ annotatableParams: 2, annotatedParams: 2, returnAnnotated: true, pep604Unions: 2, typingUnions: 1, builtinGenerics: 1, typingGenerics: 0, forwardRefs: 1, anys: 0 }),
+    "method coverage: " + JSON.stringify(find.typeCoverage)
+  );
+  const [loadTyped, pickFn] = typedMod.functions;
+  assert(loadTyped.returnType?.kind === "union" && loadTyped.returnType.members.length === 3, "Union members");
+  assert(
+    loadTyped.typeCoverage.typingGenerics === 2 && loadTyped.typeCoverage.anys === 1 && loadTyped.typeCoverage.annotatedParams === 2 && loadTyped.typeCoverage.annotatableParams === 3,
+    "typing aliases, Any and unannotated **kw: " + JSON.stringify(loadTyped.typeCoverage)
+  );
+  const [modeType, cbType] = pickFn.parameters.map((p) => p.annotationType);
+  assert(modeType?.kind === "generic" && modeType.args.every((a) => a.kind === "literal"), "Literal values are not types");
+  assert(cbType?.kind === "generic" && cbType.origin === "other" && cbType.args[0].kind === "list", "Callable parameter lists");
+  assert(!pickFn.typeCoverage.returnAnnotated, "missing return annotation");
+
+  // Class kinds from decorators, bases and metaclass
+  const [kindsMod] = await parsePythonFiles([
+    {
+      name: "kinds.py",
+      content: `import abc
+import enum
+from dataclasses import dataclass
+from attrs import define
+from typing import NamedTuple, Protocol, TypedDict, Generic, TypeVar
+from pydantic import BaseModel
+
+@dataclass(frozen=True)
+class Point: ...
+
+@define
+class Account: ...
+
+class Color(enum.IntEnum): ...
+
+class Reader(Protocol[T]): ...
+
+class Row(NamedTuple): ...
+
+class Payload(TypedDict, total=False): ...
+
+class User(BaseModel): ...
+
+class Base(abc.ABC): ...
+
+class Legacy(metaclass=abc.ABCMeta): ...
+
+class NotFound(LookupError): ...
+
+class Box(Generic[T]): ...
+`,
+    },
+  ]);
+  assert(
+    kindsMod.classes.map((c) => `${c.name}:${c.kind}`).join(" ") ===
+      "Point:dataclass Account:attrs Color:enum Reader:protocol Row:namedtuple Payload:typeddict User:pydantic Base:abc Legacy:abc NotFound:exception Box:plain",
+    "class kinds: " + kindsMod.classes.map((c) => `${c.name}:${c.kind}`).join(" ")
+  );
+  assert(kindsMod.classes[8].metaclass === "abc.ABCMeta" && kindsMod.classes[0].metaclass === undefined, "metaclass keyword");
+  // A project's own `BaseModel` is not a pydantic model
+  const [ormMod] = await parsePythonFiles([
+    {
+      name: "orm.py",
+      content: `from django.db import models
+from app.models import BaseModel
+
+class Article(BaseModel): ...
+
+class Tag(models.BaseModel): ...
+`,
+    },
+  ]);
+  assert(ormMod.classes.every((c) => c.kind === "plain"), "BaseModel bases need a pydantic import");
+
+  // Method kinds, generators, context managers and async details
+  const [flowMod] = await parsePythonFiles([
+    {
+      name: "flow.py",
+      content: `import asyncio
+from contextlib import contextmanager, asynccontextmanager
+
+class Store:
+    @property
+    def size(self):
+        return 1
+
+    @size.setter
+    def size(self, value):
+        pass
+
+    @classmethod
+    def open(cls):
+        yield from cls.rows()
+
+    @staticmethod
+    def rows():
+        def inner():
+            yield 1
+        return inner()
+
+@contextmanager
+def session():
+    yield 1
+
+@asynccontextmanager
+async def connect():
+    async with lock:
+        yield conn
+
+async def crawl(urls):
+    pages = await asyncio.gather(*[fetch(u) for u in urls])
+    async with asyncio.TaskGroup() as tg:
+        tg.create_task(save(pages))
+    async for chunk in stream():
+        await write(chunk)
+    return [x async for x in stream()]
+
+async def noop():
+    return None
+`,
+    },
+  ]);
+  const [size, sizeSetter, openRows, rows] = flowMod.classes[0].methods;
+  assert(size.methodKind === "property" && sizeSetter.methodKind === "setter", "property and setter");
+  assert(openRows.methodKind === "classmethod" && openRows.generator?.yieldFroms === 1 && openRows.generator.yields === 0, "yield from generator");
+  assert(rows.methodKind === "staticmethod" && rows.generator === undefined && rows.functions[0].generator?.yields === 1, "nested yields stay nested");
+  const [sessionFn, connectFn, crawlFn, noopFn] = flowMod.functions;
+  assert(sessionFn.contextManager === "sync" && sessionFn.generator?.yields === 1 && sessionFn.asyncDetails === undefined, "context manager");
+  assert(connectFn.contextManager === "async" && connectFn.asyncDetails?.asyncWith === 1 && connectFn.generator !== undefined, "async context manager");
+  assert(
+    JSON.stringify(crawlFn.asyncDetails) ===
+      JSON.stringify({ awaitLines: [33, 37], asyncWith: 1, asyncFor: 2, gathers: 1, taskGroups: 1, spawnedTasks: 1 }),
+    "async details: " + JSON.stringify(crawlFn.asyncDetails)
+  );
+  assert(noopFn.asyncDetails?.awaitLines.length === 0 && noopFn.methodKind === undefined && noopFn.generator === undefined, "async without await");
+
   console.log("All dev assertions passed.");
 }
 
@@ -2,56 +2,380 @@ import type {
   UploadedFile,
   ParseOptions,
   ParseResult,
+  ParseDiagnostic,
   ParsedModule,
   ParsedFunction,
+  ParsedParameter,
+  ParsedAttribute,
+  ParsedComment,
+  ParsedCommentMarker,
+  ParsedTryBlock,
+  ParsedRaise,
+  ParsedFunctionMetrics,
+  ParsedDocstring,
   ParsedClass,
   ParsedImport,
+  ParsedImportGuard,
+  ImportUsage,
   ParsedVariable,
+  ParsedExportList,
   ParsedCall,
+  ParsedNotebookCell,
+  ParsedDecorator,
+  ParsedArgumentValue,
 } from "@/lib/types";
+import { parsePythonModule, walkPy, childNodes, dottedName } from "@/lib/python-ast";
+import { normalizeSource } from "@/lib/python-tokenizer";
+import { parseDocstring } from "@/lib/docstring-parser";
+import { detectLanguageFeatures } from "@/lib/python-features";
+import { notebookToSource, parseNotebookSource, cellLocation } from "@/lib/notebook";
+import { createMemoryParseCache, contentHash } from "@/lib/parse-cache";
+import { functionEntryPoints, classEntryPoints, urlPatternEntryPoints } from "@/lib/python-frameworks";
+import { detectTestFramework, classifyTests } from "@/lib/python-tests";
+import { parseAnnotation, typeCoverage } from "@/lib/python-annotations";
+import { classifyClass } from "@/lib/python-class-kinds";
+import { classifyFunction } from "@/lib/python-function-kinds";
+import type { PyNode, PyStmt, PyExpr, PyName, PyAttribute, PyFunctionDef, PyClassDef, PyArguments, PySpan, PySyntaxError, PyExceptHandler } from "@/lib/python-ast";
+import type { PyToken } from "@/lib/python-tokenizer";
 
 /**
- * Regex-first Python parser (MVP):
- * - Extracts classes, functions, imports, top-level variables, and basic call sites.
- * - Tracks line numbers (1-based) and best-effort code excerpts.
+ * Python parser backed by a tokenizer and syntax tree (see python-ast.ts):
+ * - Extracts classes, functions, imports, top-level variables, class/instance attributes, and call sites.
+ * - Tracks line numbers (1-based) and code excerpts from node spans.
+ * - Accepts `.pyi` stubs (merged into their implementation module) and Jupyter notebooks (code cells only).
+ * - Classifies pytest/unittest modules and their tests, fixtures and setup hooks (see python-tests.ts).
+ * - Records method kinds, generators, context managers and async usage of functions (see python-function-kinds.ts).
+ * - Caches each file's module by content hash, path, module location and options (ParseOptions.cache).
  */
 export async function parsePythonFiles(files: UploadedFile[], options?: ParseOptions): Promise<ParseResult> {
+  return parsePythonFilesWith(files, options, async (jobs) => parseModuleJobs(jobs));
+}
+
+export default parsePythonFiles;
+
+/**
+ * parsePythonFiles with the per-file parsing step supplied by the caller (e.g. a worker pool, see parse-workers.ts).
+ * Module names, caching, stub merging and cross-file diagnostics stay on the calling thread.
+ */
+export async function parsePythonFilesWith(
+  files: UploadedFile[],
+  options: ParseOptions | undefined,
+  parseJobs: (jobs: ParseJob[]) => Promise<ParsedModule[]>
+): Promise<ParseResult> {
   const includeDocstrings = options?.includeDocstrings ?? true;
+  const includeComments = options?.includeComments ?? false;
+  const cache = options?.cache === undefined ? defaultParseCache : options.cache;
+  const locations = resolveModuleLocations(files);
+
+  const jobs: ParseJob[] = await Promise.all(
+    files.map(async (file, i) => ({ file, location: locations[i], hash: await contentHash(file.content), includeDocstrings, includeComments }))
+  );
+  const keys = jobs.map((job) =>
+    JSON.stringify([PARSE_CACHE_VERSION, job.hash, job.file.path ?? job.file.name, job.location, includeDocstrings, includeComments])
+  );
+  // Modules are copied to and from the store: stub merging and the checks below modify them
+  const parsed = await Promise.all(
+    keys.map(async (key) => {
+      const cached = await cache?.get(key);
+      return cached ? structuredClone(cached) : undefined;
+    })
+  );
+  const missing = jobs.flatMap((job, i) => (parsed[i] === undefined ? [i] : []));
+  const fresh = missing.length > 0 ? await parseJobs(missing.map((i) => jobs[i])) : [];
+  for (const [n, mod] of fresh.entries()) await cache?.set(keys[missing[n]], structuredClone(mod));
+  let next = 0;
+  const modules = mergeStubs(parsed.map((mod) => mod ?? fresh[next++]));
 
-  return files.map((file) => parseSingleFile(file, { includeDocstrings }));
+  // Modules sharing a dotted name collapse into one graph node
+  const firstByName = new Map<string, ParsedModule>();
+  for (const mod of modules) {
+    const first = firstByName.get(mod.moduleName);
+    if (!first) {
+      firstByName.set(mod.moduleName, mod);
+      continue;
+    }
+    mod.diagnostics.push({
+      severity: "warning",
+      file: mod.filePath,
+      line: 1,
+      column: 1,
+      message: `module name '${mod.moduleName}' is also used by ${first.filePath}; their graph nodes will be merged`,
+    });
+  }
+  return modules;
 }
 
-export default parsePythonFiles;
+// One file to parse, with the module location resolved against the whole upload
+export interface ParseJob {
+  file: UploadedFile;
+  location: ModuleLocation;
+  hash: string;
+  includeDocstrings: boolean;
+  includeComments: boolean;
+}
+
+/**
+ * Parse files independently of each other (no cache, stub merging or cross-file checks).
+ */
+export function parseModuleJobs(jobs: ParseJob[]): ParsedModule[] {
+  return jobs.map((job) => parseSingleFile(job.file, job.location, job.hash, job));
+}
+
+const defaultParseCache = createMemoryParseCache();
+
+// Bump when the shape or content of ParsedModule changes, so persistent stores do not serve stale modules
+const PARSE_CACHE_VERSION = 13;
+
+/**
+ * All diagnostics of a parse, ordered by file and position.
+ */
+export function collectDiagnostics(result: ParseResult): ParseDiagnostic[] {
+  return result
+    .flatMap((mod) => mod.diagnostics)
+    .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+}
+
+interface SourceContext {
+  content: string;
+  lines: string[];
+  comments: PyToken[];
+  claimedComments: Set<PyToken>; // comments already attributed to a (nested) definition
+  includeDocstrings: boolean;
+  includeComments: boolean;
+  importedModules: Set<string>; // every segment of the module paths the file imports (framework detection)
+}
+
+export interface ModuleLocation {
+  moduleName: string;
+  packageName?: string;
+  isPackage: boolean;
+}
 
-function parseSingleFile(file: UploadedFile, opts: { includeDocstrings: boolean }): ParsedModule {
+function parseSingleFile(
+  file: UploadedFile,
+  location: ModuleLocation,
+  hash: string,
+  opts: { includeDocstrings: boolean; includeComments: boolean }
+): ParsedModule {
   const filePath = file.path ?? file.name;
-  const moduleName = deriveModuleName(file.name);
-  const content = file.content.replace(/\r\n?/g, "\n");
+  const isStub = filePath.endsWith(".pyi");
+  const notebook = filePath.endsWith(".ipynb") ? notebookToSource(file.content) : undefined;
+  const content = normalizeSource(notebook ? notebook.source : file.content);
   const lines = content.split("\n");
+  const tree = notebook ? parseNotebookSource(content, notebook.cells) : parsePythonModule(content);
+  const ctx: SourceContext = {
+    content,
+    lines,
+    comments: tree.comments,
+    claimedComments: new Set(),
+    includeDocstrings: opts.includeDocstrings,
+    includeComments: opts.includeComments,
+    importedModules: new Set(),
+  };
 
-  const imports: ParsedImport[] = parseImports(lines);
-  const { classes, functions } = parseClassesAndFunctions(lines, opts);
-  const variables: ParsedVariable[] = parseTopLevelVariables(lines);
+  const imports: ParsedImport[] = parseImports(tree.body, ctx);
+  for (const imp of imports) {
+    const paths = imp.importType === "import" ? imp.names.map((n) => n.name) : [imp.module];
+    for (const segment of paths.flatMap((p) => p.split("."))) if (segment) ctx.importedModules.add(segment);
+  }
+  const { classes, functions } = parseClassesAndFunctions(tree.body, ctx);
+  const variables: ParsedVariable[] = parseTopLevelVariables(tree.body, ctx);
+  const exportList = parseExportList(tree.body);
+  const { tryBlocks, raises } = extractErrorHandling(tree.body, ctx);
+  const { comments, markers } = claimComments(1, lines.length, ctx);
+  const { features: languageFeatures, futureImports, minPythonVersion } = detectLanguageFeatures(tree, {
+    annotationsDeferred: isStub,
+  });
+  const diagnostics = syntaxDiagnostics(tree.errors, filePath);
 
-  return {
+  const mod: ParsedModule = {
     filePath,
-    moduleName,
+    contentHash: hash,
+    moduleName: location.moduleName,
+    packageName: location.packageName,
+    isPackage: location.isPackage,
+    isStub,
+    notebookCells: notebook?.cells,
     classes,
     functions,
     imports,
     variables,
-  } satisfies ParsedModule;
+    exportList,
+    entryPoints: urlPatternEntryPoints(moduleRegistrationCalls(tree.body, ctx)),
+    languageFeatures,
+    futureImports,
+    minPythonVersion,
+    tryBlocks,
+    raises,
+    comments,
+    markers,
+    diagnostics,
+  };
+  if (notebook) {
+    locateInCells(mod, notebook.cells);
+    // Notebook-level problems (invalid JSON, skipped cells) are not in any cell
+    diagnostics.unshift(...notebook.errors.map((message) => ({ severity: "error" as const, file: filePath, line: 1, column: 1, message })));
+  }
+  const testFramework = detectTestFramework(mod, ctx.importedModules);
+  if (testFramework) classifyTests(mod, testFramework);
+  return mod;
 }
 
-function deriveModuleName(filename: string): string {
-  const lastSlash = Math.max(filename.lastIndexOf("/"), filename.lastIndexOf("\\"));
-  const base = lastSlash >= 0 ? filename.slice(lastSlash + 1) : filename;
-  return base.endsWith(".py") ? base.slice(0, -3) : base;
+// Notebook definitions, imports and diagnostics get their cell; lines stay in joined-source coordinates except for diagnostics
+function locateInCells(mod: ParsedModule, cells: ParsedNotebookCell[]) {
+  const locateFunction = (fn: ParsedFunction) => {
+    fn.cellLocation = cellLocation(cells, fn.lineStart);
+    fn.functions.forEach(locateFunction);
+    fn.classes.forEach(locateClass);
+  };
+  const locateClass = (cls: ParsedClass) => {
+    cls.cellLocation = cellLocation(cells, cls.lineStart);
+    cls.methods.forEach(locateFunction);
+    cls.classes.forEach(locateClass);
+  };
+  mod.functions.forEach(locateFunction);
+  mod.classes.forEach(locateClass);
+  for (const item of [...mod.imports, ...mod.variables]) item.cellLocation = cellLocation(cells, item.line);
+  for (const d of mod.diagnostics) {
+    const location = cellLocation(cells, d.line);
+    if (location) Object.assign(d, location);
+  }
+}
+
+/**
+ * `.pyi` stubs uploaded next to their implementation (same module name):
+ * - The stub is the type source: missing parameter, return, variable and attribute annotations of the
+ *   implementation are filled from the stub's matching definitions.
+ * - Overloaded or repeated stub definitions are ignored; they cannot be pinned to one implementation.
+ * - Merged stubs are dropped from the result; stubs without an implementation stay as modules (isStub).
+ */
+function mergeStubs(modules: ParsedModule[]): ParsedModule[] {
+  const implementations = new Map(modules.filter((m) => !m.isStub).map((m) => [m.moduleName, m]));
+  return modules.filter((stub) => {
+    const impl = stub.isStub ? implementations.get(stub.moduleName) : undefined;
+    if (!impl) return true;
+
+    const stubFunctions = stubDefinitions(stub);
+    const mergeFunction = (fn: ParsedFunction, qualifiedName: string) => {
+      const declared = stubFunctions.get(qualifiedName);
+      if (!declared) return;
+      for (const param of fn.parameters) {
+        if (param.annotation !== undefined) continue;
+        const stubParam = declared.parameters.find((p) => p.name === param.name);
+        param.annotation = stubParam?.annotation;
+        param.annotationType = stubParam?.annotationType;
+      }
+      if (fn.returnHint === undefined) {
+        fn.returnHint = declared.returnHint;
+        fn.returnType = declared.returnType;
+      }
+      fn.typeCoverage = typeCoverage(fn.parameters, fn.returnType);
+      fn.hasStub = true;
+    };
+    const mergeClass = (cls: ParsedClass, qualifiedName: string, declared?: ParsedClass) => {
+      for (const method of cls.methods) mergeFunction(method, `${qualifiedName}.${method.name}`);
+      for (const attr of cls.attributes) attr.annotation ??= declared?.attributes.find((a) => a.name === attr.name)?.annotation;
+      for (const inner of cls.classes) {
+        mergeClass(inner, `${qualifiedName}.${inner.name}`, declared?.classes.find((c) => c.name === inner.name));
+      }
+    };
+
+    for (const fn of impl.functions) mergeFunction(fn, fn.name);
+    for (const cls of impl.classes) mergeClass(cls, cls.name, stub.classes.find((c) => c.name === cls.name));
+    for (const v of impl.variables) v.annotation ??= stub.variables.find((sv) => sv.name === v.name)?.annotation;
+    impl.stubPath = stub.filePath;
+    impl.contentHash = `${impl.contentHash}+${stub.contentHash}`;
+    impl.diagnostics.push(...stub.diagnostics);
+    return false;
+  });
+}
+
+// Stub functions and methods by qualified name, leaving out overloads and names declared more than once
+function stubDefinitions(stub: ParsedModule): Map<string, ParsedFunction> {
+  const byName = new Map<string, ParsedFunction | null>();
+  const add = (fn: ParsedFunction, qualifiedName: string) => {
+    const isOverload = fn.decorators.some((d) => d === "@overload" || d.endsWith(".overload"));
+    byName.set(qualifiedName, isOverload || byName.has(qualifiedName) ? null : fn);
+  };
+  const addClass = (cls: ParsedClass, qualifiedName: string) => {
+    for (const method of cls.methods) add(method, `${qualifiedName}.${method.name}`);
+    for (const inner of cls.classes) addClass(inner, `${qualifiedName}.${inner.name}`);
+  };
+  for (const fn of stub.functions) add(fn, fn.name);
+  for (const cls of stub.classes) addClass(cls, cls.name);
+  const definitions = new Map<string, ParsedFunction>();
+  for (const [name, fn] of byName) if (fn) definitions.set(name, fn);
+  return definitions;
+}
+
+// One diagnostic per position: a tokenizer error (e.g. an unterminated string) also fails the statement around it
+function syntaxDiagnostics(errors: PySyntaxError[], filePath: string): ParseDiagnostic[] {
+  const seen = new Set<string>();
+  const diagnostics: ParseDiagnostic[] = [];
+  for (const e of errors) {
+    const key = `${e.line}:${e.column}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    diagnostics.push({ severity: "error", file: filePath, line: e.line, column: e.column, message: e.message });
+  }
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Dotted module names from upload paths:
+ * - Directories with an `__init__.py` form packages; names start at the topmost package.
+ * - Files outside packages drop a leading `src/` layout or the directories shared by every upload.
+ * - `__init__.py` is named after its package.
+ */
+function resolveModuleLocations(files: UploadedFile[]): ModuleLocation[] {
+  const paths = files.map((f) => splitModulePath(f.path ?? f.name));
+  const packageDirs = new Set(paths.filter((p) => p.base === "__init__").map((p) => p.dirs.join("/")));
+  const isPackageDir = (dirs: string[], count: number) => count > 0 && packageDirs.has(dirs.slice(0, count).join("/"));
+  const sharedDirs = commonPrefixLength(paths.map((p) => p.dirs));
+
+  return paths.map(({ dirs, base }) => {
+    // Deepest enclosing package, then walk up to the top of its package chain
+    let deepest = dirs.length;
+    while (deepest > 0 && !isPackageDir(dirs, deepest)) deepest--;
+    let relativeDirs: string[];
+    if (deepest > 0) {
+      let root = deepest;
+      while (isPackageDir(dirs, root - 1)) root--;
+      relativeDirs = dirs.slice(root - 1);
+    } else {
+      const srcIdx = dirs.lastIndexOf("src");
+      relativeDirs = srcIdx >= 0 ? dirs.slice(srcIdx + 1) : dirs.slice(sharedDirs);
+    }
+
+    const isPackage = base === "__init__";
+    const parts = isPackage ? relativeDirs : [...relativeDirs, base];
+    const packageParts = isPackage ? parts : parts.slice(0, -1);
+    return {
+      moduleName: parts.length > 0 ? parts.join(".") : base,
+      packageName: packageParts.length > 0 ? packageParts.join(".") : undefined,
+      isPackage,
+    };
+  });
 }
 
-function getIndent(s: string): string {
-  const match = s.match(/^[\t ]*/);
-  return match ? match[0] : "";
+function splitModulePath(filePath: string): { dirs: string[]; base: string } {
+  const segments = filePath
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((s) => s !== "" && s !== ".");
+  const file = segments.pop() ?? filePath;
+  return { dirs: segments, base: file.replace(/\.(py|pyi|ipynb)$/, "") };
+}
+
+function commonPrefixLength(dirLists: string[][]): number {
+  if (dirLists.length === 0) return 0;
+  let len = Math.min(...dirLists.map((d) => d.length));
+  for (const dirs of dirLists) {
+    let i = 0;
+    while (i < len && dirs[i] === dirLists[0][i]) i++;
+    len = i;
+  }
+  return len;
 }
 
 function trimRightMax(s: string, maxLen = 120): string {
@@ -59,382 +383,711 @@ function trimRightMax(s: string, maxLen = 120): string {
   return t.length <= maxLen ? t : t.slice(0, maxLen) + "…";
 }
 
-function parseImports(lines: string[]): ParsedImport[] {
+// Source text of a node without comments, with line breaks (and backslash continuations) collapsed to spaces
+function inlineText(node: PySpan, ctx: SourceContext): string {
+  let text = "";
+  let cursor = node.start;
+  for (const c of ctx.comments) {
+    if (c.start < node.start || c.end > node.end) continue;
+    text += ctx.content.slice(cursor, c.start);
+    cursor = c.end;
+  }
+  text += ctx.content.slice(cursor, node.end);
+  return text.replace(/[ \t]*\\?\n\s*/g, " ").trim();
+}
+
+// Single-line form of an import statement: `from x import (\n a,\n b,\n)` -> `from x import (a, b)`
+function importCode(node: PySpan, ctx: SourceContext): string {
+  return inlineText(node, ctx)
+    .replace(/\(\s+/g, "(")
+    .replace(/\s*,?\s*\)$/, ")");
+}
+
+/**
+ * Import statements anywhere in the module, with the scope they run in and the guard around them:
+ * - `if TYPE_CHECKING:` bodies are type-only; the `else` branch is an ordinary conditional.
+ * - try/except blocks catching ImportError (or broader) make both the attempt and the fallback optional.
+ * - Imports inside functions are lazy unless a guard already classifies them.
+ */
+function parseImports(body: PyStmt[], ctx: SourceContext): ParsedImport[] {
   const results: ParsedImport[] = [];
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trim();
-    if (trimmed.startsWith("#") || trimmed === "") continue;
-
-    // from x.y import a as b, c
-    let m = line.match(/^\s*from\s+([\w\.]+)\s+import\s+(.+)$/);
-    if (m) {
-      const moduleName = m[1];
-      const rhs = m[2].split(",").map((t) => t.trim());
-      const names = rhs
-        .filter((t) => t.length > 0)
-        .map((t) => {
-          const asMatch = t.match(/^([\w\.]+)\s+as\s+([\w_]+)$/);
-          if (asMatch) return { name: asMatch[1], alias: asMatch[2] };
-          return { name: t };
-        });
-      results.push({ importType: "from", module: moduleName, names, line: i + 1, code: trimmed });
-      continue;
-    }
 
-    // import a as b, c.d
-    m = line.match(/^\s*import\s+(.+)$/);
-    if (m) {
-      const rhs = m[1].split(",").map((t) => t.trim());
-      const names = rhs
-        .filter((t) => t.length > 0)
-        .map((t) => {
-          const asMatch = t.match(/^([\w\.]+)\s+as\s+([\w_]+)$/);
-          if (asMatch) return { name: asMatch[1], alias: asMatch[2] };
-          return { name: t };
-        });
-      const moduleName = names.length > 0 ? names[0].name : "";
-      results.push({ importType: "import", module: moduleName, names, line: i + 1, code: trimmed });
-      continue;
-    }
+  interface ImportContext {
+    scope: ParsedImport["scope"];
+    scopeName?: string;
+    guard?: ParsedImportGuard;
+    typeOnly: boolean;
+    optional: boolean;
   }
-  return results;
-}
-
-function parseTopLevelVariables(lines: string[]): ParsedVariable[] {
-  const vars: ParsedVariable[] = [];
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const indent = getIndent(line);
-    if (indent.length !== 0) continue; // top-level only
-    const trimmed = line.trim();
-    if (trimmed === "" || trimmed.startsWith("#")) continue;
-
-    // Simple assignment: NAME = value (avoid ==, >=, etc.)
-    const m = line.match(/^([\t ]*)([A-Za-z_]\w*)\s*=\s*([^=].*)$/);
-    if (m) {
-      const name = m[2];
-      const valueSnippet = trimRightMax(m[3]);
-      vars.push({ name, valueSnippet, line: i + 1 });
+
+  const usageOf = (ic: ImportContext): ImportUsage =>
+    ic.typeOnly ? "type-only" : ic.optional ? "optional" : ic.scope === "function" ? "lazy" : "runtime";
+
+  const visitAll = (nodes: PyNode[], ic: ImportContext) => {
+    for (const node of nodes) visit(node, ic);
+  };
+
+  const visit = (node: PyNode, ic: ImportContext): void => {
+    if (node.kind === "Import" || node.kind === "ImportFrom") {
+      const names = node.names.map((a) => (a.asname ? { name: a.name, alias: a.asname } : { name: a.name }));
+      results.push({
+        importType: node.kind === "Import" ? "import" : "from",
+        module: node.kind === "Import" ? (names[0]?.name ?? "") : (node.module ?? ""),
+        level: node.kind === "Import" ? 0 : node.level,
+        names,
+        line: node.line,
+        code: importCode(node, ctx),
+        scope: ic.scope,
+        scopeName: ic.scopeName,
+        guard: ic.guard,
+        usage: usageOf(ic),
+      });
+      return;
     }
-  }
-  return vars;
+    if (node.kind === "FunctionDef" || node.kind === "ClassDef") {
+      const scopeName = ic.scopeName ? `${ic.scopeName}.${node.name}` : node.name;
+      const scope = node.kind === "FunctionDef" ? "function" : ic.scope === "function" ? "function" : "class";
+      visitAll(node.body, { ...ic, scope, scopeName });
+      return;
+    }
+    if (node.kind === "If") {
+      const condition = inlineText(node.test, ctx);
+      if (isTypeCheckingTest(node.test)) {
+        visitAll(node.body, { ...ic, guard: { kind: "type-checking", condition, line: node.line }, typeOnly: true });
+      } else {
+        visitAll(node.body, { ...ic, guard: { kind: "if", condition, line: node.line } });
+      }
+      const elseCondition = node.orelse.length === 1 && node.orelse[0].kind === "If" ? undefined : `not (${condition})`;
+      if (elseCondition) visitAll(node.orelse, { ...ic, guard: { kind: "if", condition: elseCondition, line: node.line } });
+      else visitAll(node.orelse, ic);
+      return;
+    }
+    if (node.kind === "Try") {
+      // A bare `except:` catches everything
+      const caughtBy = node.handlers.map((h) => (h.type ? handlerTypes(h, ctx) : ["BaseException"]));
+      const caught = caughtBy.flat();
+      const optional = ic.optional || caught.some((name) => IMPORT_ERROR_CATCHERS.has(name.split(".").pop() ?? name));
+      visitAll(node.body, { ...ic, guard: { kind: "try", condition: caught.join(", ") || undefined, line: node.line }, optional });
+      node.handlers.forEach((handler, i) => {
+        visitAll(handler.body, { ...ic, guard: { kind: "except", condition: caughtBy[i].join(", "), line: handler.line }, optional });
+      });
+      visitAll([...node.orelse, ...node.finalbody], ic);
+      return;
+    }
+    visitAll(childNodes(node), ic);
+  };
+
+  visitAll(body, { scope: "module", typeOnly: false, optional: false });
+  return results.sort((a, b) => a.line - b.line);
 }
 
-function parseClassesAndFunctions(
-  lines: string[],
-  opts: { includeDocstrings: boolean }
-): { classes: ParsedClass[]; functions: ParsedFunction[] } {
-  const classes: ParsedClass[] = [];
-  const functions: ParsedFunction[] = [];
+// Exception types whose handlers turn a failed import into a fallback
+const IMPORT_ERROR_CATCHERS = new Set(["ImportError", "ModuleNotFoundError", "Exception", "BaseException"]);
 
-  const n = lines.length;
-  let i = 0;
-  while (i < n) {
-    const line = lines[i];
-    const trimmed = line.trim();
-    if (trimmed === "") {
-      i++;
-      continue;
+// `if TYPE_CHECKING:` / `if typing.TYPE_CHECKING:`
+function isTypeCheckingTest(test: PyExpr): boolean {
+  const name = dottedName(test);
+  return name === "TYPE_CHECKING" || Boolean(name?.endsWith(".TYPE_CHECKING"));
+}
+
+function handlerTypes(handler: PyExceptHandler, ctx: SourceContext): string[] {
+  if (!handler.type) return [];
+  return handler.type.kind === "Tuple" ? handler.type.elts.map((t) => exceptionName(t, ctx)) : [exceptionName(handler.type, ctx)];
+}
+
+/**
+ * `__all__` from module-level `__all__ = [...]`, `__all__ += [...]`, `__all__.extend([...])` and `__all__.append("x")`,
+ * including statements under module-level if/try blocks. Non-literal parts mark the list as dynamic.
+ */
+function parseExportList(body: PyStmt[]): ParsedExportList | undefined {
+  let list: ParsedExportList | undefined;
+  const isAll = (expr: PyExpr | undefined) => expr?.kind === "Name" && expr.id === "__all__";
+
+  // String literals of a list/tuple expression and its concatenations
+  const addNames = (expr: PyExpr, line: number) => {
+    list ??= { names: [], line, isDynamic: false };
+    if (expr.kind === "BinOp" && expr.op === "+") {
+      addNames(expr.left, line);
+      addNames(expr.right, line);
+    } else if (expr.kind === "List" || expr.kind === "Tuple") {
+      for (const elt of expr.elts) addNames(elt, line);
+    } else if (expr.kind === "Constant" && expr.value !== undefined && expr.valueKind === "str" && !expr.isFString) {
+      if (!list.names.includes(expr.value)) list.names.push(expr.value);
+    } else {
+      list.isDynamic = true;
     }
+  };
 
-    // Gather decorators directly above the target (contiguous block)
-    const decorators: string[] = [];
-    let decIndex = i;
-    while (decIndex < n) {
-      const t = lines[decIndex].trim();
-      if (t.startsWith("@")) {
-        decorators.push(t);
-        decIndex++;
-      } else if (t === "") {
-        // allow blank within decorator block
-        decorators.push(t);
-        decIndex++;
-      } else {
-        break;
+  const visit = (stmts: PyStmt[]) => {
+    for (const stmt of stmts) {
+      if (stmt.kind === "Assign" && stmt.targets.some(isAll)) {
+        list = undefined; // a plain assignment replaces earlier entries
+        addNames(stmt.value, stmt.line);
+      } else if (stmt.kind === "AnnAssign" && isAll(stmt.target) && stmt.value) {
+        list = undefined;
+        addNames(stmt.value, stmt.line);
+      } else if (stmt.kind === "AugAssign" && isAll(stmt.target) && stmt.op === "+=") {
+        addNames(stmt.value, stmt.line);
+      } else if (
+        stmt.kind === "Expr" &&
+        stmt.value.kind === "Call" &&
+        stmt.value.func.kind === "Attribute" &&
+        isAll(stmt.value.func.value) &&
+        (stmt.value.func.attr === "extend" || stmt.value.func.attr === "append")
+      ) {
+        for (const arg of stmt.value.args) addNames(arg, stmt.line);
+      } else if (stmt.kind === "If") {
+        visit(stmt.body);
+        visit(stmt.orelse);
+      } else if (stmt.kind === "Try") {
+        visit(stmt.body);
+        for (const h of stmt.handlers) visit(h.body);
+        visit(stmt.orelse);
+        visit(stmt.finalbody);
       }
     }
-    if (decorators.length > 0) {
-      // Reset i to the first non-decorator line after the decorator block
-      i = decIndex;
+  };
+  visit(body);
+  return list;
+}
+
+function parseTopLevelVariables(body: PyStmt[], ctx: SourceContext): ParsedVariable[] {
+  return assignedNames(body, ctx).map(({ target, annotation, valueSnippet }) => ({
+    name: target.id,
+    annotation,
+    valueSnippet,
+    line: target.line,
+  }));
+}
+
+// Plain and annotated assignments to simple names directly in a block
+function assignedNames(
+  body: PyStmt[],
+  ctx: SourceContext
+): { target: PyName; annotation?: string; valueSnippet?: string }[] {
+  const out: { target: PyName; annotation?: string; valueSnippet?: string }[] = [];
+  for (const stmt of body) {
+    if (stmt.kind === "Assign") {
+      const valueSnippet = trimRightMax(inlineText(stmt.value, ctx));
+      for (const target of stmt.targets) {
+        if (target.kind === "Name") out.push({ target, valueSnippet });
+      }
+    } else if (stmt.kind === "AnnAssign" && stmt.target.kind === "Name") {
+      out.push({
+        target: stmt.target,
+        annotation: inlineText(stmt.annotation, ctx),
+        valueSnippet: stmt.value ? trimRightMax(inlineText(stmt.value, ctx)) : undefined,
+      });
     }
+  }
+  return out;
+}
+
+/**
+ * Class attributes declared in the class body (including dataclass/pydantic fields), followed by
+ * instance attributes assigned through the receiver (`self.x = ...`) of regular methods.
+ */
+function parseAttributes(def: PyClassDef, methods: PyFunctionDef[], ctx: SourceContext): ParsedAttribute[] {
+  const attributes: ParsedAttribute[] = assignedNames(def.body, ctx).map(({ target, annotation, valueSnippet }) => ({
+    name: target.id,
+    kind: "class",
+    annotation,
+    valueSnippet,
+    line: target.line,
+  }));
+  const seen = new Set(attributes.map((a) => a.name));
 
-    if (i >= n) break;
-
-    const curr = lines[i];
-    const indent = getIndent(curr);
-
-    // class
-    const mClass = curr.match(/^(\t|\s)*class\s+([A-Za-z_]\w*)(?:\(([^)]*)\))?\s*:/);
-    if (mClass) {
-      const classIndentLen = indent.length;
-      const name = mClass[2];
-      const baseClasses = (mClass[3] ?? "")
-        .split(",")
-        .map((t) => t.trim())
-        .filter((t) => t.length > 0);
-      const classDecorators = (decorators.filter((d) => d.startsWith("@")) as string[]) ?? [];
-      const lineStart = i + 1;
-      const blockEnd = findBlockEnd(lines, i, classIndentLen);
-
-      const { docstring, firstBodyLine } = extractDocstringIfFirst(lines, i, blockEnd, classIndentLen, opts.includeDocstrings);
-
-      // Methods inside class
-      const methods: ParsedFunction[] = [];
-      const bodyStart = Math.min(blockEnd, firstBodyLine);
-      let j = bodyStart;
-      while (j <= blockEnd) {
-        // Collect method decorators
-        const methodDecos: string[] = [];
-        let k = j;
-        while (k <= blockEnd) {
-          const t = lines[k].trim();
-          if (t.startsWith("@")) {
-            methodDecos.push(t);
-            k++;
-          } else if (t === "") {
-            methodDecos.push(t);
-            k++;
-          } else {
-            break;
-          }
+  // State declared by the constructor comes first, regardless of where __init__ sits in the class
+  const ordered = [...methods].sort((a, b) => Number(b.name === "__init__") - Number(a.name === "__init__"));
+  for (const method of ordered) {
+    const receiver = method.args.params[0];
+    const isStatic = method.decorators.some((d) => /^(staticmethod|classmethod)$/.test(dottedName(d) ?? ""));
+    if (!receiver || receiver.paramKind === "var-positional" || receiver.paramKind === "keyword-only" || isStatic) continue;
+
+    for (const stmt of method.body) {
+      walkPy(stmt, (node) => {
+        if (node.kind === "FunctionDef" || node.kind === "ClassDef" || node.kind === "Lambda") return false;
+        let targets: PyExpr[] = [];
+        let annotation: PyExpr | undefined;
+        let value: PyExpr | undefined;
+        if (node.kind === "Assign") {
+          targets = node.targets.flatMap((t) => (t.kind === "Tuple" || t.kind === "List" ? t.elts : [t]));
+          value = node.value;
+        } else if (node.kind === "AnnAssign") {
+          targets = [node.target];
+          annotation = node.annotation;
+          value = node.value;
+        } else {
+          return;
         }
-        if (k > blockEnd) break;
-
-        const methodLine = lines[k];
-        const methodIndent = getIndent(methodLine);
-        const mDef = methodLine.match(/^(\t|\s)*(async\s+)?def\s+([A-Za-z_]\w*)\s*\(([^)]*)\)\s*(?:->\s*([^:]+))?\s*:/);
-        if (mDef && methodIndent.length > classIndentLen) {
-          const isAsync = !!mDef[2];
-          const methodName = mDef[3];
-          const paramsRaw = mDef[4] ?? "";
-          const returnHint = (mDef[5] ?? "").trim() || undefined;
-          const isPrivate = methodName.startsWith("_");
-          const methodStartIdx = k;
-          const methodEndIdx = findBlockEnd(lines, methodStartIdx, methodIndent.length);
-          const { docstring: methodDoc, firstBodyLine: methodFirstBody } = extractDocstringIfFirst(
-            lines,
-            methodStartIdx,
-            methodEndIdx,
-            methodIndent.length,
-            opts.includeDocstrings
-          );
-          const codeExcerpt = sliceLines(lines, methodStartIdx, methodEndIdx);
-          const parameters = splitParams(paramsRaw);
-          const calls = extractCalls(lines, methodFirstBody, methodEndIdx);
-          methods.push({
-            name: methodName,
-            parameters,
-            returnHint,
-            isAsync,
-            isPrivate,
-            decorators: methodDecos.filter((d) => d.startsWith("@")) as string[],
-            lineStart: methodStartIdx + 1,
-            lineEnd: methodEndIdx + 1,
-            docstring: methodDoc,
-            codeExcerpt,
-            calls,
+        for (const target of targets) {
+          if (target.kind !== "Attribute" || target.value.kind !== "Name" || target.value.id !== receiver.name) continue;
+          if (seen.has(target.attr)) continue;
+          seen.add(target.attr);
+          attributes.push({
+            name: target.attr,
+            kind: "instance",
+            annotation: annotation ? inlineText(annotation, ctx) : undefined,
+            valueSnippet: value ? trimRightMax(inlineText(value, ctx)) : undefined,
+            line: target.line,
+            definedIn: method.name,
           });
-          j = methodEndIdx + 1;
-          continue;
         }
-        j = k + 1;
-      }
-
-      const codeExcerpt = sliceLines(lines, i, blockEnd);
-      classes.push({
-        name,
-        baseClasses,
-        decorators: classDecorators,
-        docstring,
-        lineStart,
-        lineEnd: blockEnd + 1,
-        codeExcerpt,
-        methods,
       });
-
-      i = blockEnd + 1;
-      continue;
     }
+  }
+  return attributes;
+}
 
-    // top-level function
-    const mFun = curr.match(/^(\t|\s)*(async\s+)?def\s+([A-Za-z_]\w*)\s*\(([^)]*)\)\s*(?:->\s*([^:]+))?\s*:/);
-    if (mFun) {
-      const indentLen = getIndent(curr).length;
-      const isAsync = !!mFun[2];
-      const name = mFun[3];
-      const paramsRaw = mFun[4] ?? "";
-      const returnHint = (mFun[5] ?? "").trim() || undefined;
-      const isPrivate = name.startsWith("_");
-      const startIdx = i;
-      const endIdx = findBlockEnd(lines, startIdx, indentLen);
-      const { docstring, firstBodyLine } = extractDocstringIfFirst(lines, startIdx, endIdx, indentLen, opts.includeDocstrings);
-      const codeExcerpt = sliceLines(lines, startIdx, endIdx);
-      const parameters = splitParams(paramsRaw);
-      const calls = extractCalls(lines, firstBodyLine, endIdx);
-      functions.push({
-        name,
-        parameters,
-        returnHint,
-        isAsync,
-        isPrivate,
-        decorators: decorators.filter((d) => d.startsWith("@")) as string[],
-        lineStart: startIdx + 1,
-        lineEnd: endIdx + 1,
-        docstring,
-        codeExcerpt,
-        calls,
-      });
-      i = endIdx + 1;
-      continue;
-    }
+function parseClassesAndFunctions(
+  body: PyStmt[],
+  ctx: SourceContext
+): { classes: ParsedClass[]; functions: ParsedFunction[] } {
+  const classes: ParsedClass[] = [];
+  const functions: ParsedFunction[] = [];
 
-    i++;
-  }
+  forEachDefinition(body, (def) => {
+    if (def.kind === "ClassDef") classes.push(buildClass(def, ctx));
+    else functions.push(buildFunction(def, ctx));
+  });
 
   return { classes, functions };
 }
 
-function findBlockEnd(lines: string[], startIdx: number, defIndentLen: number): number {
-  const n = lines.length;
-  let end = startIdx;
-  for (let i = startIdx + 1; i < n; i++) {
-    const line = lines[i];
-    const trimmed = line.trim();
-    if (trimmed === "" || trimmed.startsWith("#")) {
-      end = i; // include trailing blank/comment
+/**
+ * Visit function/class definitions of a block, descending into control-flow
+ * statements (if/try/with/...) but not into other definitions.
+ */
+function forEachDefinition(body: PyStmt[], visit: (def: PyFunctionDef | PyClassDef) => void) {
+  for (const stmt of body) {
+    if (stmt.kind === "FunctionDef" || stmt.kind === "ClassDef") {
+      visit(stmt);
       continue;
     }
-    const indentLen = getIndent(line).length;
-    if (indentLen <= defIndentLen) {
-      return end;
-    }
-    end = i;
+    for (const nested of nestedBlocks(stmt)) forEachDefinition(nested, visit);
   }
-  return end;
-}
-
-function extractDocstringIfFirst(
-  lines: string[],
-  startIdx: number,
-  endIdx: number,
-  defIndentLen: number,
-  includeDocstrings: boolean
-): { docstring?: string; firstBodyLine: number } {
-  const firstBodyLine = startIdx + 1;
-  if (!includeDocstrings) {
-    return { firstBodyLine };
+}
+
+function nestedBlocks(stmt: PyStmt): PyStmt[][] {
+  switch (stmt.kind) {
+    case "If":
+    case "For":
+    case "While":
+      return [stmt.body, stmt.orelse];
+    case "With":
+      return [stmt.body];
+    case "Try":
+      return [stmt.body, ...stmt.handlers.map((h) => h.body), stmt.orelse, stmt.finalbody];
+    case "Match":
+      return stmt.cases.map((c) => c.body);
+    default:
+      return [];
   }
+}
 
-  // find the first non-blank line with indent > defIndentLen
-  let i = startIdx + 1;
-  while (i <= endIdx) {
-    const line = lines[i];
-    const trimmed = line.trim();
-    if (trimmed === "" || trimmed.startsWith("#")) {
-      i++;
-      continue;
-    }
-    const indentLen = getIndent(line).length;
-    if (indentLen <= defIndentLen) {
-      // out of body; no docstring
-      return { firstBodyLine: i };
+function buildClass(def: PyClassDef, ctx: SourceContext): ParsedClass {
+  const { classes, functions: methods } = parseClassesAndFunctions(def.body, ctx);
+  const methodDefs: PyFunctionDef[] = [];
+  forEachDefinition(def.body, (member) => {
+    if (member.kind === "FunctionDef") methodDefs.push(member);
+  });
+
+  const { comments, markers } = claimComments(def.line, def.endLine, ctx);
+  const docstring = extractDocstringIfFirst(def.body, ctx.includeDocstrings);
+  const baseClasses = def.bases.map((b) => inlineText(b, ctx));
+  const decoratorInfo = def.decorators.map((d) => parseDecorator(d, ctx));
+  const metaclassKeyword = def.keywords.find((kw) => kw.arg === "metaclass");
+  const metaclass = metaclassKeyword ? inlineText(metaclassKeyword.value, ctx) : undefined;
+
+  return {
+    name: def.name,
+    baseClasses,
+    kind: classifyClass(baseClasses, decoratorInfo, metaclass, ctx.importedModules),
+    metaclass,
+    decorators: def.decorators.map((d) => "@" + inlineText(d, ctx)),
+    decoratorInfo,
+    entryPoints: classEntryPoints(def.name, baseClasses, methodDefs.map((m) => m.name), ctx.importedModules, def.line),
+    docstring,
+    docstringInfo: docstring ? parseDocstring(docstring) : undefined,
+    lineStart: def.line,
+    lineEnd: def.endLine,
+    codeExcerpt: sliceLines(ctx.lines, def.line - 1, def.endLine - 1),
+    methods,
+    classes,
+    attributes: parseAttributes(def, methodDefs, ctx),
+    comments,
+    markers,
+  };
+}
+
+function buildFunction(def: PyFunctionDef, ctx: SourceContext): ParsedFunction {
+  const { classes, functions } = parseClassesAndFunctions(def.body, ctx);
+  const { comments, markers } = claimComments(def.line, def.endLine, ctx);
+  const { tryBlocks, raises } = extractErrorHandling(def.body, ctx);
+  const parameters = buildParameters(def.args, ctx);
+  const docstring = extractDocstringIfFirst(def.body, ctx.includeDocstrings);
+  const docstringInfo = docstring ? parseDocstring(docstring) : undefined;
+  const decoratorInfo = def.decorators.map((d) => parseDecorator(d, ctx));
+  const returnType = def.returns ? parseAnnotation(def.returns, (e) => inlineText(e, ctx)) : undefined;
+  return {
+    name: def.name,
+    parameters,
+    returnHint: def.returns ? inlineText(def.returns, ctx) : undefined,
+    returnType,
+    typeCoverage: typeCoverage(parameters, returnType),
+    isAsync: def.isAsync,
+    ...classifyFunction(def, decoratorInfo),
+    isPrivate: def.name.startsWith("_"),
+    decorators: def.decorators.map((d) => "@" + inlineText(d, ctx)),
+    decoratorInfo,
+    entryPoints: functionEntryPoints(def.name, decoratorInfo, ctx.importedModules),
+    lineStart: def.line,
+    lineEnd: def.endLine,
+    docstring,
+    docstringInfo,
+    ...compareDocumentedParams(parameters, docstringInfo),
+    codeExcerpt: sliceLines(ctx.lines, def.line - 1, def.endLine - 1),
+    calls: extractCalls(def.body),
+    functions,
+    classes,
+    tryBlocks,
+    raises,
+    metrics: measureFunction(def, ctx),
+    comments,
+    markers,
+  };
+}
+
+// `@app.route("/x", methods=["GET"])` -> { name: "app.route", args: ['"/x"'], kwargs: { methods: '["GET"]' } }
+function parseDecorator(expr: PyExpr, ctx: SourceContext): ParsedDecorator {
+  if (expr.kind !== "Call") {
+    return { name: dottedName(expr) ?? inlineText(expr, ctx), isCall: false, args: [], kwargs: {}, argValues: [], kwargValues: {}, line: expr.line };
+  }
+  const kwargs: Record<string, string> = {};
+  const kwargValues: Record<string, ParsedArgumentValue> = {};
+  for (const kw of expr.keywords) {
+    kwargs[kw.arg ?? "**"] = inlineText(kw.value, ctx);
+    kwargValues[kw.arg ?? "**"] = argumentValue(kw.value);
+  }
+  return {
+    name: dottedName(expr.func) ?? inlineText(expr.func, ctx),
+    isCall: true,
+    args: expr.args.map((a) => inlineText(a, ctx)),
+    kwargs,
+    argValues: expr.args.map(argumentValue),
+    kwargValues,
+    line: expr.line,
+  };
+}
+
+// `"a" "b"` -> { kind: "string", value: "ab" }, `["GET", m]` -> a sequence of a string and another expression
+function argumentValue(expr: PyExpr): ParsedArgumentValue {
+  if (expr.kind === "Constant" && expr.valueKind === "str" && !expr.isFString) return { kind: "string", value: expr.value ?? "" };
+  if (expr.kind === "List" || expr.kind === "Tuple") return { kind: "sequence", items: expr.elts.map(argumentValue) };
+  return { kind: "other" };
+}
+
+// Calls that register Django views: `urlpatterns` list entries and module-level `router.register(...)` statements
+function moduleRegistrationCalls(body: PyStmt[], ctx: SourceContext): ParsedDecorator[] {
+  const calls: ParsedDecorator[] = [];
+  const isUrlPatterns = (target: PyExpr | undefined) => target?.kind === "Name" && target.id === "urlpatterns";
+  const addElements = (expr: PyExpr) => {
+    if (expr.kind === "BinOp" && expr.op === "+") {
+      addElements(expr.left);
+      addElements(expr.right);
+    } else if (expr.kind === "List" || expr.kind === "Tuple") {
+      for (const elt of expr.elts) if (elt.kind === "Call") calls.push(parseDecorator(elt, ctx));
     }
-    // Potential docstring line
-    const triple = trimmed.match(/^[ruRU]{0,2}("""|''')/);
-    if (triple) {
-      const quote = triple[1];
-      // If docstring ends on same line
-      const closingSameLine = trimmed.slice(triple.index! + triple[0].length).includes(quote);
-      if (closingSameLine) {
-        const inner = trimmed
-          .slice(trimmed.indexOf(quote)! + quote.length)
-          .replace(new RegExp(`${quote}.*$`), "")
-          .trim();
-        return { docstring: inner, firstBodyLine: i + 1 };
-      }
-      // Multi-line docstring
-      const { value, endLine } = captureMultilineString(lines, i, quote);
-      return { docstring: value, firstBodyLine: endLine + 1 };
+  };
+  for (const stmt of body) {
+    if (stmt.kind === "Assign" && stmt.targets.some(isUrlPatterns)) addElements(stmt.value);
+    else if (stmt.kind === "AugAssign" && isUrlPatterns(stmt.target)) addElements(stmt.value);
+    else if (stmt.kind === "Expr" && stmt.value.kind === "Call" && dottedName(stmt.value.func)?.endsWith(".register")) {
+      calls.push(parseDecorator(stmt.value, ctx));
     }
-    // Not a docstring; body begins here
-    return { firstBodyLine: i };
   }
-  return { firstBodyLine: Math.min(endIdx + 1, lines.length - 1) };
-}
-
-function captureMultilineString(
-  lines: string[],
-  startIdx: number,
-  quote: string
-): { value: string; endLine: number } {
-  const n = lines.length;
-  const startLine = lines[startIdx];
-  const startPos = startLine.indexOf(quote);
-  let value = startLine.slice(startPos + quote.length) + "\n";
-  for (let i = startIdx + 1; i < n; i++) {
-    const line = lines[i];
-    const pos = line.indexOf(quote);
-    if (pos >= 0) {
-      value += line.slice(0, pos);
-      return { value: value.trim(), endLine: i };
-    }
-    value += line + "\n";
+  return calls;
+}
+
+// Parameters in source order; "/" and "*" markers are folded into each parameter's kind
+function buildParameters(args: PyArguments, ctx: SourceContext): ParsedParameter[] {
+  return args.params.map((p) => ({
+    name: p.name,
+    kind: p.paramKind,
+    annotation: p.annotation ? inlineText(p.annotation, ctx) : undefined,
+    annotationType: p.annotation ? parseAnnotation(p.annotation, (e) => inlineText(e, ctx)) : undefined,
+    default: p.default ? inlineText(p.default, ctx) : undefined,
+  }));
+}
+
+/**
+ * Check documented parameters against the signature. Undocumented parameters are only reported
+ * when the docstring documents parameters at all; `self`/`cls` receivers are never expected.
+ */
+function compareDocumentedParams(
+  parameters: ParsedParameter[],
+  docstringInfo: ParsedDocstring | undefined
+): { undocumentedParams?: string[]; staleParams?: string[] } {
+  if (!docstringInfo || docstringInfo.params.length === 0) return {};
+  const expected = parameters
+    .filter((p, i) => !(i === 0 && (p.name === "self" || p.name === "cls")))
+    .map((p) => p.name);
+  const documented = docstringInfo.params.map((p) => p.name.replace(/^\*{1,2}/, ""));
+  return {
+    undocumentedParams: expected.filter((name) => !documented.includes(name)),
+    staleParams: documented.filter((name) => !expected.includes(name)),
+  };
+}
+
+/**
+ * Attribute the not yet claimed comments on lines [lineStart, lineEnd] to a definition.
+ * Definitions are built innermost first, so nested functions and classes keep their own comments.
+ */
+function claimComments(
+  lineStart: number,
+  lineEnd: number,
+  ctx: SourceContext
+): { comments?: ParsedComment[]; markers: ParsedCommentMarker[] } {
+  const comments: ParsedComment[] = [];
+  const markers: ParsedCommentMarker[] = [];
+  for (const token of ctx.comments) {
+    if (token.line < lineStart || token.line > lineEnd || ctx.claimedComments.has(token)) continue;
+    ctx.claimedComments.add(token);
+    const text = token.value.replace(/^#\s?/, "").trimEnd();
+    comments.push({ text, line: token.line });
+    markers.push(...commentMarkers(text, token.line));
   }
-  return { value: value.trim(), endLine: n - 1 };
-}
-
-function splitParams(paramsRaw: string): string[] {
-  const s = paramsRaw.trim();
-  if (s === "") return [];
-  // naive split by comma; does not handle nested parens or defaults with commas
-  return s
-    .split(",")
-    .map((t) => t.trim())
-    .filter((t) => t.length > 0);
-}
-
-const KEYWORD_CALL_DENYLIST = new Set([
-  "if",
-  "for",
-  "while",
-  "with",
-  "return",
-  "yield",
-  "raise",
-  "except",
-  "class",
-  "def",
-  "await",
-  "lambda",
-  "try",
-  "assert",
-  "del",
-  "global",
-  "nonlocal",
-  "pass",
-  "break",
-  "continue",
-]);
-
-function extractCalls(lines: string[], startIdx: number, endIdx: number): ParsedCall[] {
+  return { comments: ctx.includeComments ? comments : undefined, markers };
+}
+
+const TASK_MARKER_RE = /\b(TODO|FIXME|HACK|XXX)\b(?:\([^)]*\))?:?\s*(.*)/;
+const TYPE_IGNORE_RE = /\btype:\s*ignore\b(?:\[([^\]]*)\])?/;
+const NOQA_RE = /\bnoqa\b(?::\s*([A-Z]+[0-9]+(?:[\s,]+[A-Z]+[0-9]+)*))?/i;
+const PRAGMA_RE = /\bpragma:\s*([^#]*)/;
+
+// Structured markers (TODO/FIXME, `type: ignore`, `noqa`, `pragma: ...`) found in one comment
+function commentMarkers(text: string, line: number): ParsedCommentMarker[] {
+  const markers: ParsedCommentMarker[] = [];
+  const task = TASK_MARKER_RE.exec(text);
+  if (task) {
+    const kind = task[1].toLowerCase() as "todo" | "fixme" | "hack" | "xxx";
+    markers.push({ kind, line, detail: task[2].trim() || undefined });
+  }
+  const typeIgnore = TYPE_IGNORE_RE.exec(text);
+  if (typeIgnore) markers.push({ kind: "type-ignore", line, detail: typeIgnore[1]?.trim() || undefined });
+  const noqa = NOQA_RE.exec(text);
+  if (noqa) markers.push({ kind: "noqa", line, detail: noqa[1]?.replace(/[\s,]+/g, ",") || undefined });
+  const pragma = PRAGMA_RE.exec(text);
+  if (pragma) markers.push({ kind: "pragma", line, detail: pragma[1].trim() || undefined });
+  return markers;
+}
+
+function extractDocstringIfFirst(body: PyStmt[], includeDocstrings: boolean): string | undefined {
+  if (!includeDocstrings) return undefined;
+  const first = body[0];
+  if (!first || first.kind !== "Expr") return undefined;
+  const value = first.value;
+  if (value.kind !== "Constant" || value.valueKind !== "str" || value.isFString) return undefined;
+  return cleanDocstring(value.value ?? "");
+}
+
+// Same normalization as inspect.cleandoc: strip the common indentation of continuation lines
+function cleanDocstring(value: string): string {
+  const lines = value.replace(/\t/g, "        ").split("\n");
+  const indents = lines
+    .slice(1)
+    .filter((l) => l.trim() !== "")
+    .map((l) => l.length - l.trimStart().length);
+  const margin = indents.length > 0 ? Math.min(...indents) : 0;
+  return [lines[0].trim(), ...lines.slice(1).map((l) => l.slice(margin).trimEnd())].join("\n").trim();
+}
+
+function extractCalls(nodes: PyNode[]): ParsedCall[] {
   const calls: ParsedCall[] = [];
-  for (let i = startIdx; i <= endIdx; i++) {
-    if (i < 0 || i >= lines.length) break;
-    const line = lines[i];
-    const trimmed = line.trim();
-    if (trimmed === "" || trimmed.startsWith("#")) continue;
-    // Find identifiers followed by '('
-    const re = /([A-Za-z_][\w\.]*)\s*\(/g;
-    let m: RegExpExecArray | null;
-    while ((m = re.exec(line)) !== null) {
-      const name = m[1];
-      const base = name.includes(".") ? name.split(".")[0] : name;
-      if (KEYWORD_CALL_DENYLIST.has(base)) continue;
-      calls.push({ name, line: i + 1, column: m.index + 1, qualified: name });
+  // Parents are visited first, so they can flag the calls they directly contain
+  const awaited = new Set<PyNode>();
+  const passedAsArgument = new Set<PyNode>();
+  for (const root of nodes) {
+    walkPy(root, (node) => {
+      if (node.kind === "FunctionDef" || node.kind === "ClassDef") {
+        // Decorators, defaults and bases run in this scope; the nested body is its own definition
+        const body: PyNode[] = node.body;
+        calls.push(...extractCalls(childNodes(node).filter((child) => !body.includes(child))));
+        return false;
+      }
+      if (node.kind === "match_case") {
+        // Class patterns (`case Point(x=0):`) look like calls but only match
+        calls.push(...extractCalls([...(node.guard ? [node.guard] : []), ...node.body]));
+        return false;
+      }
+      if (node.kind === "Await") awaited.add(node.value);
+      if (node.kind !== "Call") return;
+      for (const arg of [...node.args, ...node.keywords.map((k) => k.value)]) {
+        passedAsArgument.add(arg.kind === "Starred" ? arg.value : arg);
+      }
+      const site = callSite(node.func);
+      if (!site) return;
+      calls.push({
+        name: site.name,
+        line: site.line,
+        column: site.column,
+        qualified: site.name,
+        isAwaited: awaited.has(node),
+        isChained: isCalledOnCallResult(node.func),
+        isArgument: passedAsArgument.has(node),
+      });
+    });
+  }
+  return calls.sort((a, b) => a.line - b.line || (a.column ?? 0) - (b.column ?? 0));
+}
+
+// `qs.filter().first()`: the receiver of the called attribute is itself produced by a call
+function isCalledOnCallResult(func: PyExpr): boolean {
+  let cur: PyExpr = func;
+  while (cur.kind === "Attribute" || cur.kind === "Subscript") {
+    cur = cur.value;
+    if (cur.kind === "Call") return true;
+  }
+  return false;
+}
+
+/**
+ * Size and shape of a function body. Nested definitions are measured on their own and count
+ * as a single statement here; lambdas and comprehensions stay part of the enclosing function.
+ */
+function measureFunction(def: PyFunctionDef, ctx: SourceContext): ParsedFunctionMetrics {
+  let decisions = 0;
+  let returnCount = 0;
+  for (const stmt of def.body) {
+    walkPy(stmt, (node) => {
+      switch (node.kind) {
+        case "FunctionDef":
+        case "ClassDef":
+          return false;
+        case "If":
+        case "For":
+        case "While":
+        case "IfExp":
+        case "ExceptHandler":
+        case "match_case":
+          decisions++;
+          break;
+        case "comprehension":
+          decisions += 1 + node.ifs.length;
+          break;
+        case "BoolOp":
+          decisions += node.values.length - 1;
+          break;
+        case "Return":
+          returnCount++;
+          break;
+      }
+    });
+  }
+
+  let statementCount = 0;
+  let maxNestingDepth = 0;
+  const visitBlock = (body: PyStmt[], depth: number) => {
+    for (const stmt of body) {
+      statementCount++;
+      maxNestingDepth = Math.max(maxNestingDepth, depth);
+      if (stmt.kind === "FunctionDef" || stmt.kind === "ClassDef") continue;
+      for (const block of nestedBlocks(stmt)) {
+        // `elif` chains are parsed as an If nested in orelse but read as one level
+        const isElif = stmt.kind === "If" && block === stmt.orelse && block.length === 1 && ctx.content.startsWith("elif", block[0].start);
+        if (isElif) {
+          statementCount--;
+          visitBlock(block, depth);
+        } else {
+          visitBlock(block, depth + 1);
+        }
+      }
     }
+  };
+  visitBlock(def.body, 0);
+
+  return {
+    cyclomaticComplexity: 1 + decisions,
+    maxNestingDepth,
+    statementCount,
+    returnCount,
+    lineCount: def.endLine - def.line + 1,
+  };
+}
+
+/**
+ * try/except blocks and raise statements of a body, excluding nested definitions.
+ * A `raise name` inside `except E as name` counts as a re-raise.
+ */
+function extractErrorHandling(body: PyStmt[], ctx: SourceContext): { tryBlocks: ParsedTryBlock[]; raises: ParsedRaise[] } {
+  const tryBlocks: ParsedTryBlock[] = [];
+  const raises: ParsedRaise[] = [];
+  const caughtNames: string[] = [];
+
+  const visit = (node: PyNode): boolean | void => {
+    if (node.kind === "FunctionDef" || node.kind === "ClassDef" || node.kind === "Lambda") return false;
+    if (node.kind === "Raise") {
+      const exception = node.exc ? exceptionName(node.exc, ctx) : undefined;
+      const isReraise = !node.exc || (node.exc.kind === "Name" && caughtNames.includes(node.exc.id));
+      raises.push({ exception, cause: node.cause ? exceptionName(node.cause, ctx) : undefined, line: node.line, isReraise });
+      return false;
+    }
+    if (node.kind === "ExceptHandler") {
+      // Walk the handler body with its bound name in scope so `raise e` is recognized as a re-raise
+      if (node.name) caughtNames.push(node.name);
+      for (const stmt of node.body) walkPy(stmt, visit);
+      if (node.name) caughtNames.pop();
+      return false;
+    }
+    if (node.kind !== "Try") return;
+    tryBlocks.push({
+      line: node.line,
+      lineEnd: node.endLine,
+      handlers: node.handlers.map((h) => ({
+        types: handlerTypes(h, ctx),
+        name: h.name,
+        line: h.line,
+        reraises: h.body.some((stmt) => {
+          let found = false;
+          walkPy(stmt, (n) => {
+            if (n.kind === "FunctionDef" || n.kind === "ClassDef" || n.kind === "Lambda") return false;
+            if (n.kind === "Raise" && (!n.exc || (n.exc.kind === "Name" && n.exc.id === h.name))) found = true;
+          });
+          return found;
+        }),
+        swallows: h.body.every(
+          (stmt) => stmt.kind === "Pass" || (stmt.kind === "Expr" && stmt.value.kind === "Constant" && stmt.value.valueKind === "Ellipsis")
+        ),
+      })),
+      hasElse: node.orelse.length > 0,
+      hasFinally: node.finalbody.length > 0,
+      isStar: node.isStar,
+    });
+  };
+  for (const stmt of body) walkPy(stmt, visit);
+
+  return { tryBlocks: tryBlocks.sort((a, b) => a.line - b.line), raises: raises.sort((a, b) => a.line - b.line) };
+}
+
+// `ValueError("x")` -> "ValueError", `errors.NotFound` -> "errors.NotFound"; other expressions keep their source text
+function exceptionName(expr: PyExpr, ctx: SourceContext): string {
+  const target = expr.kind === "Call" ? expr.func : expr;
+  return dottedName(target) ?? inlineText(expr, ctx);
+}
+
+function callSite(func: PyExpr): { name: string; line: number; column: number } | undefined {
+  const dotted = dottedName(func);
+  if (dotted) return { name: dotted, line: func.line, column: func.column };
+
+  // Calls on computed receivers (e.g. `load().items()`) keep the trailing attribute chain
+  const attrs: PyAttribute[] = [];
+  let cur: PyExpr = func;
+  while (cur.kind === "Attribute") {
+    attrs.unshift(cur);
+    cur = cur.value;
   }
-  return calls;
+  if (attrs.length === 0) return undefined;
+  return { name: attrs.map((a) => a.attr).join("."), line: attrs[0].attrLine, column: attrs[0].attrColumn };
 }
 
 function sliceLines(lines: string[], startIdx: number, endIdx: number): string {
@@ -442,4 +1095,3 @@ function sliceLines(lines: string[], startIdx: number, endIdx: number): string {
   const end = Math.min(lines.length - 1, endIdx);
   return lines.slice(start, end + 1).join("\n");
 }
-
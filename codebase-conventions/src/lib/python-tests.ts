@@ -0,0 +1,82 @@
+import type { ParsedModule, ParsedFunction, ParsedClass, ParsedDecorator, ParsedParametrize, TestFramework, TestRole } from "@/lib/types";
+import { stringValue } from "@/lib/python-frameworks";
+
+/**
+ * Test framework of a module, or undefined for production code:
+ * - Test modules are `test_*.py`, `*_test.py` and `conftest.py` files, files under a `tests`/`test` directory,
+ *   and modules defining unittest.TestCase subclasses.
+ * - unittest when the module defines TestCase subclasses and does not import pytest; pytest otherwise
+ *   (pytest also collects unittest classes).
+ */
+export function detectTestFramework(mod: ParsedModule, imported: Set<string>): TestFramework | undefined {
+  if (mod.isStub) return undefined;
+  const parts = mod.filePath.split("/");
+  const fileName = parts[parts.length - 1].replace(/\.(py|ipynb)$/, "");
+  const testPath = /^test_|_test$/.test(fileName) || fileName === "conftest" || parts.slice(0, -1).some((d) => d === "tests" || d === "test");
+  const hasTestCase = mod.classes.some(isTestCaseClass);
+  if (!testPath && !hasTestCase) return undefined;
+  return hasTestCase && !imported.has("pytest") ? "unittest" : "pytest";
+}
+
+export default detectTestFramework;
+
+/**
+ * Mark the tests, fixtures and setup hooks of a test module the way the runners collect them:
+ * `test*` functions, and `test*` methods of `Test*` classes without `__init__` (pytest) or of TestCase subclasses.
+ */
+export function classifyTests(mod: ParsedModule, framework: TestFramework) {
+  mod.testFramework = framework;
+  for (const fn of mod.functions) markFunction(fn, MODULE_HOOKS);
+  for (const cls of mod.classes) markClass(cls, framework);
+}
+
+const MODULE_HOOKS = new Set(["setup_module", "teardown_module", "setup_function", "teardown_function", "setUpModule", "tearDownModule"]);
+const CLASS_HOOKS = new Set([
+  "setUp",
+  "tearDown",
+  "setUpClass",
+  "tearDownClass",
+  "asyncSetUp",
+  "asyncTearDown",
+  "setup_method",
+  "teardown_method",
+  "setup_class",
+  "teardown_class",
+]);
+
+function isTestCaseClass(cls: ParsedClass): boolean {
+  return cls.baseClasses.some((b) => /TestCase$/.test(b.split(".").pop() ?? b));
+}
+
+function markClass(cls: ParsedClass, framework: TestFramework) {
+  const collected = isTestCaseClass(cls) || (framework === "pytest" && cls.name.startsWith("Test") && !cls.methods.some((m) => m.name === "__init__"));
+  if (!collected) return;
+  cls.isTestClass = true;
+  for (const m of cls.methods) markFunction(m, CLASS_HOOKS);
+  for (const inner of cls.classes) markClass(inner, framework);
+}
+
+function markFunction(fn: ParsedFunction, hooks: Set<string>) {
+  let role: TestRole | undefined;
+  if (fn.entryPoints.some((e) => e.kind === "fixture")) role = "fixture";
+  else if (fn.name.startsWith("test")) role = "test";
+  else if (hooks.has(fn.name)) role = "setup";
+  if (!role) return;
+  fn.testRole = role;
+  const parametrize = fn.decoratorInfo.filter((d) => /(^|\.)mark\.parametrize$/.test(d.name)).map(parseParametrize);
+  if (parametrize.length > 0) fn.parametrize = parametrize;
+}
+
+// `@pytest.mark.parametrize("a, b", [(1, 2), (3, 4)])` -> { argnames: ["a", "b"], cases: 2 }
+function parseParametrize(d: ParsedDecorator): ParsedParametrize {
+  const names = d.argValues[0] ?? d.kwargValues.argnames;
+  const single = stringValue(names);
+  const argnames =
+    single !== undefined
+      ? single.split(",").map((n) => n.trim()).filter(Boolean)
+      : names?.kind === "sequence"
+        ? names.items.map(stringValue).filter((n): n is string => n !== undefined)
+        : [];
+  const values = d.argValues[1] ?? d.kwargValues.argvalues;
+  return { argnames, cases: values?.kind === "sequence" ? values.items.length : undefined, line: d.line };
+}
@@ -0,0 +1,410 @@
+/**
+ * Python tokenizer modeled on CPython's `tokenize` module:
+ * - Emits NAME, NUMBER, STRING, OP, NEWLINE/NL, COMMENT, INDENT/DEDENT and ENDMARKER tokens.
+ * - Handles implicit (bracket) and explicit (backslash) line joining, string prefixes,
+ *   triple-quoted strings and nested f-string replacement fields.
+ * - Never throws: problems are reported as errors and tokenizing continues.
+ */
+
+export type PyTokenType =
+  | "NAME"
+  | "NUMBER"
+  | "STRING"
+  | "OP"
+  | "NEWLINE"
+  | "NL"
+  | "COMMENT"
+  | "INDENT"
+  | "DEDENT"
+  | "ENDMARKER"
+  | "ERRORTOKEN";
+
+export interface PyToken {
+  type: PyTokenType;
+  value: string;
+  start: number; // offset into the normalized source
+  end: number; // exclusive offset
+  line: number; // 1-based
+  column: number; // 1-based
+  endLine: number;
+  endColumn: number; // 1-based, exclusive
+}
+
+export interface PyTokenizeError {
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface PyTokenizeResult {
+  tokens: PyToken[];
+  errors: PyTokenizeError[];
+}
+
+// Longest operators first so that prefix matching picks the full operator
+const OPERATORS = [
+  "**=", "//=", ">>=", "<<=", "...",
+  "->", ":=", "**", "//", ">>", "<<", "<=", ">=", "==", "!=",
+  "+=", "-=", "*=", "/=", "%=", "&=", "|=", "^=", "@=",
+  "+", "-", "*", "/", "%", "@", "&", "|", "^", "~", "<", ">",
+  "(", ")", "[", "]", "{", "}", ",", ":", ";", ".", "=",
+];
+
+const STRING_PREFIXES = new Set(["", "r", "u", "b", "br", "rb", "f", "fr", "rf", "t", "tr", "rt"]);
+
+const CLOSING_BRACKETS: Record<string, string> = { ")": "(", "]": "[", "}": "{" };
+
+const NUMBER_RE =
+  /(?:0[xX](?:_?[0-9a-fA-F])+|0[oO](?:_?[0-7])+|0[bB](?:_?[01])+|(?:\d(?:_?\d)*(?:\.(?:\d(?:_?\d)*)?)?|\.\d(?:_?\d)*)(?:[eE][+-]?\d(?:_?\d)*)?[jJ]?)/y;
+
+export function tokenizePython(source: string): PyTokenizeResult {
+  const src = normalizeSource(source);
+  const n = src.length;
+  const lineStarts = computeLineStarts(src);
+  const tokens: PyToken[] = [];
+  const errors: PyTokenizeError[] = [];
+  const indents: number[] = [0];
+  const brackets: { char: string; offset: number }[] = [];
+
+  let pos = 0;
+  let atLineStart = true;
+
+  function push(type: PyTokenType, start: number, end: number, value = src.slice(start, end)) {
+    const s = positionAt(lineStarts, start);
+    const e = positionAt(lineStarts, end);
+    tokens.push({ type, value, start, end, line: s.line, column: s.column, endLine: e.line, endColumn: e.column });
+  }
+
+  function error(message: string, offset: number) {
+    const p = positionAt(lineStarts, offset);
+    errors.push({ message, line: p.line, column: p.column });
+  }
+
+  while (pos < n) {
+    if (atLineStart && brackets.length === 0) {
+      // Measure indentation of a new logical line (tabs advance to the next multiple of 8)
+      let width = 0;
+      let p = pos;
+      while (p < n) {
+        const ch = src[p];
+        if (ch === " ") width++;
+        else if (ch === "\t") width = (Math.floor(width / 8) + 1) * 8;
+        else if (ch === "\f") width = 0;
+        else break;
+        p++;
+      }
+      if (p >= n) {
+        pos = p;
+        break;
+      }
+      if (src[p] === "\n" || src[p] === "#") {
+        // Blank or comment-only lines never affect indentation
+        if (src[p] === "#") {
+          const e = lineEndAt(src, p);
+          push("COMMENT", p, e);
+          p = e;
+        }
+        if (p < n) push("NL", p, p + 1);
+        pos = p + 1;
+        continue;
+      }
+      const top = indents[indents.length - 1];
+      if (width > top) {
+        indents.push(width);
+        push("INDENT", pos, p);
+      } else if (width < top) {
+        while (width < indents[indents.length - 1]) {
+          indents.pop();
+          push("DEDENT", p, p, "");
+        }
+        if (width !== indents[indents.length - 1]) {
+          error("unindent does not match any outer indentation level", p);
+          indents.push(width);
+        }
+      }
+      pos = p;
+      atLineStart = false;
+      continue;
+    }
+
+    const ch = src[pos];
+
+    if (ch === " " || ch === "\t" || ch === "\f") {
+      pos++;
+      continue;
+    }
+
+    if (ch === "\n") {
+      push(brackets.length > 0 || atLineStart ? "NL" : "NEWLINE", pos, pos + 1);
+      pos++;
+      if (brackets.length === 0) atLineStart = true;
+      continue;
+    }
+
+    if (ch === "#") {
+      const e = lineEndAt(src, pos);
+      push("COMMENT", pos, e);
+      pos = e;
+      continue;
+    }
+
+    if (ch === "\\") {
+      if (src[pos + 1] === "\n") {
+        pos += 2;
+        continue;
+      }
+      error("unexpected character after line continuation character", pos);
+      push("ERRORTOKEN", pos, pos + 1);
+      pos++;
+      continue;
+    }
+
+    const prefixLen = stringPrefixLength(src, pos);
+    if (prefixLen >= 0) {
+      const scanned = scanString(src, pos);
+      if (!scanned.terminated) {
+        error("unterminated string literal", pos);
+        push("ERRORTOKEN", pos, scanned.end);
+      } else {
+        push("STRING", pos, scanned.end);
+      }
+      pos = scanned.end;
+      continue;
+    }
+
+    if (isIdentifierStart(ch)) {
+      let e = pos + 1;
+      while (e < n && isIdentifierChar(src[e])) e++;
+      push("NAME", pos, e);
+      pos = e;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(src[pos + 1] ?? ""))) {
+      NUMBER_RE.lastIndex = pos;
+      const m = NUMBER_RE.exec(src);
+      const e = m ? pos + m[0].length : pos + 1;
+      push("NUMBER", pos, e);
+      pos = e;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => src.startsWith(o, pos));
+    if (op) {
+      if (op === "(" || op === "[" || op === "{") {
+        brackets.push({ char: op, offset: pos });
+      } else if (op === ")" || op === "]" || op === "}") {
+        const open = brackets.pop();
+        if (!open) {
+          error(`unmatched '${op}'`, pos);
+        } else if (open.char !== CLOSING_BRACKETS[op]) {
+          error(`closing parenthesis '${op}' does not match opening parenthesis '${open.char}'`, pos);
+        }
+      }
+      push("OP", pos, pos + op.length);
+      pos += op.length;
+      continue;
+    }
+
+    error(`invalid character '${ch}'`, pos);
+    push("ERRORTOKEN", pos, pos + 1);
+    pos++;
+  }
+
+  for (const open of brackets) {
+    error(`'${open.char}' was never closed`, open.offset);
+  }
+  const last = [...tokens].reverse().find((t) => t.type !== "COMMENT" && t.type !== "NL");
+  if (last && last.type !== "NEWLINE" && last.type !== "DEDENT" && last.type !== "INDENT") {
+    push("NEWLINE", n, n, "");
+  }
+  while (indents.length > 1) {
+    indents.pop();
+    push("DEDENT", n, n, "");
+  }
+  push("ENDMARKER", n, n, "");
+
+  return { tokens, errors };
+}
+
+export default tokenizePython;
+
+/**
+ * Source text as the tokenizer reads it: a leading byte order mark (files saved on Windows) dropped and
+ * line endings normalized to `\n`. Token offsets index this text.
+ */
+export function normalizeSource(source: string): string {
+  return source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+/**
+ * Length of the string prefix (0-2) when a string literal starts at `pos`, otherwise -1.
+ */
+export function stringPrefixLength(src: string, pos: number): number {
+  if (pos > 0 && isIdentifierChar(src[pos - 1])) return -1;
+  for (let len = 0; len <= 2; len++) {
+    const q = src[pos + len];
+    if (q === '"' || q === "'") {
+      return STRING_PREFIXES.has(src.slice(pos, pos + len).toLowerCase()) ? len : -1;
+    }
+    if (!q || !/[A-Za-z]/.test(q)) return -1;
+  }
+  return -1;
+}
+
+/**
+ * Scan a string literal (prefix included) starting at `start`.
+ * Replacement fields of f-strings are skipped with bracket/quote awareness so that
+ * nested quotes (PEP 701) do not terminate the outer literal.
+ */
+function scanString(src: string, start: number): { end: number; terminated: boolean } {
+  let p = start;
+  while (/[A-Za-z]/.test(src[p])) p++;
+  const prefix = src.slice(start, p).toLowerCase();
+  const isTemplate = prefix.includes("f") || prefix.includes("t");
+  const quote = src.startsWith('"""', p) ? '"""' : src.startsWith("'''", p) ? "'''" : src[p];
+  const triple = quote.length === 3;
+  p += quote.length;
+
+  while (p < src.length) {
+    const c = src[p];
+    if (c === "\\") {
+      p += 2;
+      continue;
+    }
+    if (c === "\n" && !triple) return { end: p, terminated: false };
+    if (src.startsWith(quote, p)) return { end: p + quote.length, terminated: true };
+    if (isTemplate && c === "{") {
+      if (src[p + 1] === "{") {
+        p += 2;
+        continue;
+      }
+      const field = scanReplacementField(src, p + 1, triple);
+      if (!field.terminated) return field;
+      p = field.end;
+      continue;
+    }
+    p++;
+  }
+  return { end: p, terminated: false };
+}
+
+/**
+ * Ranges (relative to `raw`) of the expressions in an f-string literal's replacement fields,
+ * including fields nested in format specs. Conversions (`!r`), format specs and the `=` of
+ * self-documenting fields are not part of the ranges.
+ */
+export function fStringExpressionRanges(raw: string): { start: number; end: number }[] {
+  const ranges: { start: number; end: number }[] = [];
+  let p = 0;
+  while (/[A-Za-z]/.test(raw[p] ?? "")) p++;
+  const isRaw = raw.slice(0, p).toLowerCase().includes("r");
+  const quote = raw.startsWith('"""', p) || raw.startsWith("'''", p) ? raw.slice(p, p + 3) : raw[p];
+  p += quote.length;
+  const end = raw.length - quote.length >= p && raw.endsWith(quote) ? raw.length - quote.length : raw.length;
+
+  // Returns the offset just past the field's closing brace
+  const scanField = (start: number): number => {
+    let depth = 0;
+    let q = start;
+    while (q < end) {
+      if (stringPrefixLength(raw, q) >= 0) {
+        q = scanString(raw, q).end;
+        continue;
+      }
+      const c = raw[q];
+      if (c === "(" || c === "[" || c === "{") depth++;
+      else if (depth > 0 && (c === ")" || c === "]" || c === "}")) depth--;
+      else if (depth === 0) {
+        const isConversion = c === "!" && raw[q + 1] !== "=";
+        const isDebug = c === "=" && !"=!<>".includes(raw[q - 1]) && raw[q + 1] !== "=";
+        if (c === "}" || c === ":" || isConversion || isDebug) {
+          ranges.push({ start, end: q });
+          return finishField(q);
+        }
+      }
+      q++;
+    }
+    return q;
+  };
+
+  // After the expression: skip `=`, `!r` and the format spec (whose `{...}` are nested fields)
+  const finishField = (start: number): number => {
+    let q = start;
+    while (q < end) {
+      const c = raw[q];
+      if (c === "}") return q + 1;
+      if (c === ":") {
+        q++;
+        while (q < end && raw[q] !== "}") q = raw[q] === "{" ? scanField(q + 1) : q + 1;
+        return q + 1;
+      }
+      q++;
+    }
+    return q;
+  };
+
+  while (p < end) {
+    const c = raw[p];
+    if (c === "\\" && !isRaw) p += 2;
+    else if ((c === "{" && raw[p + 1] === "{") || (c === "}" && raw[p + 1] === "}")) p += 2;
+    else if (c === "{") p = scanField(p + 1);
+    else p++;
+  }
+  return ranges;
+}
+
+function scanReplacementField(src: string, start: number, triple: boolean): { end: number; terminated: boolean } {
+  let depth = 1;
+  let p = start;
+  while (p < src.length) {
+    const c = src[p];
+    if (c === "\n" && !triple) return { end: p, terminated: false };
+    if (stringPrefixLength(src, p) >= 0) {
+      const nested = scanString(src, p);
+      if (!nested.terminated) return nested;
+      p = nested.end;
+      continue;
+    }
+    if (c === "{" || c === "(" || c === "[") depth++;
+    else if (c === "}" || c === ")" || c === "]") {
+      depth--;
+      if (depth === 0) return { end: p + 1, terminated: true };
+    }
+    p++;
+  }
+  return { end: p, terminated: false };
+}
+
+function isIdentifierStart(ch: string): boolean {
+  return /[A-Za-z_]/.test(ch) || ch.charCodeAt(0) > 127;
+}
+
+function isIdentifierChar(ch: string | undefined): boolean {
+  if (!ch) return false;
+  return /\w/.test(ch) || ch.charCodeAt(0) > 127;
+}
+
+function lineEndAt(src: string, pos: number): number {
+  const e = src.indexOf("\n", pos);
+  return e < 0 ? src.length : e;
+}
+
+function computeLineStarts(src: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < src.length; i++) {
+    if (src[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+function positionAt(lineStarts: number[], offset: number): { line: number; column: number } {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+}
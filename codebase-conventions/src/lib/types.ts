@@ -31,66 +31,390 @@ export interface ParseOptions {
   dialect?: "python";
   includeDocstrings?: boolean;
   includeComments?: boolean;
+  cache?: ParseCacheStore | null; // defaults to a shared in-memory store; null disables caching
+}
+
+// Storage for parsed modules, keyed by content hash, upload path, module location and parse options.
+// The parser stores and reads copies, so a store may keep and return the objects it is given.
+export interface ParseCacheStore {
+  get(key: string): Promise<ParsedModule | undefined>;
+  set(key: string, mod: ParsedModule): Promise<void>;
+}
+
+export interface GraphBuildOptions {
+  previous?: KnowledgeGraph; // graph of an earlier upload; unchanged modules reuse its function-body edges
 }
 
 export type { CodeNode as TCodeNode, CodeEdge as TCodeEdge };
 
-// Parsed Python structures (regex-first MVP)
+// Parsed Python structures (built from the syntax tree in python-ast.ts)
 
 export interface ParsedCall {
   name: string; // e.g., "func", "obj.method"
   line: number; // 1-based
   column?: number;
   qualified?: string; // same as name for now; reserved for future resolution
+  isAwaited: boolean; // `await f()`
+  isChained: boolean; // called on the result of another call, e.g. `first` in `qs.filter().first()`
+  isArgument: boolean; // passed directly as an argument, e.g. `g` in `f(g())`
+}
+
+export type ParameterKind =
+  | "positional-only" // before a "/" marker
+  | "positional-or-keyword"
+  | "var-positional" // *args
+  | "keyword-only" // after "*" or *args
+  | "var-keyword"; // **kwargs
+
+export interface ParsedParameter {
+  name: string; // without the * / ** prefix
+  kind: ParameterKind;
+  annotation?: string; // source text of the annotation, if any
+  annotationType?: ParsedType; // structured form of the annotation
+  default?: string; // source text of the default value, if any
+}
+
+// Annotation expressions as a small type tree (see python-annotations.ts)
+export type ParsedType =
+  | { kind: "name"; name: string } // `int`, `User`, `typing.Any`, `None`
+  | { kind: "generic"; name: string; origin: GenericOrigin; args: ParsedType[] } // `list[int]`, `Dict[str, Any]`, `Callable[[int], str]`
+  | { kind: "union"; syntax: UnionSyntax; members: ParsedType[] } // flattened; `Optional[X]` has members X and None
+  | { kind: "forward-ref"; text: string; type?: ParsedType } // string annotation; `type` when the string parses
+  | { kind: "list"; items: ParsedType[] } // `Callable` parameter lists
+  | { kind: "literal"; text: string } // `Literal[...]` values, `...`
+  | { kind: "unknown"; text: string }; // any other expression
+
+// builtin: `list[int]` (PEP 585); typing: the deprecated `typing` aliases (`List[int]`); other: any other generic
+export type GenericOrigin = "builtin" | "typing" | "other";
+
+// pep604: `X | Y`; union: `Union[X, Y]`; optional: `Optional[X]`
+export type UnionSyntax = "pep604" | "union" | "optional";
+
+// Annotation coverage and style of one signature; counts are of occurrences anywhere in the annotations
+export interface ParsedTypeCoverage {
+  annotatableParams: number; // parameters other than a leading self/cls
+  annotatedParams: number;
+  returnAnnotated: boolean;
+  pep604Unions: number;
+  typingUnions: number; // `Union[...]` and `Optional[...]`
+  builtinGenerics: number;
+  typingGenerics: number;
+  forwardRefs: number;
+  anys: number; // `Any`
+}
+
+export interface ParsedComment {
+  text: string; // comment text without the leading "#"
+  line: number;
+}
+
+export interface ParsedCommentMarker {
+  kind: "todo" | "fixme" | "hack" | "xxx" | "type-ignore" | "noqa" | "pragma";
+  line: number;
+  detail?: string; // TODO text, ignored error codes (e.g. "E501", "attr-defined") or pragma (e.g. "no cover")
+}
+
+export interface ParsedExceptHandler {
+  types: string[]; // caught exception types; empty for a bare `except:`
+  name?: string; // `except E as name`
+  line: number;
+  reraises: boolean; // handler body re-raises (`raise` or `raise name`)
+  swallows: boolean; // handler body does nothing (`pass` / `...`)
+}
+
+export interface ParsedTryBlock {
+  line: number;
+  lineEnd: number;
+  handlers: ParsedExceptHandler[];
+  hasElse: boolean;
+  hasFinally: boolean;
+  isStar: boolean; // except* (exception groups)
+}
+
+export interface ParsedRaise {
+  exception?: string; // raised type or name, e.g. "ValueError" for `raise ValueError("x")`; absent for a bare `raise`
+  cause?: string; // `raise X from Y`
+  line: number;
+  isReraise: boolean; // bare `raise` or re-raising the caught exception
+}
+
+export type DocstringStyle = "google" | "numpy" | "rest" | "plain";
+
+export interface ParsedDocstringEntry {
+  name: string; // parameter name, or exception type for raises entries
+  type?: string;
+  description: string;
+}
+
+export interface ParsedDocstring {
+  style: DocstringStyle;
+  summary: string; // first paragraph
+  description?: string; // prose between the summary and the first section
+  params: ParsedDocstringEntry[];
+  returns?: { type?: string; description: string };
+  raises: ParsedDocstringEntry[];
+}
+
+export interface ParsedFunctionMetrics {
+  cyclomaticComplexity: number; // 1 + decision points (if/elif, loops, except, case, boolean operators, ...)
+  maxNestingDepth: number; // deepest chain of nested compound statements (elif does not nest)
+  statementCount: number; // statements in the body; a nested definition counts as one
+  returnCount: number; // return statements (excluding nested definitions)
+  lineCount: number; // lineEnd - lineStart + 1
+}
+
+export type MethodKind = "classmethod" | "staticmethod" | "property" | "setter" | "deleter";
+
+export interface ParsedGenerator {
+  yields: number; // `yield` expressions
+  yieldFroms: number; // `yield from` delegations
+}
+
+export interface ParsedAsyncDetails {
+  awaitLines: number[]; // one entry per `await` expression
+  asyncWith: number; // `async with` statements
+  asyncFor: number; // `async for` loops and async comprehension clauses
+  gathers: number; // `asyncio.gather(...)` calls
+  taskGroups: number; // `asyncio.TaskGroup()`, anyio `create_task_group()`, trio `open_nursery()`
+  spawnedTasks: number; // `create_task`, `ensure_future`, `start_soon` calls
 }
 
 export interface ParsedFunction {
   name: string;
-  parameters: string[]; // raw parameter tokens
+  parameters: ParsedParameter[]; // in declaration order
   returnHint?: string;
+  returnType?: ParsedType; // structured form of returnHint
+  typeCoverage: ParsedTypeCoverage;
   isAsync: boolean;
+  asyncDetails?: ParsedAsyncDetails; // async def only
+  generator?: ParsedGenerator; // only when the body yields (async generators included)
+  methodKind?: MethodKind; // from decorators; undefined for plain functions and instance methods
+  contextManager?: "sync" | "async"; // `@contextmanager` / `@asynccontextmanager`
   isPrivate: boolean; // leading underscore
   decorators: string[]; // e.g., ["@staticmethod", "@decorator(arg)"]
+  decoratorInfo: ParsedDecorator[]; // decorators split into name and arguments, in the same order
+  entryPoints: ParsedEntryPoint[]; // framework roles declared by decorators (routes, commands, tasks, fixtures)
   lineStart: number; // definition line (1-based)
   lineEnd: number; // best-effort
   docstring?: string;
+  docstringInfo?: ParsedDocstring; // sections and detected style of the docstring
+  undocumentedParams?: string[]; // signature parameters missing from a docstring that documents parameters
+  staleParams?: string[]; // documented parameters that are not in the signature
   codeExcerpt?: string;
-  calls: ParsedCall[]; // intra-function call sites
+  calls: ParsedCall[]; // intra-function call sites (excluding those inside nested definitions)
+  functions: ParsedFunction[]; // nested functions (closures, decorator factories)
+  classes: ParsedClass[]; // classes defined inside the function body
+  tryBlocks: ParsedTryBlock[]; // excluding those inside nested definitions
+  raises: ParsedRaise[];
+  metrics: ParsedFunctionMetrics;
+  comments?: ParsedComment[]; // only with ParseOptions.includeComments; nested definitions keep their own
+  markers: ParsedCommentMarker[]; // TODO/FIXME and suppression pragmas in comments owned by this function
+  hasStub?: boolean; // a matching .pyi stub supplied missing annotations
+  testRole?: TestRole; // test modules only
+  parametrize?: ParsedParametrize[]; // `@pytest.mark.parametrize` decorators, outermost first
+  cellLocation?: ParsedCellLocation; // notebooks only
 }
 
 export interface ParsedClass {
   name: string;
   baseClasses: string[]; // raw base names
+  kind: ClassKind; // from decorators, bases and metaclass (see python-class-kinds.ts)
+  metaclass?: string; // `metaclass=` keyword, source text
   decorators: string[];
+  decoratorInfo: ParsedDecorator[];
+  entryPoints: ParsedEntryPoint[]; // e.g. Django class-based views
   docstring?: string;
+  docstringInfo?: ParsedDocstring;
   lineStart: number;
   lineEnd: number;
   codeExcerpt?: string;
   methods: ParsedFunction[]; // methods discovered within the class
+  classes: ParsedClass[]; // inner classes (e.g. Django `Meta`, pydantic `Config`)
+  attributes: ParsedAttribute[]; // class-level declarations and `self.x` assignments
+  comments?: ParsedComment[]; // only with ParseOptions.includeComments; methods and inner classes keep their own
+  markers: ParsedCommentMarker[];
+  isTestClass?: boolean; // pytest `Test*` class or unittest.TestCase subclass in a test module
+  cellLocation?: ParsedCellLocation; // notebooks only
+}
+
+export type ClassKind =
+  | "dataclass"
+  | "attrs"
+  | "enum"
+  | "protocol"
+  | "abc"
+  | "namedtuple"
+  | "typeddict"
+  | "pydantic"
+  | "exception"
+  | "plain";
+
+export interface ParsedDecorator {
+  name: string; // dotted name without "@" and call arguments, e.g. "app.route"; source text for other expressions
+  isCall: boolean; // `@app.route("/x")` vs `@staticmethod`
+  args: string[]; // positional arguments (source text), `*spread` included
+  kwargs: Record<string, string>; // keyword arguments (source text); `**spread` under "**"
+  argValues: ParsedArgumentValue[]; // literal values of `args`, read from the syntax tree
+  kwargValues: Record<string, ParsedArgumentValue>; // literal values of `kwargs`
+  line: number;
+}
+
+// Literal value of a call argument: a string (implicit concatenation included, f-strings excluded), a list or
+// tuple display of further values, or any other expression
+export type ParsedArgumentValue = { kind: "string"; value: string } | { kind: "sequence"; items: ParsedArgumentValue[] } | { kind: "other" };
+
+export type EntryPointKind = "route" | "view" | "task" | "cli-command" | "fixture";
+
+export type EntryPointFramework = "flask" | "fastapi" | "starlette" | "quart" | "django" | "celery" | "click" | "typer" | "pytest";
+
+// A function or class the framework calls: an HTTP route, a Django view, a task, a CLI command or a test fixture
+export interface ParsedEntryPoint {
+  kind: EntryPointKind;
+  framework: EntryPointFramework;
+  name: string; // URL path, command/task/fixture name, or the view's name
+  methods?: string[]; // HTTP methods of routes, upper-case; absent when the framework default applies
+  registrar?: string; // object the decorator belongs to, e.g. "app", "router", "bp", "cli"
+  isGroup?: boolean; // click/typer groups and typer callbacks
+  options?: Record<string, string>; // remaining decorator keyword arguments, e.g. { scope: "'session'" }
+  handler?: string; // Django urlpatterns: the view expression, e.g. "views.ItemView.as_view()"
+  line: number;
+}
+
+export type TestFramework = "pytest" | "unittest";
+
+// test: collected by the runner; fixture: pytest fixture; setup: setUp/tearDown and xunit-style setup_*/teardown_* hooks
+export type TestRole = "test" | "fixture" | "setup";
+
+export interface ParsedParametrize {
+  argnames: string[]; // e.g. ["value", "expected"]; empty when not given as string literals
+  cases?: number; // parameter sets, when argvalues is a list or tuple literal
+  line: number;
+}
+
+export interface ParsedAttribute {
+  name: string;
+  kind: "class" | "instance"; // declared in the class body vs assigned on `self` in a method
+  annotation?: string; // e.g. "int" for `timeout: int = 30` or `self.timeout: int = 30`
+  valueSnippet?: string; // right-hand side truncated; absent for bare annotations (dataclass fields)
+  line: number;
+  definedIn?: string; // method that first assigns an instance attribute
 }
 
 export interface ParsedImport {
   importType: "import" | "from";
-  module: string; // for "from ... import ..." this is the from-module; for "import ..." this is the first module token
+  module: string; // for "from ... import ..." this is the from-module without leading dots ("" for `from . import x`); for "import ..." this is the first module token
+  level: number; // number of leading dots of a relative import; 0 for absolute imports
   names: { name: string; alias?: string }[]; // for import x as y, or from m import a as b
   line: number;
   code: string;
+  cellLocation?: ParsedCellLocation; // notebooks only
+  scope: "module" | "class" | "function"; // where the import statement runs
+  scopeName?: string; // qualified name of the enclosing class or function, e.g. "Service.load"
+  guard?: ParsedImportGuard; // innermost if/try around the import
+  usage: ImportUsage;
+}
+
+// runtime: executed on import; type-only: under `if TYPE_CHECKING:`; lazy: inside a function;
+// optional: inside try/except ImportError (including the fallback in the handler)
+export type ImportUsage = "runtime" | "type-only" | "lazy" | "optional";
+
+export interface ParsedImportGuard {
+  kind: "type-checking" | "if" | "try" | "except";
+  condition?: string; // `if` test source, or the exception types caught around a try/except import
+  line: number; // line of the guarding if/try statement
 }
 
 export interface ParsedVariable {
   name: string;
+  annotation?: string; // e.g. "int" for `TIMEOUT: int = 30`
   valueSnippet?: string; // right-hand side truncated
   line: number;
+  cellLocation?: ParsedCellLocation; // notebooks only
+}
+
+export interface ParsedExportList {
+  names: string[]; // string literals assigned to or added to `__all__`, in order
+  line: number; // the assignment that starts the list
+  isDynamic: boolean; // some entries are computed (e.g. `__all__ = base.__all__ + [...]`) and not listed
+}
+
+// How a top-level symbol is meant to be used from outside its module (set by the graph builder)
+export type SymbolVisibility = "public" | "internal" | "re-exported";
+
+export type LanguageFeature =
+  | "async" // async def / async for / async with
+  | "f-string"
+  | "async-comprehension"
+  | "future-import" // from __future__ import ...
+  | "nested-f-string" // f-string inside a replacement field
+  | "f-string-quote-reuse" // PEP 701: field reuses the enclosing quote character
+  | "walrus" // assignment expression (:=)
+  | "positional-only-params" // "/" in a signature
+  | "builtin-generics" // list[int] in annotations
+  | "match-statement"
+  | "union-operator" // X | Y in annotations
+  | "except-star"
+  | "type-alias" // PEP 695 `type X = ...`
+  | "type-params" // PEP 695 `def f[T]()` / `class C[T]`
+  | "type-param-defaults"; // PEP 696
+
+export interface ParsedLanguageFeature {
+  name: LanguageFeature;
+  minVersion: string; // Python version that introduced the syntax, e.g. "3.10"
+  line: number; // first occurrence
+  count: number;
 }
 
 export interface ParsedModule {
   filePath: string; // absolute or relative path
-  moduleName: string; // derived from filename
+  contentHash: string; // SHA-256 of the file content (joined with the merged stub's hash)
+  moduleName: string; // dotted name derived from the file path and __init__.py packages
+  packageName?: string; // enclosing package (the package itself for __init__.py)
+  isPackage: boolean; // true for __init__.py
+  isStub: boolean; // a .pyi stub uploaded without its implementation
+  stubPath?: string; // the .pyi stub merged into this module, if any
+  notebookCells?: ParsedNotebookCell[]; // .ipynb only; line numbers elsewhere refer to the joined code cells
+  testFramework?: TestFramework; // test modules (test_*.py, *_test.py, conftest.py, tests/ directories, TestCase subclasses)
   classes: ParsedClass[];
   functions: ParsedFunction[]; // top-level functions only
   imports: ParsedImport[];
   variables: ParsedVariable[]; // top-level assignments only
+  exportList?: ParsedExportList; // `__all__`, when the module defines one
+  entryPoints: ParsedEntryPoint[]; // Django `urlpatterns` routes; decorated entry points live on their definitions
+  languageFeatures: ParsedLanguageFeature[];
+  futureImports: string[]; // names imported from __future__
+  minPythonVersion?: string; // highest minVersion among languageFeatures; absent when none are used
+  tryBlocks: ParsedTryBlock[]; // module-level statements only (e.g. optional imports)
+  raises: ParsedRaise[];
+  comments?: ParsedComment[]; // only with ParseOptions.includeComments; comments outside any definition
+  markers: ParsedCommentMarker[]; // markers outside any definition
+  diagnostics: ParseDiagnostic[]; // syntax errors (statements skipped) and other parse problems
 }
 
 export type ParseResult = ParsedModule[];
 
+// A notebook code cell within the joined source of its code cells
+export interface ParsedNotebookCell {
+  cell: number; // 1-based position in the notebook, counting markdown and raw cells
+  executionCount?: number;
+  lineStart: number; // first line in the joined source
+  lineEnd: number;
+}
+
+export interface ParsedCellLocation {
+  cell: number; // ParsedNotebookCell.cell
+  line: number; // 1-based line within the cell
+}
+
+export type DiagnosticSeverity = "error" | "warning";
+
+// A problem found while parsing; the affected code is missing from (or ambiguous in) the graph
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  file: string; // ParsedModule.filePath
+  cell?: number; // notebooks: the code cell; line is then relative to the cell
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+}
+